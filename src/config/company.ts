@@ -0,0 +1,33 @@
+/**
+ * Configuración de datos de la empresa para documentos generados (PDF, etc.)
+ */
+export interface CompanyConfig {
+  name: string;
+  logoPath?: string;
+  footerText: string;
+  taxId?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+}
+
+/**
+ * Obtener configuración de la empresa desde las variables de entorno
+ */
+export const getCompanyConfig = (): CompanyConfig => {
+  const config: CompanyConfig = {
+    name: process.env.COMPANY_NAME || 'Generador de Presupuestos',
+    footerText: process.env.COMPANY_FOOTER_TEXT || 'Gracias por confiar en nosotros.'
+  };
+
+  // Campos opcionales: solo incluir si están definidos
+  if (process.env.COMPANY_LOGO_PATH) config.logoPath = process.env.COMPANY_LOGO_PATH;
+  if (process.env.COMPANY_TAX_ID) config.taxId = process.env.COMPANY_TAX_ID;
+  if (process.env.COMPANY_ADDRESS) config.address = process.env.COMPANY_ADDRESS;
+  if (process.env.COMPANY_PHONE) config.phone = process.env.COMPANY_PHONE;
+  if (process.env.COMPANY_EMAIL) config.email = process.env.COMPANY_EMAIL;
+  if (process.env.COMPANY_WEBSITE) config.website = process.env.COMPANY_WEBSITE;
+
+  return config;
+};
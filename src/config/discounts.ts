@@ -0,0 +1,30 @@
+import { IUser } from '../types';
+
+/**
+ * Configuración de descuentos máximos sin aprobación
+ */
+export interface DiscountLimitsConfig {
+  // Descuento máximo (%) por rol; null = sin límite
+  roleLimits: Record<IUser['role'], number | null>;
+}
+
+const parseLimit = (value: string | undefined, fallback: number | null): number | null => {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 100 ? parsed : fallback;
+};
+
+/**
+ * Obtener límites de descuento desde las variables de entorno
+ *
+ * Los presupuestos con un descuento mayor al límite del usuario quedan
+ * pendientes de aprobación por un administrador.
+ */
+export const getDiscountLimitsConfig = (): DiscountLimitsConfig => {
+  return {
+    roleLimits: {
+      seller: parseLimit(process.env.SELLER_MAX_DISCOUNT_PERCENT, 15),
+      admin: parseLimit(process.env.ADMIN_MAX_DISCOUNT_PERCENT, null)
+    }
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * Configuración de una tarea programada
+ */
+export interface JobScheduleConfig {
+  enabled: boolean;
+  intervalMinutes: number;
+}
+
+/**
+ * Configuración de las tareas programadas en segundo plano
+ */
+export interface JobsConfig {
+  enabled: boolean;
+  lockTtlMinutes: number;
+  expireQuotes: JobScheduleConfig;
+  cancelStalePayments: JobScheduleConfig & { olderThanHours: number };
+  expiryReminders: JobScheduleConfig & { daysBeforeExpiry: number };
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Obtener configuración de tareas programadas desde las variables de entorno
+ */
+export const getJobsConfig = (): JobsConfig => {
+  return {
+    enabled: process.env.JOBS_ENABLED !== 'false',
+    lockTtlMinutes: parsePositiveInt(process.env.JOBS_LOCK_TTL_MINUTES, 10),
+    expireQuotes: {
+      enabled: process.env.JOB_EXPIRE_QUOTES_ENABLED !== 'false',
+      intervalMinutes: parsePositiveInt(process.env.JOB_EXPIRE_QUOTES_INTERVAL_MINUTES, 15)
+    },
+    cancelStalePayments: {
+      enabled: process.env.JOB_STALE_PAYMENTS_ENABLED !== 'false',
+      intervalMinutes: parsePositiveInt(process.env.JOB_STALE_PAYMENTS_INTERVAL_MINUTES, 30),
+      olderThanHours: parsePositiveInt(process.env.STALE_PAYMENT_HOURS, 24)
+    },
+    expiryReminders: {
+      enabled: process.env.JOB_EXPIRY_REMINDERS_ENABLED !== 'false',
+      intervalMinutes: parsePositiveInt(process.env.JOB_EXPIRY_REMINDERS_INTERVAL_MINUTES, 60),
+      daysBeforeExpiry: parsePositiveInt(process.env.EXPIRY_REMINDER_DAYS, 2)
+    }
+  };
+};
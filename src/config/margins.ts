@@ -0,0 +1,25 @@
+/**
+ * Configuración del margen mínimo de los presupuestos
+ */
+export interface MarginFloorConfig {
+  // Margen mínimo (%) sobre el neto; null = sin mínimo
+  minMarginPercent: number | null;
+  // block: rechazar el presupuesto; flag: guardarlo marcado para revisión
+  action: 'block' | 'flag';
+}
+
+/**
+ * Obtener el margen mínimo desde las variables de entorno
+ *
+ * Solo se controla cuando el presupuesto tiene descuentos: un precio de lista
+ * por debajo del mínimo se corrige en el producto, no en el presupuesto.
+ */
+export const getMarginFloorConfig = (): MarginFloorConfig => {
+  const value = process.env.MIN_MARGIN_PERCENT;
+  const parsed = value !== undefined && value.trim() !== '' ? parseFloat(value) : NaN;
+
+  return {
+    minMarginPercent: Number.isFinite(parsed) && parsed <= 100 ? parsed : null,
+    action: process.env.MARGIN_FLOOR_ACTION === 'block' ? 'block' : 'flag'
+  };
+};
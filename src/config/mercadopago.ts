@@ -1,4 +1,4 @@
-import { MercadoPagoConfig, Payment, Preference } from 'mercadopago';
+import { MercadoPagoConfig, Payment, PaymentRefund, Preference } from 'mercadopago';
 import { logger } from '../utils/logger';
 
 /**
@@ -8,6 +8,7 @@ class MercadoPagoConfiguration {
   private client: MercadoPagoConfig;
   private preference: Preference;
   private payment: Payment;
+  private paymentRefund: PaymentRefund;
   private accessToken: string;
   private publicKey: string;
 
@@ -40,6 +41,7 @@ class MercadoPagoConfiguration {
       // Inicializar servicios
       this.preference = new Preference(this.client);
       this.payment = new Payment(this.client);
+      this.paymentRefund = new PaymentRefund(this.client);
 
       logger.info('MercadoPago configurado exitosamente', {
         environment: this.getEnvironment(),
@@ -89,6 +91,13 @@ class MercadoPagoConfiguration {
     return this.payment;
   }
 
+  /**
+   * Obtener instancia de PaymentRefund
+   */
+  public getPaymentRefundService(): PaymentRefund {
+    return this.paymentRefund;
+  }
+
   /**
    * Obtener clave pública (para el frontend)
    */
@@ -103,6 +112,29 @@ class MercadoPagoConfiguration {
     return process.env.MERCADOPAGO_WEBHOOK_URL || '';
   }
 
+  /**
+   * Obtener la clave secreta para verificar la firma de los webhooks
+   * (se obtiene en el panel de MercadoPago, sección Webhooks)
+   */
+  public getWebhookSecret(): string {
+    return process.env.MERCADOPAGO_WEBHOOK_SECRET || '';
+  }
+
+  /**
+   * Indicar si se rechazan los webhooks sin firma
+   */
+  public requireWebhookSignature(): boolean {
+    return process.env.MERCADOPAGO_WEBHOOK_REQUIRE_SIGNATURE === 'true';
+  }
+
+  /**
+   * Antigüedad máxima aceptada del timestamp de la firma (en segundos)
+   */
+  public getWebhookToleranceSeconds(): number {
+    const tolerance = parseInt(process.env.MERCADOPAGO_WEBHOOK_TOLERANCE_SECONDS || '', 10);
+    return Number.isInteger(tolerance) && tolerance > 0 ? tolerance : 300;
+  }
+
   /**
    * Validar configuración completa
    */
@@ -125,6 +157,10 @@ class MercadoPagoConfiguration {
       errors.push('MERCADOPAGO_ACCESS_TOKEN tiene formato inválido');
     }
 
+    if (this.requireWebhookSignature() && !this.getWebhookSecret()) {
+      errors.push('MERCADOPAGO_WEBHOOK_SECRET requerido cuando MERCADOPAGO_WEBHOOK_REQUIRE_SIGNATURE=true');
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -140,6 +176,8 @@ class MercadoPagoConfiguration {
       isSandbox: this.isSandbox(),
       publicKey: this.publicKey.substring(0, 20) + '...',
       webhookConfigured: !!this.getWebhookUrl(),
+      webhookSecretConfigured: !!this.getWebhookSecret(),
+      webhookSignatureRequired: this.requireWebhookSignature(),
       accessTokenConfigured: !!this.accessToken
     };
   }
@@ -180,4 +218,4 @@ export const initializeMercadoPago = (): void => {
 };
 
 // Exportar tipos útiles para TypeScript
-export type { MercadoPagoConfig, Preference, Payment };
\ No newline at end of file
+export type { MercadoPagoConfig, Preference, Payment, PaymentRefund };
\ No newline at end of file
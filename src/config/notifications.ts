@@ -0,0 +1,49 @@
+// Canal por el que se envían los avisos a clientes
+// - webhook: POST JSON a un servicio de envío de emails
+// - log: respaldo sin envío real, los avisos solo se registran en el log
+export type NotificationChannel = 'webhook' | 'log';
+
+/**
+ * Configuración de las notificaciones a clientes
+ */
+export interface NotificationsConfig {
+  channel: NotificationChannel;
+  webhook: {
+    url: string;
+    token: string;
+    timeoutMs: number;
+  };
+}
+
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['webhook', 'log'];
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Obtener configuración de notificaciones desde las variables de entorno
+ */
+export const getNotificationsConfig = (): NotificationsConfig => {
+  const channel = (process.env.NOTIFICATION_CHANNEL || 'log').trim().toLowerCase();
+
+  if (!NOTIFICATION_CHANNELS.includes(channel as NotificationChannel)) {
+    throw new Error(`NOTIFICATION_CHANNEL inválido: ${channel}. Valores permitidos: ${NOTIFICATION_CHANNELS.join(', ')}`);
+  }
+
+  const url = (process.env.NOTIFICATION_WEBHOOK_URL || '').trim();
+
+  if (channel === 'webhook' && !url) {
+    throw new Error('NOTIFICATION_WEBHOOK_URL es requerida con NOTIFICATION_CHANNEL=webhook');
+  }
+
+  return {
+    channel: channel as NotificationChannel,
+    webhook: {
+      url,
+      token: process.env.NOTIFICATION_WEBHOOK_TOKEN || '',
+      timeoutMs: parsePositiveInt(process.env.NOTIFICATION_WEBHOOK_TIMEOUT_MS, 10000)
+    }
+  };
+};
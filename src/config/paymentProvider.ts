@@ -0,0 +1,50 @@
+import { OnlinePaymentProviderName } from '../types';
+
+// Resultado que el proveedor simulado aplica automáticamente a las órdenes nuevas
+export type MockPaymentOutcome = 'approved' | 'rejected';
+
+/**
+ * Configuración del proveedor simulado de pagos
+ */
+export interface MockPaymentConfig {
+  autoOutcome: MockPaymentOutcome | null;
+  autoDelaySeconds: number;
+  webhookSecret: string;
+}
+
+/**
+ * Configuración del proveedor de pagos en línea
+ */
+export interface PaymentProviderConfig {
+  provider: OnlinePaymentProviderName;
+  mock: MockPaymentConfig;
+}
+
+const PAYMENT_PROVIDERS: OnlinePaymentProviderName[] = ['mercadopago', 'mock'];
+
+const parseNonNegativeInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Obtener configuración del proveedor de pagos desde las variables de entorno
+ */
+export const getPaymentProviderConfig = (): PaymentProviderConfig => {
+  const provider = (process.env.PAYMENT_PROVIDER || 'mercadopago').trim().toLowerCase();
+
+  if (!PAYMENT_PROVIDERS.includes(provider as OnlinePaymentProviderName)) {
+    throw new Error(`PAYMENT_PROVIDER inválido: ${provider}. Valores permitidos: ${PAYMENT_PROVIDERS.join(', ')}`);
+  }
+
+  const autoOutcome = process.env.MOCK_PAYMENT_AUTO_OUTCOME;
+
+  return {
+    provider: provider as OnlinePaymentProviderName,
+    mock: {
+      autoOutcome: autoOutcome === 'approved' || autoOutcome === 'rejected' ? autoOutcome : null,
+      autoDelaySeconds: parseNonNegativeInt(process.env.MOCK_PAYMENT_AUTO_DELAY_SECONDS, 5),
+      webhookSecret: process.env.MOCK_PAYMENT_WEBHOOK_SECRET || ''
+    }
+  };
+};
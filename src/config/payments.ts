@@ -0,0 +1,28 @@
+// Momento en que se descuenta el stock de un presupuesto pagado en partes
+export type StockCommitRule = 'deposit' | 'full_payment';
+
+/**
+ * Configuración de pagos parciales y señas
+ */
+export interface PaymentsConfig {
+  stockCommitRule: StockCommitRule;
+  depositHoldDays: number;
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Obtener configuración de pagos parciales desde las variables de entorno
+ *
+ * - deposit: el stock se descuenta con el primer pago aprobado (la seña)
+ * - full_payment: el stock queda reservado hasta cancelar el saldo
+ */
+export const getPaymentsConfig = (): PaymentsConfig => {
+  return {
+    stockCommitRule: process.env.PAYMENT_STOCK_COMMIT_RULE === 'deposit' ? 'deposit' : 'full_payment',
+    depositHoldDays: parsePositiveInt(process.env.DEPOSIT_RESERVATION_DAYS, 30)
+  };
+};
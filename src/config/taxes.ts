@@ -0,0 +1,42 @@
+/**
+ * Configuración de alícuotas de impuestos (IVA) por defecto
+ */
+export interface TaxConfig {
+  // Alícuota por categoría de producto (clave en minúsculas)
+  categoryRates: Map<string, number>;
+}
+
+/**
+ * Obtener configuración de alícuotas desde las variables de entorno
+ *
+ * CATEGORY_TAX_RATES tiene el formato "Categoría:alícuota" separado por comas,
+ * por ejemplo: "Alimentos:10.5,Electrónicos:21". Las entradas inválidas se ignoran.
+ */
+export const getTaxConfig = (): TaxConfig => {
+  const categoryRates = new Map<string, number>();
+
+  for (const entry of (process.env.CATEGORY_TAX_RATES || '').split(',')) {
+    const separator = entry.lastIndexOf(':');
+    if (separator <= 0) continue;
+
+    const category = entry.slice(0, separator).trim().toLowerCase();
+    const rate = parseFloat(entry.slice(separator + 1));
+
+    if (category && Number.isFinite(rate) && rate >= 0 && rate <= 100) {
+      categoryRates.set(category, rate);
+    }
+  }
+
+  return { categoryRates };
+};
+
+/**
+ * Alícuota por defecto de un producto: la del producto o, si no tiene, la de su categoría
+ * Sin ninguna de las dos se usa el impuesto general del presupuesto
+ */
+export const getDefaultTaxRate = (product: { taxRate?: number; category: string }): number | undefined => {
+  if (product.taxRate !== undefined && product.taxRate !== null) {
+    return product.taxRate;
+  }
+  return getTaxConfig().categoryRates.get(product.category.trim().toLowerCase());
+};
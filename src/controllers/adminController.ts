@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import { AuthRequest, WebhookEventStatus } from '../types';
+import WebhookEvent from '../models/WebhookEvent';
+import User from '../models/User';
+import { asyncHandler } from '../middleware/error.middleware';
+import {
+  successResponse,
+  updatedResponse,
+  notFoundResponse,
+  badRequestResponse,
+  conflictResponse,
+  paginatedResponse
+} from '../utils/responses';
+import { logger } from '../utils/logger';
+import { getSchedulerService } from '../services/scheduler.service';
+import { getWebhookEventService } from '../services/webhookEvent.service';
+import { getDiscountLimitsConfig } from '../config/discounts';
+import { getIndexMigrationService } from '../services/indexMigration.service';
+
+/**
+ * GET /admin/jobs
+ * Estado de las tareas programadas: última ejecución, duración y resultado (solo admin)
+ */
+export const getJobs = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobs = await getSchedulerService().getJobs();
+
+    successResponse(res, jobs, 'Tareas programadas obtenidas exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo tareas programadas:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /admin/webhooks
+ * Listar eventos de webhook recibidos (solo admin)
+ */
+export const getWebhookEvents = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, topic, resourceId, dateFrom, dateTo, page = 1, limit = 20 } = req.query;
+
+    const pageNum = Number(page);
+    const limitNum = Number(limit);
+
+    const { events, total } = await getWebhookEventService().list({
+      ...(status && { status: status as WebhookEventStatus }),
+      ...(topic && { topic: topic as string }),
+      ...(resourceId && { resourceId: resourceId as string }),
+      ...(dateFrom && { dateFrom: new Date(dateFrom as string) }),
+      ...(dateTo && { dateTo: new Date(dateTo as string) })
+    }, pageNum, limitNum);
+
+    const totalPages = Math.ceil(total / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, events, pagination, 'Eventos de webhook obtenidos exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo eventos de webhook:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /admin/webhooks/:id
+ * Obtener un evento de webhook con su payload y headers (solo admin)
+ */
+export const getWebhookEventById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const event = await WebhookEvent.findById(req.params.id).populate('replayedBy', 'name email');
+
+    if (!event) {
+      notFoundResponse(res, 'Evento de webhook no encontrado');
+      return;
+    }
+
+    successResponse(res, event, 'Evento de webhook obtenido exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo evento de webhook:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /admin/webhooks/:id/replay
+ * Reprocesar un evento de webhook fallido (solo admin)
+ */
+export const replayWebhookEvent = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const force = req.query.force === 'true';
+
+    const event = await WebhookEvent.findById(req.params.id);
+
+    if (!event) {
+      notFoundResponse(res, 'Evento de webhook no encontrado');
+      return;
+    }
+
+    if (event.status !== 'failed' && !force) {
+      badRequestResponse(res, `Solo se pueden reprocesar eventos fallidos. Estado actual: ${event.status}`);
+      return;
+    }
+
+    const replayed = await getWebhookEventService().replay(event, req.user!.id);
+
+    if (!replayed) {
+      conflictResponse(res, 'El evento se está procesando en este momento');
+      return;
+    }
+
+    successResponse(
+      res,
+      replayed,
+      replayed.status === 'failed'
+        ? 'El evento volvió a fallar'
+        : 'Evento reprocesado exitosamente'
+    );
+
+  } catch (error) {
+    logger.error('Error reprocesando evento de webhook:', error);
+    throw error;
+  }
+});
+
+/**
+ * PUT /admin/users/:id/discount-limit
+ * Definir el descuento máximo sin aprobación de un usuario (null vuelve al límite del rol)
+ */
+export const updateUserDiscountLimit = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { maxDiscountPercent } = req.body as { maxDiscountPercent: number | null };
+
+    const user = await User.findById(id);
+
+    if (!user) {
+      notFoundResponse(res, 'Usuario no encontrado');
+      return;
+    }
+
+    if (maxDiscountPercent === null) {
+      user.set('maxDiscountPercent', undefined);
+    } else {
+      user.maxDiscountPercent = maxDiscountPercent;
+    }
+
+    await user.save();
+
+    const roleLimit = getDiscountLimitsConfig().roleLimits[user.role];
+
+    logger.info(`Límite de descuento actualizado: ${user.email}`, { maxDiscountPercent });
+
+    updatedResponse(res, {
+      id: user._id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      maxDiscountPercent: user.maxDiscountPercent ?? null,
+      effectiveMaxDiscountPercent: user.maxDiscountPercent ?? roleLimit
+    }, 'Límite de descuento actualizado exitosamente');
+
+  } catch (error) {
+    logger.error('Error actualizando límite de descuento:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /admin/migrations/payment-indexes
+ * Eliminar o reconstruir los índices antiguos de pagos que impiden varios pagos (solo admin)
+ */
+export const migratePaymentIndexes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+
+    const report = await getIndexMigrationService().migratePaymentIndexes(dryRun);
+
+    successResponse(
+      res,
+      report,
+      dryRun
+        ? 'Análisis de índices de pagos completado (sin cambios)'
+        : `Migración de índices de pagos completada: ${report.dropped.length} índices eliminados, ${report.rebuilt.length} reconstruidos`
+    );
+
+  } catch (error) {
+    logger.error('Error migrando índices de pagos:', error);
+    throw error;
+  }
+});
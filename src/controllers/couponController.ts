@@ -0,0 +1,251 @@
+import { Request, Response } from 'express';
+import { AuthRequest, CouponFilters, CreateCouponRequest } from '../types';
+import Coupon from '../models/Coupon';
+import Quote from '../models/Quote';
+import { asyncHandler } from '../middleware/error.middleware';
+import {
+  successResponse,
+  createdResponse,
+  updatedResponse,
+  deletedResponse,
+  notFoundResponse,
+  paginatedResponse,
+  conflictResponse
+} from '../utils/responses';
+import { logger } from '../utils/logger';
+import { getCouponService } from '../services/coupon.service';
+
+/**
+ * Escapar un texto para usarlo dentro de una expresión regular
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Verificar que el código no pertenezca a otro cupón
+ */
+const findCodeOwner = (code: string, excludeId?: string) => Coupon.findOne({
+  code: getCouponService().normalizeCode(code),
+  ...(excludeId && { _id: { $ne: excludeId } })
+}).select('code');
+
+/**
+ * GET /coupons
+ * Listar cupones con búsqueda y paginación
+ */
+export const getCoupons = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      page = '1',
+      limit = '20',
+      search,
+      isActive,
+      sort = 'createdAt',
+      order = 'desc'
+    }: CouponFilters = req.query;
+
+    // Convertir a números
+    const pageNum = parseInt(page, 10) || 1;
+    const limitNum = parseInt(limit, 10) || 20;
+
+    // Construir filtros
+    const filters: any = {};
+
+    if (isActive !== undefined) {
+      filters.isActive = isActive;
+    }
+
+    // Búsqueda por código o descripción
+    if (search) {
+      const pattern = new RegExp(escapeRegExp(search), 'i');
+      filters.$or = [
+        { code: pattern },
+        { description: pattern }
+      ];
+    }
+
+    // Configurar ordenamiento
+    const sortOrder = order === 'asc' ? 1 : -1;
+    const sortOptions: any = { [sort]: sortOrder };
+
+    // Calcular offset
+    const skip = (pageNum - 1) * limitNum;
+
+    const [coupons, totalCoupons] = await Promise.all([
+      Coupon.find(filters)
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      Coupon.countDocuments(filters)
+    ]);
+
+    const totalPages = Math.ceil(totalCoupons / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total: totalCoupons,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, coupons, pagination, 'Cupones obtenidos exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo cupones:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /coupons/:id
+ * Obtener cupón por ID con la cantidad de presupuestos que lo aplican
+ */
+export const getCouponById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findById(id).populate('createdBy', 'name email');
+
+    if (!coupon) {
+      notFoundResponse(res, 'Cupón no encontrado');
+      return;
+    }
+
+    // Presupuestos con el cupón aplicado que todavía no se pagaron (usos no contados)
+    const pendingQuotes = await Quote.countDocuments({
+      'coupon.couponId': coupon._id,
+      'coupon.redeemedAt': { $exists: false },
+      status: { $in: ['pending_approval', 'pending', 'partially_paid'] }
+    });
+
+    successResponse(res, { ...coupon.toObject(), pendingQuotes }, 'Cupón obtenido exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo cupón por ID:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /coupons
+ * Crear cupón (solo admin)
+ */
+export const createCoupon = asyncHandler(async (req: AuthRequest & { body: CreateCouponRequest }, res: Response): Promise<void> => {
+  try {
+    const {
+      code, description, type, value, minOrderAmount,
+      validFrom, validUntil, maxUses, maxUsesPerCustomer, allowedCategories
+    } = req.body;
+
+    if (await findCodeOwner(code)) {
+      conflictResponse(res, 'Ya existe un cupón con este código');
+      return;
+    }
+
+    const coupon = await Coupon.create({
+      code,
+      type,
+      value,
+      ...(description && { description }),
+      ...(minOrderAmount !== undefined && { minOrderAmount }),
+      ...(validFrom && { validFrom }),
+      ...(validUntil && { validUntil }),
+      ...(maxUses !== undefined && { maxUses }),
+      ...(maxUsesPerCustomer !== undefined && { maxUsesPerCustomer }),
+      ...(allowedCategories && { allowedCategories }),
+      ...(req.user && { createdBy: req.user.id })
+    });
+
+    logger.info(`Cupón creado: ${coupon.code} (ID: ${coupon._id})`);
+
+    createdResponse(res, coupon, 'Cupón creado exitosamente');
+
+  } catch (error) {
+    logger.error('Error creando cupón:', error);
+    throw error;
+  }
+});
+
+/**
+ * PUT /coupons/:id
+ * Actualizar cupón (solo admin)
+ * Los presupuestos que ya lo aplicaron conservan las condiciones con que se aplicó
+ */
+export const updateCoupon = asyncHandler(async (req: Request & { body: Partial<CreateCouponRequest> & { isActive?: boolean } }, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const {
+      code, description, type, value, minOrderAmount,
+      validFrom, validUntil, maxUses, maxUsesPerCustomer, allowedCategories, isActive
+    } = req.body;
+
+    const coupon = await Coupon.findById(id);
+
+    if (!coupon) {
+      notFoundResponse(res, 'Cupón no encontrado');
+      return;
+    }
+
+    if (code !== undefined) {
+      if (await findCodeOwner(code, coupon._id.toString())) {
+        conflictResponse(res, 'Ya existe un cupón con este código');
+        return;
+      }
+      coupon.code = code;
+    }
+
+    if (description !== undefined) coupon.description = description;
+    if (type !== undefined) coupon.type = type;
+    if (value !== undefined) coupon.value = value;
+    if (minOrderAmount !== undefined) coupon.minOrderAmount = minOrderAmount;
+    if (validFrom !== undefined) coupon.validFrom = new Date(validFrom);
+    if (validUntil !== undefined) coupon.validUntil = new Date(validUntil);
+    if (maxUses !== undefined) coupon.maxUses = maxUses;
+    if (maxUsesPerCustomer !== undefined) coupon.maxUsesPerCustomer = maxUsesPerCustomer;
+    if (allowedCategories !== undefined) coupon.allowedCategories = allowedCategories;
+    if (isActive !== undefined) coupon.isActive = isActive;
+
+    // El tipo y el valor se validan juntos en el modelo (porcentaje hasta 100)
+    await coupon.save();
+
+    logger.info(`Cupón actualizado: ${coupon.code} (ID: ${coupon._id})`);
+
+    updatedResponse(res, coupon, 'Cupón actualizado exitosamente');
+
+  } catch (error) {
+    logger.error('Error actualizando cupón:', error);
+    throw error;
+  }
+});
+
+/**
+ * DELETE /coupons/:id
+ * Desactivar cupón (soft delete - solo admin)
+ */
+export const deleteCoupon = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Soft delete: los presupuestos que ya lo aplicaron lo conservan
+    const coupon = await Coupon.findByIdAndUpdate(
+      id,
+      { isActive: false },
+      { new: true }
+    );
+
+    if (!coupon) {
+      notFoundResponse(res, 'Cupón no encontrado');
+      return;
+    }
+
+    logger.info(`Cupón desactivado: ${coupon.code} (ID: ${coupon._id})`);
+
+    deletedResponse(res, 'Cupón desactivado exitosamente');
+
+  } catch (error) {
+    logger.error('Error desactivando cupón:', error);
+    throw error;
+  }
+});
@@ -0,0 +1,454 @@
+import { Request, Response } from 'express';
+import { AuthRequest, CustomerFilters, CreateCustomerRequest } from '../types';
+import Customer from '../models/Customer';
+import Quote from '../models/Quote';
+import { asyncHandler } from '../middleware/error.middleware';
+import {
+  successResponse,
+  createdResponse,
+  updatedResponse,
+  deletedResponse,
+  notFoundResponse,
+  paginatedResponse,
+  conflictResponse
+} from '../utils/responses';
+import { logger } from '../utils/logger';
+import { normalizeEmail, normalizeList, normalizePhone, normalizeTaxId } from '../utils/customerContact';
+import { toCsv } from '../utils/csv';
+import { getCustomerService, CustomerSummary } from '../services/customer.service';
+import { getPdfService } from '../services/pdf.service';
+
+/**
+ * Escapar un texto para usarlo dentro de una expresión regular
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Verificar que el CUIT no pertenezca a otro cliente
+ * Devuelve el cliente que ya lo usa, si existe
+ */
+const findTaxIdOwner = async (taxId: string | undefined, excludeId?: string) => {
+  const normalized = taxId ? normalizeTaxId(taxId) : '';
+  if (!normalized) return null;
+
+  return Customer.findOne({
+    taxId: normalized,
+    ...(excludeId && { _id: { $ne: excludeId } })
+  }).select('name taxId');
+};
+
+/**
+ * Estado de cuenta en CSV: una fila por presupuesto y por pago, en orden cronológico
+ */
+const buildStatementCsv = (summary: CustomerSummary): string => {
+  const rows = [
+    ...summary.quotes.list.map(quote => ({
+      date: new Date(quote.createdAt),
+      values: ['Presupuesto', quote.quoteNumber, quote.status, '', quote.total, quote.amountPaid, quote.balanceDue, '']
+    })),
+    ...summary.payments.list.map(payment => ({
+      date: new Date(payment.paidAt),
+      values: ['Pago', payment.quoteNumber, payment.status, payment.paymentMethod || payment.provider, payment.amount, '', '', payment.refundedAmount]
+    }))
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return toCsv(
+    ['Fecha', 'Tipo', 'Presupuesto', 'Estado', 'Medio de pago', 'Importe', 'Pagado', 'Saldo', 'Reembolsado'],
+    rows.map(row => [row.date.toISOString().slice(0, 10), ...row.values])
+  );
+};
+
+/**
+ * Nombre de archivo seguro a partir del nombre del cliente
+ */
+const toFileName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'cliente';
+
+/**
+ * GET /customers
+ * Listar clientes con búsqueda y paginación
+ */
+export const getCustomers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      page = '1',
+      limit = '20',
+      search,
+      tag,
+      isActive,
+      sort = 'name',
+      order = 'asc'
+    }: CustomerFilters = req.query;
+
+    // Convertir a números
+    const pageNum = parseInt(page, 10) || 1;
+    const limitNum = parseInt(limit, 10) || 20;
+
+    // Construir filtros
+    const filters: any = {};
+
+    if (isActive !== undefined) {
+      filters.isActive = isActive;
+    } else {
+      // Por defecto, solo mostrar clientes activos
+      filters.isActive = true;
+    }
+
+    if (tag) {
+      filters.tags = tag.trim().toLowerCase();
+    }
+
+    // Búsqueda por nombre, CUIT, email o teléfono
+    if (search) {
+      const pattern = new RegExp(escapeRegExp(search), 'i');
+      filters.$or = [
+        { name: pattern },
+        { taxId: new RegExp(escapeRegExp(normalizeTaxId(search)) || pattern.source, 'i') },
+        { emails: pattern },
+        { phones: pattern }
+      ];
+    }
+
+    // Configurar ordenamiento
+    const sortOrder = order === 'asc' ? 1 : -1;
+    const sortOptions: any = { [sort]: sortOrder };
+
+    // Calcular offset
+    const skip = (pageNum - 1) * limitNum;
+
+    const [customers, totalCustomers] = await Promise.all([
+      Customer.find(filters)
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      Customer.countDocuments(filters)
+    ]);
+
+    const totalPages = Math.ceil(totalCustomers / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total: totalCustomers,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, customers, pagination, 'Clientes obtenidos exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo clientes:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /customers/:id
+ * Obtener cliente por ID
+ */
+export const getCustomerById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const customer = await Customer.findById(id).populate('createdBy', 'name email');
+
+    if (!customer) {
+      notFoundResponse(res, 'Cliente no encontrado');
+      return;
+    }
+
+    const quotesCount = await Quote.countDocuments({ customerId: customer._id });
+
+    successResponse(res, { ...customer.toObject(), quotesCount }, 'Cliente obtenido exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo cliente por ID:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /customers/:id/summary
+ * Historial del cliente: presupuestos por estado, pagos, totales y productos más comprados
+ */
+export const getCustomerSummary = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Sellers solo ven el historial de sus propios presupuestos
+    const summary = await getCustomerService().getSummary(id as string, {
+      ...(req.user?.role === 'seller' && { createdBy: req.user.id })
+    });
+
+    if (!summary) {
+      notFoundResponse(res, 'Cliente no encontrado');
+      return;
+    }
+
+    successResponse(res, summary, 'Resumen del cliente obtenido exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo resumen del cliente:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /customers/:id/statement
+ * Exportar el estado de cuenta del cliente en PDF o CSV (?format=pdf|csv)
+ */
+export const getCustomerStatement = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { format = 'pdf', download } = req.query;
+
+    const summary = await getCustomerService().getSummary(id as string, {
+      ...(req.user?.role === 'seller' && { createdBy: req.user.id })
+    });
+
+    if (!summary) {
+      notFoundResponse(res, 'Cliente no encontrado');
+      return;
+    }
+
+    const fileName = `estado-de-cuenta-${toFileName(summary.customer.name)}`;
+
+    if (format === 'csv') {
+      const csv = buildStatementCsv(summary);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      res.status(200).send(csv);
+    } else {
+      const pdfBuffer = await getPdfService().generateCustomerStatementPdf(summary);
+      const disposition = download === 'true' ? 'attachment' : 'inline';
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `${disposition}; filename="${fileName}.pdf"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+      res.status(200).send(pdfBuffer);
+    }
+
+    logger.info(`Estado de cuenta (${format}) generado para cliente ${summary.customer.name}`);
+
+  } catch (error) {
+    logger.error('Error generando estado de cuenta del cliente:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /customers/:id/quotes
+ * Presupuestos vinculados al cliente
+ */
+export const getCustomerQuotes = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 20 } = req.query;
+
+    const pageNum = parseInt(page as string, 10) || 1;
+    const limitNum = parseInt(limit as string, 10) || 20;
+
+    const customer = await Customer.findById(id).select('name');
+
+    if (!customer) {
+      notFoundResponse(res, 'Cliente no encontrado');
+      return;
+    }
+
+    const filters: any = { customerId: customer._id };
+
+    // Sellers solo ven sus propios presupuestos
+    if (req.user?.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    const [quotes, total] = await Promise.all([
+      Quote.find(filters)
+        .select('quoteNumber customer status total amountPaid balanceDue expiresAt createdBy createdAt')
+        .populate('createdBy', 'name email')
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .lean(),
+      Quote.countDocuments(filters)
+    ]);
+
+    const totalPages = Math.ceil(total / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, quotes, pagination, `Presupuestos de ${customer.name} obtenidos exitosamente`);
+
+  } catch (error) {
+    logger.error('Error obteniendo presupuestos del cliente:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /customers
+ * Crear cliente
+ * Un CUIT repetido se rechaza; emails o teléfonos compartidos solo se advierten
+ */
+export const createCustomer = asyncHandler(async (req: AuthRequest & { body: CreateCustomerRequest }, res: Response): Promise<void> => {
+  try {
+    const { name, taxId, emails, phones, addresses, notes, tags } = req.body;
+
+    const taxIdOwner = await findTaxIdOwner(taxId);
+
+    if (taxIdOwner) {
+      conflictResponse(res, 'Ya existe un cliente con este CUIT', {
+        customerId: taxIdOwner._id,
+        name: taxIdOwner.name
+      });
+      return;
+    }
+
+    const normalizedEmails = normalizeList(emails, normalizeEmail);
+    const normalizedPhones = normalizeList(phones, normalizePhone);
+
+    const possibleDuplicates = await getCustomerService().findDuplicates({
+      emails: normalizedEmails,
+      phones: normalizedPhones
+    });
+
+    const customer = await Customer.create({
+      name,
+      emails: normalizedEmails,
+      phones: normalizedPhones,
+      ...(taxId && { taxId }),
+      ...(addresses && { addresses }),
+      ...(notes && { notes }),
+      ...(tags && { tags }),
+      ...(req.user && { createdBy: req.user.id })
+    });
+
+    logger.info(`Cliente creado: ${customer.name} (ID: ${customer._id})`);
+
+    createdResponse(res, {
+      ...customer.toObject(),
+      ...(possibleDuplicates.length > 0 && { possibleDuplicates })
+    }, possibleDuplicates.length > 0
+      ? 'Cliente creado. Hay otros clientes con el mismo email o teléfono'
+      : 'Cliente creado exitosamente');
+
+  } catch (error) {
+    logger.error('Error creando cliente:', error);
+    throw error;
+  }
+});
+
+/**
+ * PUT /customers/:id
+ * Actualizar cliente (las listas enviadas reemplazan a las actuales)
+ * Los presupuestos existentes conservan su copia de los datos del cliente
+ */
+export const updateCustomer = asyncHandler(async (req: Request & { body: Partial<CreateCustomerRequest> }, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, taxId, emails, phones, addresses, notes, tags } = req.body;
+
+    const customer = await Customer.findById(id);
+
+    if (!customer) {
+      notFoundResponse(res, 'Cliente no encontrado');
+      return;
+    }
+
+    if (taxId !== undefined) {
+      const taxIdOwner = await findTaxIdOwner(taxId, customer._id.toString());
+
+      if (taxIdOwner) {
+        conflictResponse(res, 'Ya existe un cliente con este CUIT', {
+          customerId: taxIdOwner._id,
+          name: taxIdOwner.name
+        });
+        return;
+      }
+      customer.taxId = taxId;
+    }
+
+    if (name !== undefined) customer.name = name;
+    if (emails !== undefined) customer.emails = emails;
+    if (phones !== undefined) customer.phones = phones;
+    if (addresses !== undefined) customer.addresses = addresses;
+    if (notes !== undefined) customer.notes = notes;
+    if (tags !== undefined) customer.tags = tags;
+
+    // La normalización de contacto y CUIT se hace en el pre-validate del modelo
+    await customer.save();
+
+    logger.info(`Cliente actualizado: ${customer.name} (ID: ${customer._id})`);
+
+    updatedResponse(res, customer, 'Cliente actualizado exitosamente');
+
+  } catch (error) {
+    logger.error('Error actualizando cliente:', error);
+    throw error;
+  }
+});
+
+/**
+ * DELETE /customers/:id
+ * Eliminar cliente (soft delete - solo admin)
+ */
+export const deleteCustomer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Soft delete: los presupuestos siguen vinculados al cliente
+    const customer = await Customer.findByIdAndUpdate(
+      id,
+      { isActive: false },
+      { new: true }
+    );
+
+    if (!customer) {
+      notFoundResponse(res, 'Cliente no encontrado');
+      return;
+    }
+
+    logger.info(`Cliente eliminado (soft delete): ${customer.name} (ID: ${customer._id})`);
+
+    deletedResponse(res, 'Cliente eliminado exitosamente');
+
+  } catch (error) {
+    logger.error('Error eliminando cliente:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /customers/migrate-from-quotes
+ * Crear clientes desde los presupuestos existentes deduplicando por email o teléfono
+ * (solo admin, ?dryRun=true para solo analizar)
+ */
+export const migrateCustomersFromQuotes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+
+    const report = await getCustomerService().migrateFromQuotes(dryRun);
+
+    successResponse(
+      res,
+      report,
+      dryRun
+        ? 'Análisis de migración de clientes completado (sin cambios)'
+        : `Migración completada: ${report.customersCreated} clientes creados, ${report.quotesLinked} presupuestos vinculados`
+    );
+
+  } catch (error) {
+    logger.error('Error migrando clientes:', error);
+    throw error;
+  }
+});
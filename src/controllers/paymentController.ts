@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { AuthRequest } from '../types';
-import Payment from '../models/Payment';
+import Payment, { ACTIVE_PAYMENT_STATUSES, SETTLED_PAYMENT_STATUSES } from '../models/Payment';
 import Quote from '../models/Quote';
 import { asyncHandler } from '../middleware/error.middleware';
 import {
@@ -12,132 +12,241 @@ import {
   paginatedResponse
 } from '../utils/responses';
 import { logger } from '../utils/logger';
-import { getMercadoPagoService, CreatePaymentOrderParams } from '../services/mercadopago.service';
-import { getStockService } from '../services/stock.service';
+import { getPaymentSyncService } from '../services/paymentSync.service';
+import { getWebhookEventService } from '../services/webhookEvent.service';
+import { getRefundService } from '../services/refund.service';
+import { getMockPaymentProvider } from '../services/mockPayment.service';
+import {
+  getPaymentOrderService,
+  isPaymentWindowClosed,
+  PAYABLE_QUOTE_STATUSES,
+  resolvePaymentAmount
+} from '../services/paymentOrder.service';
 
 /**
  * POST /payments/create
- * Crear orden de pago con MercadoPago
+ * Crear orden de pago con el proveedor configurado (MercadoPago o simulado)
  */
 export const createPayment = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
-    const { quoteId } = req.body;
+    const { quoteId, amount, percentage } = req.body;
 
-    logger.info('Iniciando creación de pago', { quoteId });
+    logger.info('Iniciando creación de pago', { quoteId, amount, percentage });
 
-    // Buscar el presupuesto
-    const quote = await Quote.findById(quoteId)
-      .populate('items.product', 'name price stock')
-      .populate('createdBy', 'name email');
+    const result = await getPaymentOrderService().createOrder(quoteId, {
+      ...(amount !== undefined && { amount }),
+      ...(percentage !== undefined && { percentage })
+    });
 
-    if (!quote) {
-      notFoundResponse(res, 'Presupuesto no encontrado');
+    if (!result.success) {
+      if (result.notFound) {
+        notFoundResponse(res, result.message);
+      } else {
+        badRequestResponse(res, result.message, result.details);
+      }
       return;
     }
 
-    if (quote.status !== 'pending') {
-      badRequestResponse(res, `El presupuesto no está en estado pending. Estado actual: ${quote.status}`);
+    const payment = result.payment!;
+    const quote = result.quote!;
+
+    // Responder con los datos del pago
+    createdResponse(res, {
+      paymentId: payment._id,
+      provider: payment.provider,
+      preferenceId: payment.mercadopagoId,
+      qrCode: payment.qrCode,
+      qrCodeData: payment.qrCodeData,
+      initPoint: result.initPoint,
+      sandboxInitPoint: result.sandboxInitPoint,
+      amount: payment.amount,
+      isPartial: result.isPartial,
+      attemptNumber: payment.attemptNumber,
+      externalReference: payment.externalReference,
+      expiresAt: payment.expiresAt,
+      quote: {
+        id: quote._id,
+        number: quote.quoteNumber,
+        customer: quote.customer,
+        total: quote.total,
+        amountPaid: quote.amountPaid,
+        balanceDue: result.balanceDue
+      }
+    }, result.message);
+
+  } catch (error) {
+    logger.error('Error creando orden de pago:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('MercadoPago')) {
+        errorResponse(res, 'Error en el servicio de pagos', 502, 'PAYMENT_SERVICE_ERROR', {
+          details: error.message
+        });
+      } else {
+        errorResponse(res, 'Error interno del servidor', 500, 'INTERNAL_ERROR');
+      }
+    } else {
+      errorResponse(res, 'Error interno del servidor', 500, 'INTERNAL_ERROR');
+    }
+  }
+});
+
+/**
+ * POST /payments/manual
+ * Registrar un pago fuera de MercadoPago (efectivo, transferencia, cheque)
+ */
+export const createManualPayment = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { quoteId, method, amount, referenceNumber, receiptImage, paidAt } = req.body;
+
+    const filters: any = { _id: quoteId };
+
+    // Los vendedores solo registran pagos de sus propios presupuestos
+    if (req.user?.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    if (!(await Quote.exists(filters))) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
       return;
     }
 
-    // Verificar que no existe un pago para este presupuesto
-    const existingPayment = await Payment.findOne({ quote: quoteId });
+    // Confirmar el intento pendiente antes de validar el saldo: pudo haberse aprobado
+    const activePayment = await Payment.findActiveAttempt(quoteId);
+
+    if (activePayment) {
+      try {
+        await getPaymentSyncService().syncPayment(activePayment);
+      } catch (mpError) {
+        logger.warn('No se pudo sincronizar el intento de pago anterior', mpError);
+      }
+    }
+
+    const quote = (await Quote.findById(quoteId))!;
 
-    if (existingPayment) {
-      badRequestResponse(res, 'Ya existe un pago para este presupuesto', {
-        paymentId: existingPayment._id,
-        status: existingPayment.status
+    if (quote.status === 'pending_approval') {
+      badRequestResponse(res, 'El presupuesto tiene un descuento pendiente de aprobación', {
+        discountApproval: quote.discountApproval
       });
       return;
     }
 
-    // Validar stock de todos los productos
-    const stockService = getStockService();
-    const stockItems = quote.items.map(item => ({
-      productId: item.product._id?.toString() || '',
-      quantity: item.quantity
-    }));
+    if (!PAYABLE_QUOTE_STATUSES.includes(quote.status)) {
+      badRequestResponse(res, `El presupuesto no admite pagos. Estado actual: ${quote.status}`);
+      return;
+    }
 
-    const stockValidation = await stockService.validateStock(stockItems);
+    if (isPaymentWindowClosed(quote)) {
+      badRequestResponse(res, 'El presupuesto está vencido', { expiresAt: quote.expiresAt });
+      return;
+    }
 
-    if (!stockValidation.isValid) {
-      badRequestResponse(res, 'Stock insuficiente para uno o más productos', {
-        stockErrors: stockValidation.errors
-      });
+    const paymentAmount = resolvePaymentAmount(quote, amount);
+
+    if (!paymentAmount.success) {
+      badRequestResponse(res, paymentAmount.message, paymentAmount.details);
       return;
     }
 
-    // Preparar datos para MercadoPago
-    const mercadoPagoService = getMercadoPagoService();
-    const paymentOrderParams: CreatePaymentOrderParams = {
-      quoteId: quote._id.toString(),
-      amount: quote.total,
-      description: `Presupuesto ${quote.quoteNumber} - ${quote.items.length} item(s)`,
-      externalReference: `QUOTE-${quote.quoteNumber}-${Date.now()}`,
-      ...(quote.customer.email && { customerEmail: quote.customer.email }),
-      customerName: quote.customer.name
-    };
-
-    // Crear orden en MercadoPago
-    const mercadoPagoResult = await mercadoPagoService.createPaymentOrder(paymentOrderParams);
-
-    // Crear documento Payment en la base de datos
+    // Un intento en línea pendiente queda sin efecto si el cliente pagó por otro medio
+    if (activePayment?.status === 'pending') {
+      activePayment.status = 'cancelled';
+      await activePayment.save();
+    }
+
+    const lastAttempt = await Payment.findAttempts(quote._id.toString()).limit(1);
+
     const payment = new Payment({
-      quote: quoteId,
-      mercadopagoId: mercadoPagoResult.preferenceId,
+      quote: quote._id,
+      attemptNumber: (lastAttempt[0]?.attemptNumber || 0) + 1,
+      provider: 'manual',
       status: 'pending',
-      amount: quote.total,
-      qrCode: mercadoPagoResult.qrCodeBase64,
-      qrCodeData: mercadoPagoResult.qrCodeData,
-      externalReference: paymentOrderParams.externalReference
+      amount: paymentAmount.amount,
+      paymentMethod: method,
+      externalReference: `MANUAL-${quote.quoteNumber}-${Date.now()}`,
+      ...(referenceNumber && { referenceNumber }),
+      ...(receiptImage && { receiptImage }),
+      recordedBy: req.user!.id
     });
 
     await payment.save();
 
-    // Actualizar el presupuesto con el ID del pago
+    await Quote.updateOne({ _id: quote._id }, { $set: { paymentId: payment._id } });
     quote.paymentId = payment._id;
-    await quote.save();
 
-    logger.info('Pago creado exitosamente', {
+    // Misma aprobación que un pago en línea: saldo del presupuesto y stock según la regla configurada
+    await getPaymentSyncService().applyProviderStatus(payment, { status: 'approved', paymentMethod: method });
+    const updatedQuote = await Quote.findById(quote._id);
+
+    if (paidAt) {
+      payment.paidAt = new Date(paidAt);
+      await payment.save();
+    }
+
+    logger.info('Pago manual registrado', {
       paymentId: payment._id,
-      preferenceId: mercadoPagoResult.preferenceId,
       quoteNumber: quote.quoteNumber,
-      amount: quote.total
+      method,
+      amount: payment.amount,
+      recordedBy: req.user!.id
     });
 
-    // Responder con los datos del pago
     createdResponse(res, {
       paymentId: payment._id,
-      preferenceId: mercadoPagoResult.preferenceId,
-      qrCode: mercadoPagoResult.qrCodeBase64,
-      qrCodeData: mercadoPagoResult.qrCodeData,
-      initPoint: mercadoPagoResult.initPoint,
-      sandboxInitPoint: mercadoPagoResult.sandboxInitPoint,
+      provider: payment.provider,
+      method: payment.paymentMethod,
+      status: payment.status,
       amount: payment.amount,
-      externalReference: payment.externalReference,
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 horas
+      referenceNumber: payment.referenceNumber,
+      hasReceipt: !!receiptImage,
+      attemptNumber: payment.attemptNumber,
+      paidAt: payment.paidAt,
       quote: {
         id: quote._id,
         number: quote.quoteNumber,
         customer: quote.customer,
-        total: quote.total
+        total: quote.total,
+        status: updatedQuote?.status,
+        amountPaid: updatedQuote?.amountPaid,
+        balanceDue: updatedQuote?.balanceDue
       }
-    }, 'Orden de pago creada exitosamente');
+    }, 'Pago manual registrado exitosamente');
 
   } catch (error) {
-    logger.error('Error creando orden de pago:', error);
+    logger.error('Error registrando pago manual:', error);
+    throw error;
+  }
+});
 
-    if (error instanceof Error) {
-      if (error.message.includes('MercadoPago')) {
-        errorResponse(res, 'Error en el servicio de pagos', 502, 'PAYMENT_SERVICE_ERROR', {
-          details: error.message
-        });
-      } else {
-        errorResponse(res, 'Error interno del servidor', 500, 'INTERNAL_ERROR');
-      }
-    } else {
-      errorResponse(res, 'Error interno del servidor', 500, 'INTERNAL_ERROR');
+/**
+ * GET /payments/:paymentId/receipt
+ * Obtener el comprobante de un pago manual
+ */
+export const getPaymentReceipt = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { paymentId } = req.params;
+
+    const payment = await Payment.findById(paymentId).select('+receiptImage');
+
+    if (!payment?.receiptImage) {
+      notFoundResponse(res, 'Comprobante no encontrado');
+      return;
+    }
+
+    const match = /^data:(image\/[a-z+]+);base64,(.+)$/.exec(payment.receiptImage);
+
+    if (!match?.[1] || !match[2]) {
+      notFoundResponse(res, 'Comprobante no encontrado');
+      return;
     }
+
+    res.setHeader('Content-Type', match[1]);
+    res.setHeader('Content-Disposition', `inline; filename="comprobante-${payment._id}"`);
+    res.send(Buffer.from(match[2], 'base64'));
+
+  } catch (error) {
+    logger.error('Error obteniendo comprobante de pago:', error);
+    throw error;
   }
 });
 
@@ -166,19 +275,11 @@ export const getPaymentStatus = asyncHandler(async (req: Request, res: Response)
       return;
     }
 
-    // Si el pago está pendiente, consultar estado actual en MercadoPago
-    if (payment.status === 'pending' && payment.mercadopagoId) {
+    // Si el pago sigue pendiente y no se consultó recientemente, sincronizar con MercadoPago
+    const paymentSyncService = getPaymentSyncService();
+    if (paymentSyncService.isStale(payment)) {
       try {
-        const mercadoPagoService = getMercadoPagoService();
-
-        // Intentar obtener el estado del pago desde MercadoPago
-        // Nota: Para preferencias, no hay un estado directo, pero podemos verificar
-        logger.info('Consultando estado en MercadoPago', {
-          preferenceId: payment.mercadopagoId
-        });
-
-        // En una implementación real, aquí podrías consultar payments asociados a la preferencia
-
+        await paymentSyncService.syncPayment(payment);
       } catch (mpError) {
         logger.warn('Error consultando MercadoPago, usando estado local', mpError);
       }
@@ -195,6 +296,7 @@ export const getPaymentStatus = asyncHandler(async (req: Request, res: Response)
       quote: payment.quote,
       createdAt: payment.createdAt,
       paidAt: payment.paidAt,
+      lastSyncedAt: payment.lastSyncedAt,
       isExpired: payment.quote &&
         typeof payment.quote === 'object' && 'expiresAt' in payment.quote &&
         typeof payment.quote === 'object' && 'expiresAt' in payment.quote &&
@@ -215,39 +317,29 @@ export const getPaymentStatus = asyncHandler(async (req: Request, res: Response)
 export const processWebhook = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
     const webhookData = req.body;
-    const signature = req.headers['x-signature'] as string;
 
     logger.info('Webhook recibido de MercadoPago', {
       action: webhookData.action,
       type: webhookData.type,
       dataId: webhookData.data?.id,
-      hasSignature: !!signature
+      hasSignature: !!req.headers['x-signature']
     });
 
-    // Procesar webhook usando el servicio de MercadoPago
-    const mercadoPagoService = getMercadoPagoService();
-    const processedData = await mercadoPagoService.processWebhook(webhookData, signature);
+    // Registrar el evento y procesarlo una sola vez aunque MercadoPago lo reenvíe
+    const result = await getWebhookEventService().receive(webhookData, req.headers, req.query);
 
-    if (!processedData.isValid) {
-      logger.warn('Webhook con firma inválida rechazado');
+    if (!result.accepted) {
       res.status(200).json({ received: false, reason: 'Invalid signature' });
       return;
     }
 
-    // Solo procesar webhooks de tipo payment
-    if (processedData.topic === 'payment') {
-      await handlePaymentWebhook(processedData);
-    } else {
-      logger.info('Webhook no procesado (tipo no soportado)', {
-        topic: processedData.topic
-      });
-    }
-
     // Siempre responder 200 OK para que MercadoPago no reintente
     res.status(200).json({
       received: true,
-      processed: processedData.topic === 'payment',
-      paymentId: processedData.paymentId
+      processed: result.status === 'processed',
+      duplicate: result.duplicate,
+      eventId: result.eventId,
+      paymentId: result.paymentId
     });
 
   } catch (error) {
@@ -262,109 +354,99 @@ export const processWebhook = asyncHandler(async (req: Request, res: Response):
 });
 
 /**
- * Manejar webhook de pago específicamente
+ * POST /payments/:paymentId/sync
+ * Consultar al proveedor y actualizar el estado local del pago
  */
-async function handlePaymentWebhook(webhookData: any): Promise<void> {
+export const syncPayment = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
-    const { paymentId, status, externalReference } = webhookData;
+    const { paymentId } = req.params;
 
-    logger.info('Procesando webhook de pago', {
-      paymentId,
-      status,
-      externalReference
-    });
+    const payment = await Payment.findById(paymentId);
 
-    // Buscar el pago por externalReference si está disponible
-    let payment;
-    if (externalReference) {
-      payment = await Payment.findOne({ externalReference });
+    if (!payment) {
+      notFoundResponse(res, 'Pago no encontrado');
+      return;
     }
 
-    // Si no se encuentra por externalReference, buscar por mercadopagoId relacionado
-    if (!payment) {
-      // En este caso, necesitaríamos una forma de mapear el payment ID a nuestra base de datos
-      logger.warn('No se pudo encontrar el pago asociado al webhook', {
-        paymentId,
-        externalReference
+    let result;
+    try {
+      result = await getPaymentSyncService().syncPayment(payment);
+    } catch (mpError) {
+      logger.error('Error sincronizando pago con el proveedor:', mpError);
+      errorResponse(res, 'Error en el servicio de pagos', 502, 'PAYMENT_SERVICE_ERROR', {
+        details: mpError instanceof Error ? mpError.message : mpError
       });
       return;
     }
 
-    const previousStatus = payment.status;
-
-    // Actualizar estado del pago según la respuesta de MercadoPago
-    switch (status) {
-      case 'approved':
-        payment.status = 'approved';
-        payment.paidAt = new Date();
-
-        // Actualizar estado del presupuesto
-        const quote = await Quote.findById(payment.quote);
-        if (quote) {
-          quote.status = 'paid';
-          await quote.save();
-
-          // Decrementar stock de forma atómica
-          const stockService = getStockService();
-          const stockItems = quote.items.map(item => ({
-            productId: item.product.toString(),
-            quantity: item.quantity
-          }));
-
-          const stockResult = await stockService.decrementStock(stockItems);
-
-          if (!stockResult.success) {
-            logger.error('Error decrementando stock después del pago', {
-              paymentId: payment._id,
-              quoteId: quote._id,
-              errors: stockResult.errors
-            });
-            // En este caso, podrías enviar notificaciones al administrador
-          } else {
-            logger.info('Stock decrementado exitosamente', {
-              paymentId: payment._id,
-              quoteId: quote._id,
-              productsUpdated: stockResult.updatedProducts?.length
-            });
-          }
-        }
-        break;
+    successResponse(
+      res,
+      result,
+      result.changed
+        ? `Pago actualizado de ${result.previousStatus} a ${result.status}`
+        : 'El pago ya estaba sincronizado'
+    );
 
-      case 'rejected':
-        payment.status = 'rejected';
+  } catch (error) {
+    logger.error('Error sincronizando pago:', error);
+    throw error;
+  }
+});
 
-        // Actualizar presupuesto si es necesario
-        const rejectedQuote = await Quote.findById(payment.quote);
-        if (rejectedQuote && rejectedQuote.status === 'pending') {
-          // Mantener como pending para permitir otro intento de pago
-        }
-        break;
+/**
+ * POST /payments/:paymentId/simulate
+ * Simular el pago de una orden del proveedor simulado (solo fuera de producción)
+ */
+export const simulatePayment = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { paymentId } = req.params;
+    const { status = 'approved', emitWebhook = true } = req.body;
+
+    if (process.env.NODE_ENV === 'production') {
+      notFoundResponse(res, 'Ruta no encontrada');
+      return;
+    }
 
-      case 'cancelled':
-        payment.status = 'cancelled';
-        break;
+    const payment = await Payment.findById(paymentId);
 
-      default:
-        logger.info('Estado de pago no reconocido', { status });
-        return;
+    if (!payment) {
+      notFoundResponse(res, 'Pago no encontrado');
+      return;
     }
 
-    // Guardar estado actualizado del pago
-    payment.webhookData = webhookData;
-    await payment.save();
+    if (payment.provider !== 'mock') {
+      badRequestResponse(res, 'Solo se pueden simular pagos creados con el proveedor simulado');
+      return;
+    }
+
+    let result;
+    try {
+      result = await getMockPaymentProvider().simulatePayment(payment.externalReference, status, { emitWebhook });
+    } catch (mockError) {
+      // Las órdenes simuladas viven en memoria y se pierden al reiniciar
+      badRequestResponse(res, mockError instanceof Error ? mockError.message : 'Error simulando el pago');
+      return;
+    }
+
+    // Sin webhook, el estado se aplica consultando al proveedor
+    if (!emitWebhook) {
+      await getPaymentSyncService().syncPayment(payment);
+    }
 
-    logger.info('Pago actualizado por webhook', {
+    const updated = await Payment.findById(paymentId);
+
+    successResponse(res, {
       paymentId: payment._id,
-      previousStatus,
-      newStatus: payment.status,
-      paidAt: payment.paidAt
-    });
+      providerPayment: result.payment,
+      webhook: result.webhook,
+      status: updated?.status
+    }, `Pago simulado como ${status}`);
 
   } catch (error) {
-    logger.error('Error manejando webhook de pago:', error);
+    logger.error('Error simulando pago:', error);
     throw error;
   }
-}
+});
 
 /**
  * GET /payments
@@ -449,7 +531,7 @@ export const getPaymentStats = asyncHandler(async (req: Request, res: Response):
       ? { createdAt: dateFilter }
       : {};
 
-    const [statusStats, generalStats] = await Promise.all([
+    const [statusStats, generalStats, methodStats] = await Promise.all([
       Payment.aggregate([
         { $match: matchStage },
         {
@@ -481,11 +563,43 @@ export const getPaymentStats = asyncHandler(async (req: Request, res: Response):
             }
           }
         }
+      ]),
+      // Pagos cobrados por origen y medio de pago
+      Payment.aggregate([
+        {
+          $match: {
+            ...matchStage,
+            status: { $in: SETTLED_PAYMENT_STATUSES }
+          }
+        },
+        {
+          $group: {
+            _id: {
+              provider: { $ifNull: ['$provider', 'mercadopago'] },
+              method: { $ifNull: ['$paymentMethod', 'unknown'] }
+            },
+            count: { $sum: 1 },
+            totalAmount: { $sum: '$amount' },
+            refundedAmount: { $sum: { $ifNull: ['$refundedAmount', 0] } }
+          }
+        },
+        {
+          $project: {
+            _id: 0,
+            provider: '$_id.provider',
+            method: '$_id.method',
+            count: 1,
+            totalAmount: 1,
+            refundedAmount: 1
+          }
+        },
+        { $sort: { totalAmount: -1 } }
       ])
     ]);
 
     successResponse(res, {
       byStatus: statusStats,
+      byMethod: methodStats,
       general: generalStats[0] || {
         totalPayments: 0,
         totalRevenue: 0,
@@ -500,6 +614,88 @@ export const getPaymentStats = asyncHandler(async (req: Request, res: Response):
   }
 });
 
+/**
+ * GET /payments/quote/:quoteId
+ * Historial de intentos de pago de un presupuesto
+ */
+export const getQuotePayments = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { quoteId } = req.params;
+
+    const quote = await Quote.findById(quoteId).select('quoteNumber status total amountPaid balanceDue paymentId');
+
+    if (!quote) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
+      return;
+    }
+
+    const attempts = await Payment.findAttempts(quoteId as string)
+      .select('-qrCode -webhookData');
+
+    successResponse(res, {
+      quote,
+      attempts,
+      activePaymentId: attempts.find(attempt => ACTIVE_PAYMENT_STATUSES.includes(attempt.status))?._id || null
+    }, 'Intentos de pago obtenidos exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo intentos de pago:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /payments/:paymentId/refund
+ * Reembolsar un pago aprobado, total o parcialmente (solo admin)
+ */
+export const refundPayment = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { paymentId } = req.params;
+    const { amount, reason, restock = false, items } = req.body;
+
+    let result;
+    try {
+      result = await getRefundService().refundPayment(paymentId as string, {
+        ...(amount !== undefined && { amount }),
+        ...(reason && { reason }),
+        restock,
+        ...(items && { items }),
+        userId: req.user!.id
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('MercadoPago')) {
+        errorResponse(res, 'Error en el servicio de pagos', 502, 'PAYMENT_SERVICE_ERROR', {
+          details: error.message
+        });
+        return;
+      }
+      throw error;
+    }
+
+    if (!result.success) {
+      if (result.message === 'Pago no encontrado') {
+        notFoundResponse(res, result.message);
+      } else {
+        badRequestResponse(res, result.message, result.details);
+      }
+      return;
+    }
+
+    successResponse(res, {
+      paymentId: result.payment!._id,
+      status: result.payment!.status,
+      amount: result.payment!.amount,
+      refundedAmount: result.payment!.refundedAmount,
+      remainingAmount: result.remainingAmount,
+      refund: result.refund
+    }, result.message);
+
+  } catch (error) {
+    logger.error('Error reembolsando pago:', error);
+    throw error;
+  }
+});
+
 /**
  * POST /payments/:paymentId/cancel
  * Cancelar un pago pendiente
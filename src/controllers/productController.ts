@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
-import { AuthRequest, ProductFilters, CreateProductRequest } from '../types';
+import { startSession } from 'mongoose';
+import { AuthRequest, ProductFilters, CreateProductRequest, BulkPriceChangeRequest, IProduct } from '../types';
 import Product from '../models/Product';
+import PriceChangeBatch from '../models/PriceChangeBatch';
 import { asyncHandler } from '../middleware/error.middleware';
 import {
   successResponse,
@@ -8,15 +10,18 @@ import {
   updatedResponse,
   deletedResponse,
   notFoundResponse,
-  paginatedResponse
+  paginatedResponse,
+  badRequestResponse
 } from '../utils/responses';
 import { logger } from '../utils/logger';
+import { getStockService } from '../services/stock.service';
+import { getPricingService } from '../services/pricing.service';
 
 /**
  * GET /products
  * Listar productos con filtros y paginación
  */
-export const getProducts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+export const getProducts = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const {
       page = '1',
@@ -70,6 +75,7 @@ export const getProducts = asyncHandler(async (req: Request, res: Response): Pro
     // Ejecutar consultas en paralelo
     const [products, totalProducts] = await Promise.all([
       Product.find(filters)
+        .select(req.user?.role === 'admin' ? '+costPrice' : '')
         .sort(sortOptions)
         .skip(skip)
         .limit(limitNum)
@@ -103,11 +109,12 @@ export const getProducts = asyncHandler(async (req: Request, res: Response): Pro
  * GET /products/:id
  * Obtener producto por ID
  */
-export const getProductById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+export const getProductById = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
-    const product = await Product.findById(id);
+    // El costo solo se muestra a los administradores
+    const product = await Product.findById(id).select(req.user?.role === 'admin' ? '+costPrice' : '');
 
     if (!product) {
       notFoundResponse(res, 'Producto no encontrado');
@@ -129,10 +136,33 @@ export const getProductById = asyncHandler(async (req: Request, res: Response):
 export const createProduct = asyncHandler(async (req: Request<{}, {}, CreateProductRequest>, res: Response): Promise<void> => {
   try {
     const productData = req.body;
+    const userId = (req as unknown as AuthRequest).user?.id;
+
+    // Crear el producto y registrar su stock inicial en la misma transacción
+    const session = await startSession();
+    let createdProduct: IProduct | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        // Documento nuevo en cada intento: tras un intento abortado el anterior ya no es isNew
+        const attempt = new Product(productData);
+
+        await attempt.save({ session });
+        await getStockService().recordInitialStock(attempt._id.toString(), attempt.stock, session, {
+          ...(userId && { actorId: userId })
+        });
+        await getPricingService().recordPriceChange(session, {
+          productId: attempt._id.toString(),
+          price: attempt.price
+        }, { reason: 'initial', ...(userId && { userId }) });
+
+        createdProduct = attempt;
+      });
+    } finally {
+      await session.endSession();
+    }
 
-    // Crear nuevo producto
-    const product = new Product(productData);
-    await product.save();
+    const product = createdProduct!;
 
     logger.info(`Producto creado: ${product.name} (ID: ${product._id})`);
 
@@ -156,15 +186,59 @@ export const updateProduct = asyncHandler(async (req: Request, res: Response): P
     // Remover campos que no se pueden actualizar directamente
     delete updateData.createdAt;
     delete updateData.updatedAt;
-
-    const product = await Product.findByIdAndUpdate(
-      id,
-      updateData,
-      {
-        new: true,
-        runValidators: true
+    delete updateData.reservedStock;
+
+    // El stock se modifica a través del registro de movimientos
+    const { stock } = updateData;
+    delete updateData.stock;
+
+    if (typeof stock === 'number') {
+      const userId = (req as AuthRequest).user?.id;
+      const stockResult = await getStockService().adjustStock(id as string, stock, 'set', {
+        ...(userId && { actorId: userId }),
+        notes: 'Actualización de producto'
+      });
+
+      if (!stockResult.success) {
+        if (stockResult.message === 'Producto no encontrado') {
+          notFoundResponse(res, 'Producto no encontrado');
+        } else {
+          badRequestResponse(res, stockResult.message, stockResult.errors);
+        }
+        return;
       }
-    );
+    }
+
+    // Actualizar el producto y registrar el cambio de precio en la misma transacción
+    const session = await startSession();
+    let product: IProduct | null | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        const previous = await Product.findById(id).select('price').session(session);
+
+        product = await Product.findByIdAndUpdate(
+          id,
+          updateData,
+          {
+            new: true,
+            runValidators: true,
+            session
+          }
+        ).select('+costPrice');
+
+        if (product && previous && product.price !== previous.price) {
+          const userId = (req as AuthRequest).user?.id;
+          await getPricingService().recordPriceChange(session, {
+            productId: product._id.toString(),
+            previousPrice: previous.price,
+            price: product.price
+          }, { reason: 'manual', ...(userId && { userId }) });
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
 
     if (!product) {
       notFoundResponse(res, 'Producto no encontrado');
@@ -257,56 +331,107 @@ export const getCategories = asyncHandler(async (req: Request, res: Response): P
  * PUT /products/:id/stock
  * Actualizar stock de un producto (solo admin)
  */
-export const updateStock = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+export const updateStock = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { stock, operation = 'set' } = req.body;
+    const { stock, operation = 'set', reason, notes } = req.body;
 
     if (typeof stock !== 'number' || stock < 0) {
       throw new Error('El stock debe ser un número no negativo');
     }
 
-    let updateQuery: any;
-
-    if (operation === 'increment') {
-      updateQuery = { $inc: { stock } };
-    } else if (operation === 'decrement') {
-      updateQuery = { $inc: { stock: -stock } };
-    } else {
-      updateQuery = { stock };
+    const result = await getStockService().adjustStock(id as string, stock, operation, {
+      ...(req.user?.id && { actorId: req.user.id }),
+      ...(reason && operation !== 'set' && { reason }),
+      ...(notes && { notes })
+    });
+
+    if (!result.success) {
+      if (result.message === 'Producto no encontrado') {
+        notFoundResponse(res, 'Producto no encontrado');
+      } else {
+        badRequestResponse(res, result.message, result.errors);
+      }
+      return;
     }
 
-    const product = await Product.findByIdAndUpdate(
-      id,
-      updateQuery,
-      {
-        new: true,
-        runValidators: true
-      }
-    );
+    const change = result.updatedProducts![0]!;
+
+    logger.info(`Stock actualizado para ${change.productName}: ${change.newStock}`);
+
+    updatedResponse(res, {
+      productId: change.productId,
+      name: change.productName,
+      previousStock: change.previousStock,
+      newStock: change.newStock
+    }, 'Stock actualizado exitosamente');
+
+  } catch (error) {
+    logger.error('Error actualizando stock:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /products/:id/stock-movements
+ * Historial de movimientos de stock de un producto (solo admin)
+ */
+export const getStockMovements = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 20 } = req.query;
+
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+
+    const product = await Product.findById(id).select('name stock');
 
     if (!product) {
       notFoundResponse(res, 'Producto no encontrado');
       return;
     }
 
-    // Verificar que el stock no sea negativo después de la operación
-    if (product.stock < 0) {
-      // Revertir la operación
-      await Product.findByIdAndUpdate(id, { $inc: { stock: stock } });
-      throw new Error('La operación resultaría en stock negativo');
-    }
+    const { movements, total } = await getStockService().getStockMovements(id as string, pageNum, limitNum);
 
-    logger.info(`Stock actualizado para ${product.name}: ${product.stock}`);
+    const totalPages = Math.ceil(total / limitNum);
 
-    updatedResponse(res, {
-      productId: product._id,
-      name: product.name,
-      newStock: product.stock
-    }, 'Stock actualizado exitosamente');
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, movements, pagination, 'Movimientos de stock obtenidos exitosamente');
 
   } catch (error) {
-    logger.error('Error actualizando stock:', error);
+    logger.error('Error obteniendo movimientos de stock:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /products/stock-reconciliation
+ * Recalcular el stock desde el registro de movimientos y reportar discrepancias (solo admin)
+ */
+export const getStockReconciliation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { productId } = req.query;
+
+    const report = await getStockService().reconcileStock(productId as string | undefined);
+
+    successResponse(
+      res,
+      report,
+      report.discrepanciesCount > 0
+        ? `Se encontraron ${report.discrepanciesCount} discrepancias de stock`
+        : 'El stock coincide con el registro de movimientos'
+    );
+
+  } catch (error) {
+    logger.error('Error reconciliando stock:', error);
     throw error;
   }
 });
@@ -353,4 +478,203 @@ export const searchProducts = asyncHandler(async (req: Request, res: Response):
     logger.error('Error en búsqueda de productos:', error);
     throw error;
   }
-});
\ No newline at end of file
+});
+/**
+ * POST /products/bulk-price
+ * Cambio masivo de precios por porcentaje o monto fijo (solo admin, ?dryRun=true para solo previsualizar)
+ */
+export const bulkUpdatePrices = asyncHandler(async (req: AuthRequest & { body: BulkPriceChangeRequest }, res: Response): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+    const pricingService = getPricingService();
+
+    if (dryRun) {
+      const preview = await pricingService.previewBulkChange(req.body);
+
+      successResponse(res, { ...preview, dryRun }, `${preview.productsChanged} productos cambiarían de precio`);
+      return;
+    }
+
+    const result = await pricingService.applyBulkChange(req.body, req.user!.id);
+
+    if (!result.success) {
+      badRequestResponse(res, result.message, result.preview);
+      return;
+    }
+
+    logger.info(`Cambio masivo de precios aplicado: lote ${result.batch!._id} por usuario ${req.user!.email}`);
+
+    createdResponse(res, {
+      batch: result.batch,
+      skipped: result.preview!.skipped,
+      unchangedCount: result.preview!.unchangedCount,
+      dryRun
+    }, `${result.batch!.productsCount} precios actualizados exitosamente`);
+
+  } catch (error) {
+    logger.error('Error en cambio masivo de precios:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /products/price-batches
+ * Listar lotes de cambio de precios (solo admin)
+ */
+export const getPriceBatches = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page = '1', limit = '20', status } = req.query as { page?: string; limit?: string; status?: string };
+
+    const pageNum = parseInt(page, 10) || 1;
+    const limitNum = parseInt(limit, 10) || 20;
+    const filters: any = {};
+
+    if (status) {
+      filters.status = status;
+    }
+
+    const [batches, total] = await Promise.all([
+      PriceChangeBatch.find(filters)
+        .select('-items')
+        .populate('createdBy', 'name email')
+        .populate('revertedBy', 'name email')
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+        .lean(),
+      PriceChangeBatch.countDocuments(filters)
+    ]);
+
+    const totalPages = Math.ceil(total / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, batches, pagination, 'Lotes de precios obtenidos exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo lotes de precios:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /products/price-batches/:id
+ * Obtener lote de cambio de precios con los precios anteriores y nuevos (solo admin)
+ */
+export const getPriceBatchById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const batch = await PriceChangeBatch.findById(id)
+      .populate('createdBy', 'name email')
+      .populate('revertedBy', 'name email');
+
+    if (!batch) {
+      notFoundResponse(res, 'Lote de precios no encontrado');
+      return;
+    }
+
+    successResponse(res, batch, 'Lote de precios obtenido exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo lote de precios:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /products/price-batches/:id/revert
+ * Revertir un lote de cambio de precios (solo admin)
+ */
+export const revertPriceBatch = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const result = await getPricingService().revertBatch(id!, req.user!.id);
+
+    if (!result.success) {
+      if (result.message === 'Lote de precios no encontrado') {
+        notFoundResponse(res, result.message);
+      } else {
+        badRequestResponse(res, result.message);
+      }
+      return;
+    }
+
+    logger.info(`Lote de precios revertido: ${id} por usuario ${req.user!.email}`);
+
+    updatedResponse(res, result.batch, result.message);
+
+  } catch (error) {
+    logger.error('Error revirtiendo lote de precios:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /products/:id/price-history
+ * Historial de precios de un producto (?at= para obtener el precio vigente en una fecha)
+ */
+export const getPriceHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page = '1', limit = '20', at } = req.query as { page?: string; limit?: string; at?: string };
+
+    const product = await Product.findById(id).select('name sku price createdAt');
+
+    if (!product) {
+      notFoundResponse(res, 'Producto no encontrado');
+      return;
+    }
+
+    const pricingService = getPricingService();
+
+    if (at) {
+      const date = new Date(at);
+      const priceAt = await pricingService.getPriceAt(product, date);
+
+      if (!priceAt) {
+        notFoundResponse(res, 'El producto no existía en la fecha indicada');
+        return;
+      }
+
+      successResponse(res, {
+        productId: product._id,
+        name: product.name,
+        at: date,
+        currentPrice: product.price,
+        ...priceAt
+      }, 'Precio vigente obtenido exitosamente');
+      return;
+    }
+
+    const pageNum = parseInt(page, 10) || 1;
+    const limitNum = parseInt(limit, 10) || 20;
+
+    const { history, total } = await pricingService.getPriceHistory(id!, pageNum, limitNum);
+
+    const totalPages = Math.ceil(total / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, history, pagination, 'Historial de precios obtenido exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo historial de precios:', error);
+    throw error;
+  }
+});
@@ -0,0 +1,238 @@
+import { Request, Response } from 'express';
+import { startSession } from 'mongoose';
+import Payment from '../models/Payment';
+import Quote from '../models/Quote';
+import { asyncHandler } from '../middleware/error.middleware';
+import {
+  successResponse,
+  createdResponse,
+  badRequestResponse,
+  conflictResponse,
+  errorResponse
+} from '../utils/responses';
+import { logger } from '../utils/logger';
+import { IQuote, IQuoteCustomerDecision } from '../types';
+import { getQuoteLinkService } from '../services/quoteLink.service';
+import { getPaymentOrderService } from '../services/paymentOrder.service';
+import { getStockService } from '../services/stock.service';
+
+/**
+ * Resolver el token de la URL o responder el error correspondiente
+ * Los enlaces vencidos o revocados responden 410
+ */
+const resolveQuote = async (req: Request, res: Response): Promise<IQuote | null> => {
+  const resolution = await getQuoteLinkService().resolve(req.params.token || '');
+
+  if (!resolution.success || !resolution.quote) {
+    const statusCode = resolution.code === 'LINK_INVALID' ? 404 : 410;
+    errorResponse(res, resolution.message, statusCode, resolution.code);
+    return null;
+  }
+
+  return resolution.quote;
+};
+
+/**
+ * Verificar que el presupuesto todavía puede aceptarse o rechazarse
+ */
+const checkDecisionAllowed = (quote: IQuote, res: Response): boolean => {
+  if (quote.customerDecision) {
+    conflictResponse(res, 'El presupuesto ya fue respondido', {
+      decision: quote.customerDecision.decision,
+      decidedAt: quote.customerDecision.decidedAt
+    });
+    return false;
+  }
+
+  if (quote.status !== 'pending') {
+    badRequestResponse(res, `El presupuesto no admite respuesta. Estado actual: ${quote.status}`);
+    return false;
+  }
+
+  if (quote.expiresAt < new Date()) {
+    badRequestResponse(res, 'El presupuesto está vencido');
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * GET /public/quotes/:token
+ * Ver el presupuesto desde el enlace público
+ */
+export const getPublicQuote = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const quote = await resolveQuote(req, res);
+    if (!quote) return;
+
+    await getQuoteLinkService().recordView(quote);
+
+    successResponse(res, await getQuoteLinkService().toPublicView(quote), 'Presupuesto obtenido exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo presupuesto público:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /public/quotes/:token/accept
+ * Aceptar el presupuesto (registra quién y cuándo)
+ */
+export const acceptPublicQuote = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, email } = req.body;
+
+    const quote = await resolveQuote(req, res);
+    if (!quote) return;
+
+    if (!checkDecisionAllowed(quote, res)) return;
+
+    quote.customerDecision = {
+      decision: 'accepted',
+      name,
+      decidedAt: new Date(),
+      ...(email && { email }),
+      ...(req.ip && { ip: req.ip }),
+      ...(req.headers['user-agent'] && { userAgent: req.headers['user-agent'] })
+    };
+    await quote.save();
+
+    logger.info('Presupuesto aceptado por el cliente', {
+      quoteId: quote._id,
+      quoteNumber: quote.quoteNumber,
+      acceptedBy: name,
+      ip: req.ip
+    });
+
+    successResponse(res, await getQuoteLinkService().toPublicView(quote), 'Presupuesto aceptado exitosamente');
+
+  } catch (error) {
+    logger.error('Error aceptando presupuesto público:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /public/quotes/:token/reject
+ * Rechazar el presupuesto con un motivo (libera el stock reservado)
+ */
+export const rejectPublicQuote = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason, name } = req.body;
+
+    const quote = await resolveQuote(req, res);
+    if (!quote) return;
+
+    if (!checkDecisionAllowed(quote, res)) return;
+
+    const customerDecision: IQuoteCustomerDecision = {
+      decision: 'rejected',
+      name: name || quote.customer.name,
+      reason,
+      decidedAt: new Date(),
+      ...(req.ip && { ip: req.ip }),
+      ...(req.headers['user-agent'] && { userAgent: req.headers['user-agent'] })
+    };
+
+    // Rechazar, cancelar el intento de pago pendiente y liberar el stock en una sola
+    // transacción. El rechazo se escribe solo si el presupuesto sigue sin respuesta
+    const session = await startSession();
+    let rejected: boolean | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        const update = await Quote.updateOne(
+          { _id: quote._id, status: 'pending', customerDecision: { $exists: false } },
+          { $set: { status: 'rejected', customerDecision } },
+          { session }
+        );
+
+        rejected = update.modifiedCount > 0;
+
+        if (!rejected) {
+          throw new Error('El presupuesto ya fue respondido');
+        }
+
+        await Payment.updateMany(
+          { quote: quote._id, status: 'pending' },
+          { $set: { status: 'cancelled' } },
+          { session }
+        );
+
+        await getStockService().releaseStock(quote._id.toString(), { session });
+      });
+    } catch (error) {
+      if (rejected === false) {
+        conflictResponse(res, 'El presupuesto ya fue respondido o cambió de estado');
+        return;
+      }
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+
+    quote.status = 'rejected';
+    quote.customerDecision = customerDecision;
+
+    logger.info('Presupuesto rechazado por el cliente', {
+      quoteId: quote._id,
+      quoteNumber: quote.quoteNumber,
+      reason,
+      ip: req.ip
+    });
+
+    successResponse(res, await getQuoteLinkService().toPublicView(quote), 'Presupuesto rechazado');
+
+  } catch (error) {
+    logger.error('Error rechazando presupuesto público:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /public/quotes/:token/pay
+ * Obtener la orden de pago del presupuesto aceptado (reutiliza el intento vigente)
+ */
+export const payPublicQuote = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const quote = await resolveQuote(req, res);
+    if (!quote) return;
+
+    if (quote.customerDecision?.decision !== 'accepted') {
+      badRequestResponse(res, 'Debe aceptar el presupuesto antes de pagarlo');
+      return;
+    }
+
+    const result = await getPaymentOrderService().createOrder(quote._id.toString(), { reuseActive: true });
+
+    if (!result.success) {
+      badRequestResponse(res, result.message, result.details);
+      return;
+    }
+
+    const payment = result.payment!;
+    const respond = result.reused ? successResponse : createdResponse;
+
+    respond(res, {
+      amount: payment.amount,
+      isPartial: result.isPartial,
+      qrCode: payment.qrCode,
+      initPoint: result.initPoint,
+      sandboxInitPoint: result.sandboxInitPoint,
+      expiresAt: payment.expiresAt,
+      balanceDue: result.balanceDue,
+      reused: result.reused
+    }, result.message);
+
+  } catch (error) {
+    logger.error('Error creando pago desde enlace público:', error);
+
+    if (error instanceof Error && error.message.includes('MercadoPago')) {
+      errorResponse(res, 'Error en el servicio de pagos', 502, 'PAYMENT_SERVICE_ERROR');
+    } else {
+      errorResponse(res, 'Error interno del servidor', 500, 'INTERNAL_ERROR');
+    }
+  }
+});
@@ -1,8 +1,11 @@
 import { Request, Response } from 'express';
-import { Types } from 'mongoose';
-import { AuthRequest, QuoteFilters, CreateQuoteRequest, IQuoteItem } from '../types';
+import { Types, startSession } from 'mongoose';
+import { AuthRequest, QuoteFilters, CreateQuoteRequest, CreateQuoteFromTemplateRequest, UpdateQuoteRequest, IQuote, IQuoteItem } from '../types';
 import Quote from '../models/Quote';
 import Product from '../models/Product';
+import Customer from '../models/Customer';
+import Payment from '../models/Payment';
+import QuoteRevision from '../models/QuoteRevision';
 import { asyncHandler } from '../middleware/error.middleware';
 import {
   successResponse,
@@ -13,6 +16,231 @@ import {
   badRequestResponse
 } from '../utils/responses';
 import { logger } from '../utils/logger';
+import { getPdfService } from '../services/pdf.service';
+import { getQuoteNumberingService } from '../services/quoteNumbering.service';
+import { getStockService, StockItem, StockOperationResult } from '../services/stock.service';
+import { getMaintenanceService } from '../services/maintenance.service';
+import { getDefaultTaxRate } from '../config/taxes';
+import { getCouponService } from '../services/coupon.service';
+import { getDiscountApprovalService } from '../services/discountApproval.service';
+import { getQuoteLinkService } from '../services/quoteLink.service';
+import { getQuoteTemplateService } from '../services/quoteTemplate.service';
+import { getMarginService, MarginEvaluation } from '../services/margin.service';
+import { getCustomerService, QuoteCustomerResolution } from '../services/customer.service';
+
+/**
+ * Resultado de construir los items de un presupuesto
+ */
+interface QuoteItemsResult {
+  quoteItems: IQuoteItem[];
+  productsNotFound: boolean;
+  stockErrors: string[];
+  discountErrors: string[];
+}
+
+/**
+ * Validar productos y stock, y construir los items con snapshot de precios actuales
+ * Si se indica reservationId, el stock ya reservado por ella cuenta como disponible
+ * Los items sin alícuota toman la del producto o su categoría
+ */
+const buildQuoteItems = async (items: CreateQuoteRequest['items'], reservationId?: string): Promise<QuoteItemsResult> => {
+  const productIds = items.map(item => item.productId);
+  const [products, reservedByOwner] = await Promise.all([
+    Product.find({
+      _id: { $in: productIds },
+      isActive: true
+    }).select('+costPrice'),
+    reservationId
+      ? getStockService().getReservedQuantities(reservationId)
+      : Promise.resolve(new Map<string, number>())
+  ]);
+
+  if (products.length !== productIds.length) {
+    return { quoteItems: [], productsNotFound: true, stockErrors: [], discountErrors: [] };
+  }
+
+  const quoteItems: IQuoteItem[] = [];
+  const stockErrors: string[] = [];
+  const discountErrors: string[] = [];
+
+  for (const item of items) {
+    const product = products.find(p => p._id.toString() === item.productId);
+
+    if (!product) {
+      stockErrors.push(`Producto ${item.productId} no encontrado`);
+      continue;
+    }
+
+    const available = product.availableStock + (reservedByOwner.get(item.productId) || 0);
+
+    if (available < item.quantity) {
+      stockErrors.push(`Stock insuficiente para ${product.name}. Disponible: ${available}, Solicitado: ${item.quantity}`);
+      continue;
+    }
+
+    const subtotal = product.price * item.quantity;
+
+    if (item.discount?.type === 'fixed' && item.discount.value > subtotal) {
+      discountErrors.push(`El descuento de ${product.name} (${item.discount.value}) supera el total de la línea (${subtotal})`);
+      continue;
+    }
+
+    const taxRate = item.taxRate ?? getDefaultTaxRate(product);
+
+    // Crear item con snapshot del producto
+    quoteItems.push({
+      product: product._id,
+      productSnapshot: {
+        name: product.name,
+        price: product.price,
+        category: product.category,
+        ...(product.costPrice !== undefined && { costPrice: product.costPrice })
+      },
+      quantity: item.quantity,
+      subtotal,
+      ...(item.discount && { discount: item.discount }),
+      ...(taxRate !== undefined && { taxRate })
+    });
+  }
+
+  return { quoteItems, productsNotFound: false, stockErrors, discountErrors };
+};
+
+/**
+ * Presupuesto para la respuesta: los costos y márgenes solo los ven los administradores
+ */
+const toQuoteResponse = (quote: object, user?: AuthRequest['user']): object =>
+  user?.role === 'admin' ? quote : getMarginService().hideCostData(quote);
+
+/**
+ * Convertir items del presupuesto al formato del servicio de stock
+ */
+const toStockItems = (items: IQuoteItem[]): StockItem[] => items.map(item => ({
+  productId: item.product.toString(),
+  quantity: item.quantity
+}));
+
+/**
+ * Estado comparable de una versión del presupuesto
+ */
+type QuoteVersionState = Pick<IQuote, 'version' | 'customer' | 'items' | 'subtotal' | 'tax' | 'discount' | 'discountType' | 'total' | 'notes'>;
+
+/**
+ * Diferencias entre dos versiones de un presupuesto
+ */
+interface QuoteVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  fields: Array<{ field: string; from: any; to: any }>;
+  items: {
+    added: Array<{ productId: string; name: string; quantity: number; price: number }>;
+    removed: Array<{ productId: string; name: string; quantity: number; price: number }>;
+    changed: Array<{
+      productId: string;
+      name: string;
+      quantity?: { from: number; to: number };
+      price?: { from: number; to: number };
+      discount?: { from: IQuoteItem['discount'] | null; to: IQuoteItem['discount'] | null };
+      taxRate?: { from: number | null; to: number | null };
+    }>;
+  };
+}
+
+/**
+ * Comparar dos versiones de un presupuesto
+ */
+const diffQuoteVersions = (from: QuoteVersionState, to: QuoteVersionState): QuoteVersionDiff => {
+  const fields: QuoteVersionDiff['fields'] = [];
+
+  const comparableFields: Array<[string, any, any]> = [
+    ['customer.name', from.customer?.name, to.customer?.name],
+    ['customer.email', from.customer?.email, to.customer?.email],
+    ['customer.phone', from.customer?.phone, to.customer?.phone],
+    ['discount', from.discount, to.discount],
+    ['discountType', from.discountType ?? 'percent', to.discountType ?? 'percent'],
+    ['tax', from.tax, to.tax],
+    ['notes', from.notes, to.notes],
+    ['subtotal', from.subtotal, to.subtotal],
+    ['total', from.total, to.total]
+  ];
+
+  for (const [field, fromValue, toValue] of comparableFields) {
+    if ((fromValue ?? null) !== (toValue ?? null)) {
+      fields.push({ field, from: fromValue ?? null, to: toValue ?? null });
+    }
+  }
+
+  const toItemMap = (items: IQuoteItem[]) => new Map(
+    items.map(item => [item.product.toString(), item])
+  );
+  const fromItems = toItemMap(from.items);
+  const toItems = toItemMap(to.items);
+
+  const diff: QuoteVersionDiff['items'] = { added: [], removed: [], changed: [] };
+
+  for (const [productId, item] of toItems) {
+    const previous = fromItems.get(productId);
+
+    if (!previous) {
+      diff.added.push({
+        productId,
+        name: item.productSnapshot.name,
+        quantity: item.quantity,
+        price: item.productSnapshot.price
+      });
+      continue;
+    }
+
+    const change: QuoteVersionDiff['items']['changed'][number] = {
+      productId,
+      name: item.productSnapshot.name
+    };
+
+    if (previous.quantity !== item.quantity) {
+      change.quantity = { from: previous.quantity, to: item.quantity };
+    }
+
+    if (previous.productSnapshot.price !== item.productSnapshot.price) {
+      change.price = { from: previous.productSnapshot.price, to: item.productSnapshot.price };
+    }
+
+    const discountKey = (discount?: IQuoteItem['discount']) =>
+      discount ? `${discount.type}:${discount.value}` : null;
+
+    if (discountKey(previous.discount) !== discountKey(item.discount)) {
+      change.discount = {
+        from: previous.discount ? { type: previous.discount.type, value: previous.discount.value } : null,
+        to: item.discount ? { type: item.discount.type, value: item.discount.value } : null
+      };
+    }
+
+    if ((previous.taxRate ?? null) !== (item.taxRate ?? null)) {
+      change.taxRate = { from: previous.taxRate ?? null, to: item.taxRate ?? null };
+    }
+
+    if (change.quantity || change.price || change.discount || change.taxRate) {
+      diff.changed.push(change);
+    }
+  }
+
+  for (const [productId, item] of fromItems) {
+    if (!toItems.has(productId)) {
+      diff.removed.push({
+        productId,
+        name: item.productSnapshot.name,
+        quantity: item.quantity,
+        price: item.productSnapshot.price
+      });
+    }
+  }
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    fields,
+    items: diff
+  };
+};
 
 /**
  * GET /quotes
@@ -25,8 +253,10 @@ export const getQuotes = asyncHandler(async (req: AuthRequest, res: Response): P
       limit = '20',
       status,
       customer,
+      customerId,
       dateFrom,
       dateTo,
+      marginBelowFloor,
       sort = 'createdAt',
       order = 'desc'
     }: QuoteFilters = req.query;
@@ -47,6 +277,15 @@ export const getQuotes = asyncHandler(async (req: AuthRequest, res: Response): P
       filters.status = status;
     }
 
+    if (customerId) {
+      filters.customerId = customerId;
+    }
+
+    // El margen solo lo ven los administradores
+    if (marginBelowFloor !== undefined && req.user?.role === 'admin') {
+      filters.marginBelowFloor = marginBelowFloor;
+    }
+
     if (customer) {
       filters.$or = [
         { 'customer.name': new RegExp(customer, 'i') },
@@ -94,7 +333,7 @@ export const getQuotes = asyncHandler(async (req: AuthRequest, res: Response): P
       hasPreviousPage
     };
 
-    paginatedResponse(res, quotes, pagination, 'Presupuestos obtenidos exitosamente');
+    paginatedResponse(res, quotes.map(quote => toQuoteResponse(quote, req.user)), pagination, 'Presupuestos obtenidos exitosamente');
 
   } catch (error) {
     logger.error('Error obteniendo presupuestos:', error);
@@ -120,6 +359,7 @@ export const getQuoteById = asyncHandler(async (req: AuthRequest, res: Response)
     const quote = await Quote.findOne(filters)
       .populate('createdBy', 'name email')
       .populate('items.product', 'name price category stock')
+      .populate('duplicatedFrom', 'quoteNumber status createdAt')
       .populate('paymentId');
 
     if (!quote) {
@@ -127,7 +367,7 @@ export const getQuoteById = asyncHandler(async (req: AuthRequest, res: Response)
       return;
     }
 
-    successResponse(res, quote, 'Presupuesto obtenido exitosamente');
+    successResponse(res, toQuoteResponse(quote, req.user), 'Presupuesto obtenido exitosamente');
 
   } catch (error) {
     logger.error('Error obteniendo presupuesto por ID:', error);
@@ -135,58 +375,431 @@ export const getQuoteById = asyncHandler(async (req: AuthRequest, res: Response)
   }
 });
 
+/**
+ * GET /quotes/:id/pdf
+ * Descargar presupuesto en formato PDF
+ */
+export const getQuotePdf = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { download } = req.query;
+
+    const filters: any = { _id: id };
+
+    // Sellers solo pueden descargar sus propios presupuestos
+    if (req.user?.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    const quote = await Quote.findOne(filters);
+
+    if (!quote) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
+      return;
+    }
+
+    // Buscar el pago vinculado para embeber el QR de MercadoPago
+    const payment = quote.paymentId
+      ? await Payment.findById(quote.paymentId)
+      : null;
+
+    const pdfBuffer = await getPdfService().generateQuotePdf({ quote, payment });
+
+    const disposition = download === 'true' ? 'attachment' : 'inline';
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `${disposition}; filename="${quote.quoteNumber}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+    res.status(200).send(pdfBuffer);
+
+    logger.info(`PDF generado para presupuesto ${quote.quoteNumber}`);
+
+  } catch (error) {
+    logger.error('Error generando PDF del presupuesto:', error);
+    throw error;
+  }
+});
+
+/**
+ * Origen de un presupuesto nuevo y datos adicionales para la respuesta
+ */
+interface CreateQuoteOptions {
+  templateId?: Types.ObjectId;
+  duplicatedFrom?: Types.ObjectId;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Item del presupuesto original que no se pudo copiar al duplicarlo
+ */
+interface UnavailableQuoteItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  reason: 'inactive' | 'out_of_stock';
+  available?: number;
+}
+
+/**
+ * Crear un presupuesto con precios y stock actuales (alta directa, desde plantilla o duplicado)
+ */
+const createQuoteFromRequest = async (
+  req: AuthRequest,
+  res: Response,
+  data: CreateQuoteRequest,
+  options: CreateQuoteOptions = {}
+): Promise<void> => {
+  const { templateId, duplicatedFrom, details } = options;
+  const { customerId, customer, items, discount = 0, discountType = 'percent', couponCode, tax = 0, notes } = data;
+
+  if (!req.user) {
+    badRequestResponse(res, 'Usuario no autenticado');
+    return;
+  }
+
+  // Vincular el cliente registrado (o preparar uno nuevo) y la copia de sus datos
+  const customerResolution = await getCustomerService().resolveForQuote({
+    ...(customerId && { customerId }),
+    ...(customer && { customer })
+  }, req.user.id);
+
+  if (!customerResolution.success) {
+    badRequestResponse(res, customerResolution.message);
+    return;
+  }
+
+  // Validar productos y stock, y crear items con snapshot de productos
+  const { quoteItems, productsNotFound, stockErrors, discountErrors } = await buildQuoteItems(items);
+
+  if (productsNotFound) {
+    badRequestResponse(res, 'Uno o más productos no fueron encontrados o están inactivos');
+    return;
+  }
+
+  if (stockErrors.length > 0) {
+    badRequestResponse(res, 'Errores de validación de stock', stockErrors);
+    return;
+  }
+
+  if (discountErrors.length > 0) {
+    badRequestResponse(res, 'Descuentos inválidos', discountErrors);
+    return;
+  }
+
+  // Validar el cupón contra los items y el cliente del presupuesto
+  let coupon: IQuote['coupon'];
+
+  if (couponCode) {
+    const couponResult = await getCouponService().validateForQuote(couponCode, {
+      items: quoteItems,
+      customerId: customerResolution.customer!._id.toString()
+    });
+
+    if (!couponResult.success) {
+      badRequestResponse(res, couponResult.message);
+      return;
+    }
+
+    coupon = couponResult.snapshot;
+  }
+
+  // Borrador del presupuesto para evaluar margen y descuento (se guarda una copia por intento)
+  const draft = new Quote({
+    customer: customerResolution.snapshot,
+    customerId: customerResolution.customer!._id,
+    ...(templateId && { templateId }),
+    ...(duplicatedFrom && { duplicatedFrom }),
+    items: quoteItems,
+    discount,
+    discountType,
+    ...(coupon && { coupon }),
+    tax,
+    notes,
+    createdBy: req.user.id
+  });
+
+  // Un descuento que deja el margen por debajo del mínimo se rechaza o se marca para revisión
+  if (getMarginService().applyFloor(draft).blocked) {
+    badRequestResponse(res, 'El descuento deja el margen del presupuesto por debajo del mínimo permitido');
+    return;
+  }
+
+  // Descuentos por encima del límite de quien cotiza quedan pendientes de aprobación
+  const discountApprovalService = getDiscountApprovalService();
+  const discountLimit = await discountApprovalService.getLimit(req.user);
+  const discountEvaluation = discountApprovalService.applyLimit(draft, discountLimit, req.user.id);
+
+  // Guardar dentro de una transacción para que el número de presupuesto
+  // no se consuma si el guardado o la reserva de stock fallan (numeración sin huecos).
+  // Los cálculos se hacen automáticamente en el pre-save hook
+  const session = await startSession();
+  let reservation: StockOperationResult | undefined;
+  let savedQuote: IQuote | undefined;
+
+  try {
+    await session.withTransaction(async () => {
+      // Documento nuevo en cada intento: tras un intento abortado el anterior ya no es isNew
+      const attempt = new Quote(draft.toObject({ virtuals: false }));
+
+      // El cliente nuevo solo se registra si el presupuesto se guarda
+      await getCustomerService().createResolvedCustomer(customerResolution, session);
+      await attempt.save({ session });
+
+      // Reservar el stock hasta la expiración del presupuesto
+      reservation = await getStockService().reserveStock(toStockItems(quoteItems), attempt._id.toString(), {
+        expiresAt: attempt.expiresAt,
+        quoteId: attempt._id.toString(),
+        session
+      });
+
+      if (!reservation.success) {
+        throw new Error('Reserva de stock fallida');
+      }
+
+      savedQuote = attempt;
+    });
+  } catch (error) {
+    if (reservation && !reservation.success) {
+      badRequestResponse(res, 'Stock insuficiente para reservar', reservation.errors);
+      return;
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  const quote = savedQuote!;
+
+  // Poblar la respuesta
+  await quote.populate('createdBy', 'name email');
+  await quote.populate('items.product', 'name price category');
+  if (duplicatedFrom) {
+    await quote.populate('duplicatedFrom', 'quoteNumber status createdAt');
+  }
+
+  logger.info(`Presupuesto creado: ${quote.quoteNumber} por usuario ${req.user.email}`);
+
+  createdResponse(res, toQuoteResponse(details ? { ...quote.toObject(), ...details } : quote, req.user), discountEvaluation.requiresApproval
+    ? `Presupuesto creado. El descuento (${discountEvaluation.discountPercent}%) supera el máximo permitido (${discountEvaluation.maxDiscountPercent}%) y requiere aprobación`
+    : 'Presupuesto creado exitosamente');
+};
+
 /**
  * POST /quotes
  * Crear nuevo presupuesto
  */
 export const createQuote = asyncHandler(async (req: AuthRequest & { body: CreateQuoteRequest }, res: Response): Promise<void> => {
   try {
-    const { customer, items, discount = 0, tax = 0, notes } = req.body;
+    await createQuoteFromRequest(req, res, req.body);
+  } catch (error) {
+    logger.error('Error creando presupuesto:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /quotes/from-template/:templateId
+ * Crear presupuesto desde una plantilla con los precios y el stock actuales
+ */
+export const createQuoteFromTemplate = asyncHandler(async (req: AuthRequest & { body: CreateQuoteFromTemplateRequest }, res: Response): Promise<void> => {
+  try {
+    const { templateId } = req.params;
 
     if (!req.user) {
       badRequestResponse(res, 'Usuario no autenticado');
       return;
     }
 
-    // Validar que los productos existen y tienen stock suficiente
-    const productIds = items.map((item: any) => item.productId);
-    const products = await Product.find({
-      _id: { $in: productIds },
-      isActive: true
+    const quoteTemplateService = getQuoteTemplateService();
+    const template = await quoteTemplateService.findAccessible(templateId!, req.user);
+
+    if (!template) {
+      notFoundResponse(res, 'Plantilla no encontrada');
+      return;
+    }
+
+    await createQuoteFromRequest(req, res, quoteTemplateService.toQuoteRequest(template, req.body), {
+      templateId: template._id
     });
 
-    if (products.length !== productIds.length) {
-      badRequestResponse(res, 'Uno o más productos no fueron encontrados o están inactivos');
+  } catch (error) {
+    logger.error('Error creando presupuesto desde plantilla:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /quotes/:id/duplicate
+ * Crear un presupuesto nuevo con el cliente, los items y las notas de otro (en cualquier estado)
+ * Los precios se actualizan; los items con productos inactivos o sin stock se omiten y se informan
+ */
+export const duplicateQuote = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const filters: any = { _id: id };
+
+    // Sellers solo pueden duplicar sus propios presupuestos
+    if (req.user?.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    const source = await Quote.findOne(filters);
+
+    if (!source) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
       return;
     }
 
-    // Validar stock y crear items con snapshot de productos
-    const quoteItems: IQuoteItem[] = [];
-    const stockErrors: string[] = [];
+    // Separar los items que todavía se pueden cotizar
+    const products = await Product.find({
+      _id: { $in: source.items.map(item => item.product) },
+      isActive: true
+    });
+
+    const items: CreateQuoteRequest['items'] = [];
+    const unavailableItems: UnavailableQuoteItem[] = [];
 
-    for (const item of items) {
-      const product = products.find(p => p._id.toString() === item.productId);
+    for (const item of source.items) {
+      const productId = item.product.toString();
+      const product = products.find(p => p._id.toString() === productId);
 
       if (!product) {
-        stockErrors.push(`Producto ${item.productId} no encontrado`);
+        unavailableItems.push({ productId, name: item.productSnapshot.name, quantity: item.quantity, reason: 'inactive' });
         continue;
       }
 
-      if (!product.validateStock(item.quantity)) {
-        stockErrors.push(`Stock insuficiente para ${product.name}. Disponible: ${product.stock}, Solicitado: ${item.quantity}`);
+      if (product.availableStock < item.quantity) {
+        unavailableItems.push({
+          productId,
+          name: product.name,
+          quantity: item.quantity,
+          reason: 'out_of_stock',
+          available: product.availableStock
+        });
         continue;
       }
 
-      // Crear item con snapshot del producto
-      quoteItems.push({
-        product: product._id,
-        productSnapshot: {
-          name: product.name,
-          price: product.price
-        },
+      items.push({
+        productId,
         quantity: item.quantity,
-        subtotal: product.price * item.quantity
+        ...(item.discount && { discount: { type: item.discount.type, value: item.discount.value } }),
+        ...(item.taxRate !== undefined && { taxRate: item.taxRate })
+      });
+    }
+
+    if (items.length === 0) {
+      badRequestResponse(res, 'Ningún item del presupuesto se puede cotizar actualmente', unavailableItems);
+      return;
+    }
+
+    // Usar los datos actuales del cliente registrado; si ya no está activo, la copia del original
+    const registeredCustomer = source.customerId
+      ? await Customer.exists({ _id: source.customerId, isActive: true })
+      : null;
+
+    await createQuoteFromRequest(req, res, {
+      ...(registeredCustomer
+        ? { customerId: source.customerId!.toString() }
+        : {
+          customer: {
+            name: source.customer.name,
+            ...(source.customer.email && { email: source.customer.email }),
+            ...(source.customer.phone && { phone: source.customer.phone })
+          }
+        }),
+      items,
+      tax: source.tax,
+      ...(source.notes && { notes: source.notes })
+    }, {
+      duplicatedFrom: source._id,
+      details: { unavailableItems }
+    });
+
+  } catch (error) {
+    logger.error('Error duplicando presupuesto:', error);
+    throw error;
+  }
+});
+
+/**
+ * PUT /quotes/:id
+ * Editar presupuesto pendiente guardando la versión anterior
+ */
+export const updateQuote = asyncHandler(async (req: AuthRequest & { body: UpdateQuoteRequest }, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { customerId, customer, items, discount, discountType, tax, notes, reason } = req.body;
+
+    if (!req.user) {
+      badRequestResponse(res, 'Usuario no autenticado');
+      return;
+    }
+
+    const filters: any = { _id: id };
+
+    // Sellers solo pueden editar sus propios presupuestos
+    if (req.user.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    const quote = await Quote.findOne(filters);
+
+    if (!quote) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
+      return;
+    }
+
+    if (!['pending', 'pending_approval'].includes(quote.status)) {
+      badRequestResponse(res, `No se puede editar un presupuesto en estado ${quote.status}`);
+      return;
+    }
+
+    if (quote.expiresAt <= new Date()) {
+      badRequestResponse(res, 'No se puede editar un presupuesto vencido');
+      return;
+    }
+
+    // No permitir cambios si hay un intento de pago en curso
+    const activePayment = await Payment.findActiveAttempt(quote._id.toString());
+
+    if (activePayment) {
+      badRequestResponse(res, 'No se puede editar un presupuesto con un pago activo', {
+        paymentId: activePayment._id,
+        status: activePayment.status
       });
+      return;
+    }
+
+    // Si no se envían items, se vuelven a validar y cotizar los actuales
+    const requestedItems = items ?? quote.items.map(item => ({
+      productId: item.product.toString(),
+      quantity: item.quantity,
+      ...(item.discount && { discount: { type: item.discount.type, value: item.discount.value } }),
+      ...(item.taxRate !== undefined && { taxRate: item.taxRate })
+    }));
+
+    // Cambiar de cliente registrado, o vincular uno si el presupuesto no lo tenía
+    let customerResolution: QuoteCustomerResolution | undefined;
+
+    if (customerId || (customer && !quote.customerId)) {
+      customerResolution = await getCustomerService().resolveForQuote({
+        ...(customerId && { customerId }),
+        ...(customer && { customer })
+      }, req.user.id);
+
+      if (!customerResolution.success) {
+        badRequestResponse(res, customerResolution.message);
+        return;
+      }
+    }
+
+    const reservationId = quote._id.toString();
+    const { quoteItems, productsNotFound, stockErrors, discountErrors } = await buildQuoteItems(requestedItems, reservationId);
+
+    if (productsNotFound) {
+      badRequestResponse(res, 'Uno o más productos no fueron encontrados o están inactivos');
+      return;
     }
 
     if (stockErrors.length > 0) {
@@ -194,29 +807,182 @@ export const createQuote = asyncHandler(async (req: AuthRequest & { body: Create
       return;
     }
 
-    // Crear el presupuesto
-    const quote = new Quote({
-      customer,
-      items: quoteItems,
-      discount,
-      tax,
-      notes,
-      createdBy: req.user.id
-    });
+    if (discountErrors.length > 0) {
+      badRequestResponse(res, 'Descuentos inválidos', discountErrors);
+      return;
+    }
+
+    // El cupón aplicado debe seguir cumpliendo sus condiciones con los nuevos items
+    if (quote.coupon) {
+      const couponError = getCouponService().checkConditions(quote.coupon, quoteItems);
+
+      if (couponError) {
+        badRequestResponse(res, `El cupón ${quote.coupon.code} ya no aplica: ${couponError}`);
+        return;
+      }
+    }
+
+    const nextDiscountType = discountType ?? quote.discountType ?? 'percent';
+    const nextDiscount = discount ?? quote.discount;
+
+    if (nextDiscountType === 'percent' && nextDiscount > 100) {
+      badRequestResponse(res, 'El descuento porcentual no puede ser mayor a 100');
+      return;
+    }
+
+    const discountApprovalService = getDiscountApprovalService();
+    const discountLimit = await discountApprovalService.getLimit(req.user);
+    let discountEvaluation: ReturnType<typeof discountApprovalService.applyLimit> | undefined;
+    let marginEvaluation: MarginEvaluation | undefined;
+
+    // Estado previo tomado una sola vez: withTransaction puede reintentar el callback
+    const previousState = quote.toObject({ virtuals: false });
+    const previousVersion = previousState.version;
+    const userId = req.user.id;
+    const stockService = getStockService();
+    const session = await startSession();
+    let reservation: StockOperationResult | undefined;
+    let updatedQuote: IQuote | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        // Reemplazar la reserva de stock por la de los nuevos items
+        await stockService.releaseStock(reservationId, { session });
+        reservation = await stockService.reserveStock(toStockItems(quoteItems), reservationId, {
+          expiresAt: quote.expiresAt,
+          quoteId: reservationId,
+          session
+        });
+
+        if (!reservation.success) {
+          throw new Error('Reserva de stock fallida');
+        }
 
-    // Los cálculos se hacen automáticamente en el pre-save hook
-    await quote.save();
+        // Guardar la versión actual antes de modificarla
+        await QuoteRevision.create([{
+          quote: previousState._id,
+          version: previousVersion,
+          customer: previousState.customer,
+          items: previousState.items,
+          subtotal: previousState.subtotal,
+          tax: previousState.tax,
+          discount: previousState.discount,
+          discountType: previousState.discountType ?? 'percent',
+          total: previousState.total,
+          notes: previousState.notes,
+          expiresAt: previousState.expiresAt,
+          revisedBy: userId,
+          reason
+        }], { session });
+
+        // Aplicar los cambios sobre una copia nueva en cada intento
+        const editedQuote = Quote.hydrate(previousState);
+
+        if (customerResolution) {
+          editedQuote.customer = customerResolution.snapshot!;
+          editedQuote.customerId = customerResolution.customer!._id;
+        } else if (customer) {
+          editedQuote.customer = customer;
+        }
+        if (discount !== undefined) editedQuote.discount = discount;
+        if (discountType !== undefined) editedQuote.discountType = discountType;
+        if (tax !== undefined) editedQuote.tax = tax;
+        if (notes !== undefined) editedQuote.notes = notes;
+        editedQuote.items = quoteItems;
+        editedQuote.version = previousVersion + 1;
+
+        // Volver a evaluar el margen y el descuento con los nuevos valores
+        marginEvaluation = getMarginService().applyFloor(editedQuote);
+
+        if (marginEvaluation.blocked) {
+          throw new Error('Margen por debajo del mínimo');
+        }
+
+        discountEvaluation = discountApprovalService.applyLimit(editedQuote, discountLimit, userId);
+
+        if (customerResolution) {
+          await getCustomerService().createResolvedCustomer(customerResolution, session);
+        }
+
+        // Los totales se recalculan en el pre-save hook
+        await editedQuote.save({ session });
+        updatedQuote = editedQuote;
+      });
+    } catch (error) {
+      if (reservation && !reservation.success) {
+        badRequestResponse(res, 'Stock insuficiente para reservar', reservation.errors);
+        return;
+      }
+      if (marginEvaluation?.blocked) {
+        badRequestResponse(res, 'El descuento deja el margen del presupuesto por debajo del mínimo permitido');
+        return;
+      }
+      throw error;
+    } finally {
+      await session.endSession();
+    }
 
-    // Poblar la respuesta
-    await quote.populate('createdBy', 'name email');
-    await quote.populate('items.product', 'name price category');
+    const savedQuote = updatedQuote!;
+    await savedQuote.populate('createdBy', 'name email');
+    await savedQuote.populate('items.product', 'name price category');
 
-    logger.info(`Presupuesto creado: ${quote.quoteNumber} por usuario ${req.user.email}`);
+    logger.info(`Presupuesto editado: ${savedQuote.quoteNumber} (versión ${savedQuote.version}) por usuario ${req.user.email}`);
 
-    createdResponse(res, quote, 'Presupuesto creado exitosamente');
+    updatedResponse(res, toQuoteResponse(savedQuote, req.user), discountEvaluation?.requiresApproval
+      ? `Presupuesto actualizado. El descuento (${discountEvaluation.discountPercent}%) supera el máximo permitido (${discountEvaluation.maxDiscountPercent}%) y requiere aprobación`
+      : 'Presupuesto actualizado exitosamente');
 
   } catch (error) {
-    logger.error('Error creando presupuesto:', error);
+    logger.error('Error editando presupuesto:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /quotes/:id/revisions
+ * Obtener historial de versiones de un presupuesto con sus diferencias
+ */
+export const getQuoteRevisions = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const filters: any = { _id: id };
+
+    // Sellers solo pueden ver sus propios presupuestos
+    if (req.user?.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    const quote = await Quote.findOne(filters).lean();
+
+    if (!quote) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
+      return;
+    }
+
+    const revisions = await QuoteRevision.find({ quote: quote._id })
+      .populate('revisedBy', 'name email')
+      .sort({ version: 1 })
+      .lean();
+
+    // Comparar cada versión con la siguiente; la última contra el estado actual
+    const versions: QuoteVersionState[] = [...revisions, { ...quote, version: quote.version ?? 1 }];
+    const diffs = revisions.map((revision, index) =>
+      diffQuoteVersions(revision, versions[index + 1] as QuoteVersionState)
+    );
+
+    successResponse(res, {
+      quoteId: quote._id,
+      quoteNumber: quote.quoteNumber,
+      currentVersion: quote.version ?? 1,
+      revisions: req.user?.role === 'admin'
+        ? revisions
+        : revisions.map(revision => ({ ...revision, items: getMarginService().hideItemCosts(revision.items) })),
+      diffs
+    }, `${revisions.length} revisiones encontradas`);
+
+  } catch (error) {
+    logger.error('Error obteniendo revisiones del presupuesto:', error);
     throw error;
   }
 });
@@ -243,18 +1009,48 @@ export const cancelQuote = asyncHandler(async (req: AuthRequest, res: Response):
       return;
     }
 
-    if (quote.status !== 'pending') {
+    if (!['pending', 'pending_approval'].includes(quote.status)) {
       badRequestResponse(res, `No se puede cancelar un presupuesto en estado ${quote.status}`);
       return;
     }
 
-    // Actualizar estado
+    // Cancelar y liberar el stock reservado en una sola transacción:
+    // un presupuesto cancelado nunca queda con stock reservado.
+    // El estado se escribe dentro del callback para que cada reintento lo vuelva a aplicar
+    const session = await startSession();
+    let cancelled: boolean | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        const update = await Quote.updateOne(
+          { _id: quote._id, status: { $in: ['pending', 'pending_approval'] } },
+          { $set: { status: 'cancelled' } },
+          { session }
+        );
+
+        cancelled = update.modifiedCount > 0;
+
+        if (!cancelled) {
+          throw new Error('El presupuesto cambió de estado');
+        }
+
+        await getStockService().releaseStock(quote._id.toString(), { session });
+      });
+    } catch (error) {
+      if (cancelled === false) {
+        badRequestResponse(res, 'El presupuesto cambió de estado y ya no se puede cancelar');
+        return;
+      }
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+
     quote.status = 'cancelled';
-    await quote.save();
 
     logger.info(`Presupuesto cancelado: ${quote.quoteNumber}`);
 
-    updatedResponse(res, quote, 'Presupuesto cancelado exitosamente');
+    updatedResponse(res, toQuoteResponse(quote, req.user), 'Presupuesto cancelado exitosamente');
 
   } catch (error) {
     logger.error('Error cancelando presupuesto:', error);
@@ -262,11 +1058,188 @@ export const cancelQuote = asyncHandler(async (req: AuthRequest, res: Response):
   }
 });
 
+/**
+ * GET /quotes/approvals
+ * Presupuestos con descuentos pendientes de aprobación, del más antiguo al más reciente (solo admin)
+ */
+export const getPendingApprovals = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page = '1', limit = '20' } = req.query as { page?: string; limit?: string };
+
+    const pageNum = parseInt(page, 10) || 1;
+    const limitNum = parseInt(limit, 10) || 20;
+    const skip = (pageNum - 1) * limitNum;
+
+    const filters = { status: 'pending_approval', 'discountApproval.status': 'pending' };
+
+    const [quotes, totalQuotes] = await Promise.all([
+      Quote.find(filters)
+        .select('quoteNumber customer customerId subtotal discount discountType discountAmount total expiresAt discountApproval createdBy createdAt')
+        .populate('createdBy', 'name email')
+        .populate('discountApproval.requestedBy', 'name email')
+        .sort({ 'discountApproval.requestedAt': 1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      Quote.countDocuments(filters)
+    ]);
+
+    const totalPages = Math.ceil(totalQuotes / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total: totalQuotes,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, quotes, pagination, 'Aprobaciones pendientes obtenidas exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo aprobaciones pendientes:', error);
+    throw error;
+  }
+});
+
+/**
+ * Aprobar o rechazar el descuento de un presupuesto pendiente de aprobación
+ */
+const reviewQuoteDiscount = async (req: AuthRequest, res: Response, decision: 'approved' | 'rejected'): Promise<void> => {
+  const { id } = req.params;
+  const { comment } = req.body as { comment?: string };
+
+  const quote = await Quote.findById(id);
+
+  if (!quote) {
+    notFoundResponse(res, 'Presupuesto no encontrado');
+    return;
+  }
+
+  if (quote.status !== 'pending_approval' || quote.discountApproval?.status !== 'pending') {
+    badRequestResponse(res, 'El presupuesto no tiene un descuento pendiente de aprobación');
+    return;
+  }
+
+  getDiscountApprovalService().review(quote, decision, req.user!.id, comment);
+  await quote.save();
+
+  logger.info(`Descuento ${decision === 'approved' ? 'aprobado' : 'rechazado'}: ${quote.quoteNumber} por usuario ${req.user!.email}`, {
+    discountPercent: quote.discountApproval!.discountPercent,
+    comment
+  });
+
+  updatedResponse(res, quote, decision === 'approved'
+    ? 'Descuento aprobado exitosamente'
+    : 'Descuento rechazado. El presupuesto debe editarse o cancelarse');
+};
+
+/**
+ * POST /quotes/:id/approve
+ * Aprobar el descuento de un presupuesto (solo admin)
+ */
+export const approveQuoteDiscount = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await reviewQuoteDiscount(req, res, 'approved');
+  } catch (error) {
+    logger.error('Error aprobando descuento de presupuesto:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /quotes/:id/reject
+ * Rechazar el descuento de un presupuesto con un comentario (solo admin)
+ */
+export const rejectQuoteDiscount = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await reviewQuoteDiscount(req, res, 'rejected');
+  } catch (error) {
+    logger.error('Error rechazando descuento de presupuesto:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /quotes/:id/public-link
+ * Generar enlace público para el cliente (invalida el enlace anterior)
+ */
+export const createPublicLink = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const filters: any = { _id: id };
+
+    // Sellers solo pueden compartir sus propios presupuestos
+    if (req.user?.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    const quote = await Quote.findOne(filters);
+
+    if (!quote) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
+      return;
+    }
+
+    if (!['pending', 'partially_paid'].includes(quote.status)) {
+      badRequestResponse(res, `No se puede compartir un presupuesto en estado ${quote.status}`);
+      return;
+    }
+
+    const link = await getQuoteLinkService().createLink(quote, req.user!.id);
+
+    createdResponse(res, link, 'Enlace público generado exitosamente');
+
+  } catch (error) {
+    logger.error('Error generando enlace público de presupuesto:', error);
+    throw error;
+  }
+});
+
+/**
+ * DELETE /quotes/:id/public-link
+ * Revocar el enlace público vigente
+ */
+export const revokePublicLink = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const filters: any = { _id: id };
+
+    // Sellers solo pueden revocar enlaces de sus propios presupuestos
+    if (req.user?.role === 'seller') {
+      filters.createdBy = req.user.id;
+    }
+
+    const quote = await Quote.findOne(filters);
+
+    if (!quote) {
+      notFoundResponse(res, 'Presupuesto no encontrado');
+      return;
+    }
+
+    if (!quote.publicLink) {
+      notFoundResponse(res, 'El presupuesto no tiene un enlace público vigente');
+      return;
+    }
+
+    await getQuoteLinkService().revokeLink(quote);
+
+    successResponse(res, null, 'Enlace público revocado exitosamente');
+
+  } catch (error) {
+    logger.error('Error revocando enlace público de presupuesto:', error);
+    throw error;
+  }
+});
+
 /**
  * GET /quotes/customer/:email
  * Obtener presupuestos por email del cliente
  */
-export const getQuotesByCustomerEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+export const getQuotesByCustomerEmail = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { email } = req.params;
 
@@ -277,7 +1250,7 @@ export const getQuotesByCustomerEmail = asyncHandler(async (req: Request, res: R
     .sort({ createdAt: -1 })
     .limit(50);
 
-    successResponse(res, quotes, `${quotes.length} presupuestos encontrados para ${email}`);
+    successResponse(res, quotes.map(quote => toQuoteResponse(quote, req.user)), `${quotes.length} presupuestos encontrados para ${email}`);
 
   } catch (error) {
     logger.error('Error obteniendo presupuestos por email de cliente:', error);
@@ -330,20 +1303,62 @@ export const getQuoteStats = asyncHandler(async (req: AuthRequest, res: Response
           _id: null,
           totalQuotes: { $sum: 1 },
           totalRevenue: { $sum: { $cond: [{ $eq: ['$status', 'paid'] }, '$total', 0] } },
+          // Cobrado en señas y pagos completos, y saldo pendiente de los presupuestos señados
+          totalCollected: { $sum: { $ifNull: ['$amountPaid', 0] } },
+          outstandingBalance: { $sum: { $cond: [{ $eq: ['$status', 'partially_paid'] }, '$balanceDue', 0] } },
           avgQuoteValue: { $avg: '$total' }
         }
       }
     ]);
 
-    const response = {
+    const response: Record<string, unknown> = {
       byStatus: stats,
       totals: totalStats[0] || {
         totalQuotes: 0,
         totalRevenue: 0,
+        totalCollected: 0,
+        outstandingBalance: 0,
         avgQuoteValue: 0
       }
     };
 
+    // Márgenes de los presupuestos vigentes con costo conocido (solo admin)
+    if (req.user?.role === 'admin') {
+      const [marginStats] = await Quote.aggregate([
+        {
+          $match: {
+            ...matchStage,
+            costTotal: { $exists: true },
+            status: { $nin: ['rejected', 'cancelled', 'expired', 'refunded'] }
+          }
+        },
+        {
+          $group: {
+            _id: null,
+            quotesWithCost: { $sum: 1 },
+            costTotal: { $sum: '$costTotal' },
+            marginAmount: { $sum: '$marginAmount' },
+            paidMarginAmount: { $sum: { $cond: [{ $eq: ['$status', 'paid'] }, '$marginAmount', 0] } },
+            belowFloorCount: { $sum: { $cond: ['$marginBelowFloor', 1, 0] } }
+          }
+        }
+      ]);
+
+      const costTotal = marginStats?.costTotal || 0;
+      const marginAmount = marginStats?.marginAmount || 0;
+      // El neto de los items con costo es costo + margen
+      const costedNet = costTotal + marginAmount;
+
+      response.margins = {
+        quotesWithCost: marginStats?.quotesWithCost || 0,
+        costTotal: Math.round(costTotal * 100) / 100,
+        marginAmount: Math.round(marginAmount * 100) / 100,
+        marginPercent: costedNet > 0 ? Math.round((marginAmount / costedNet) * 10000) / 100 : 0,
+        paidMarginAmount: Math.round((marginStats?.paidMarginAmount || 0) * 100) / 100,
+        belowFloorCount: marginStats?.belowFloorCount || 0
+      };
+    }
+
     successResponse(res, response, 'Estadísticas obtenidas exitosamente');
 
   } catch (error) {
@@ -354,25 +1369,13 @@ export const getQuoteStats = asyncHandler(async (req: AuthRequest, res: Response
 
 /**
  * POST /quotes/expire-old
- * Tarea para expirar presupuestos antiguos (solo admin, usado por cron)
+ * Expirar presupuestos antiguos manualmente (solo admin, también corre como tarea programada)
  */
 export const expireOldQuotes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
-    const result = await Quote.updateMany(
-      {
-        status: 'pending',
-        expiresAt: { $lte: new Date() }
-      },
-      {
-        status: 'expired'
-      }
-    );
-
-    logger.info(`${result.modifiedCount} presupuestos expirados automáticamente`);
+    const result = await getMaintenanceService().expireQuotes();
 
-    successResponse(res, {
-      expiredCount: result.modifiedCount
-    }, `${result.modifiedCount} presupuestos expirados`);
+    successResponse(res, result, `${result.expiredCount} presupuestos expirados`);
 
   } catch (error) {
     logger.error('Error expirando presupuestos antiguos:', error);
@@ -380,6 +1383,30 @@ export const expireOldQuotes = asyncHandler(async (req: Request, res: Response):
   }
 });
 
+/**
+ * POST /quotes/numbering/backfill
+ * Sincronizar contadores de numeración y reportar colisiones (solo admin)
+ */
+export const backfillQuoteNumbers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+
+    const report = await getQuoteNumberingService().backfill(dryRun);
+
+    successResponse(
+      res,
+      report,
+      dryRun
+        ? 'Análisis de numeración completado (sin cambios)'
+        : 'Contadores de numeración sincronizados'
+    );
+
+  } catch (error) {
+    logger.error('Error en backfill de numeración de presupuestos:', error);
+    throw error;
+  }
+});
+
 /**
  * GET /quotes/expiring
  * Obtener presupuestos próximos a expirar (solo admin)
@@ -0,0 +1,252 @@
+import { Response } from 'express';
+import { AuthRequest, CreateQuoteTemplateRequest, QuoteTemplateFilters } from '../types';
+import QuoteTemplate from '../models/QuoteTemplate';
+import { asyncHandler } from '../middleware/error.middleware';
+import {
+  successResponse,
+  createdResponse,
+  updatedResponse,
+  deletedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  paginatedResponse,
+  badRequestResponse
+} from '../utils/responses';
+import { logger } from '../utils/logger';
+import { getQuoteTemplateService } from '../services/quoteTemplate.service';
+
+/**
+ * Escapar un texto para usarlo dentro de una expresión regular
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Convertir los items recibidos al formato de la plantilla
+ */
+const toTemplateItems = (items: CreateQuoteTemplateRequest['items']) => items.map(item => ({
+  product: item.productId,
+  quantity: item.quantity,
+  ...(item.discount && { discount: item.discount }),
+  ...(item.taxRate !== undefined && { taxRate: item.taxRate })
+}));
+
+/**
+ * GET /quote-templates
+ * Listar plantillas propias y compartidas (los admins ven todas)
+ */
+export const getQuoteTemplates = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const {
+      page = '1',
+      limit = '20',
+      search,
+      scope,
+      sort = 'name',
+      order = 'asc'
+    }: QuoteTemplateFilters = req.query;
+
+    // Convertir a números
+    const pageNum = parseInt(page, 10) || 1;
+    const limitNum = parseInt(limit, 10) || 20;
+
+    // Construir filtros a partir de las plantillas visibles para el usuario
+    const filters: any = getQuoteTemplateService().getAccessFilter(req.user!);
+
+    if (scope === 'mine') {
+      filters.createdBy = req.user!.id;
+    } else if (scope === 'shared') {
+      filters.isShared = true;
+    }
+
+    if (search) {
+      filters.name = new RegExp(escapeRegExp(search), 'i');
+    }
+
+    // Configurar ordenamiento
+    const sortOrder = order === 'asc' ? 1 : -1;
+    const sortOptions: any = { [sort]: sortOrder };
+
+    // Calcular offset
+    const skip = (pageNum - 1) * limitNum;
+
+    const [templates, totalTemplates] = await Promise.all([
+      QuoteTemplate.find(filters)
+        .populate('createdBy', 'name email')
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      QuoteTemplate.countDocuments(filters)
+    ]);
+
+    const totalPages = Math.ceil(totalTemplates / limitNum);
+
+    const pagination = {
+      page: pageNum,
+      limit: limitNum,
+      total: totalTemplates,
+      totalPages,
+      hasNextPage: pageNum < totalPages,
+      hasPreviousPage: pageNum > 1
+    };
+
+    paginatedResponse(res, templates, pagination, 'Plantillas obtenidas exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo plantillas:', error);
+    throw error;
+  }
+});
+
+/**
+ * GET /quote-templates/:id
+ * Obtener plantilla por ID con los precios y el stock actuales de sus productos
+ */
+export const getQuoteTemplateById = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const template = await getQuoteTemplateService().findAccessible(id!, req.user!);
+
+    if (!template) {
+      notFoundResponse(res, 'Plantilla no encontrada');
+      return;
+    }
+
+    await template.populate('createdBy', 'name email');
+    await template.populate('items.product', 'name price stock category isActive');
+
+    successResponse(res, template, 'Plantilla obtenida exitosamente');
+
+  } catch (error) {
+    logger.error('Error obteniendo plantilla por ID:', error);
+    throw error;
+  }
+});
+
+/**
+ * POST /quote-templates
+ * Crear plantilla de presupuesto
+ */
+export const createQuoteTemplate = asyncHandler(async (req: AuthRequest & { body: CreateQuoteTemplateRequest }, res: Response): Promise<void> => {
+  try {
+    const { name, description, items, discount, discountType, tax, notes, isShared }: CreateQuoteTemplateRequest = req.body;
+
+    const missingProducts = await getQuoteTemplateService().findMissingProducts(items.map(item => item.productId));
+
+    if (missingProducts.length > 0) {
+      badRequestResponse(res, 'Uno o más productos no fueron encontrados o están inactivos', missingProducts);
+      return;
+    }
+
+    const template = await QuoteTemplate.create({
+      name,
+      items: toTemplateItems(items),
+      ...(description && { description }),
+      ...(discount !== undefined && { discount }),
+      ...(discountType && { discountType }),
+      ...(tax !== undefined && { tax }),
+      ...(notes && { notes }),
+      ...(isShared !== undefined && { isShared }),
+      createdBy: req.user!.id
+    });
+
+    logger.info(`Plantilla creada: ${template.name} (ID: ${template._id}) por usuario ${req.user!.email}`);
+
+    createdResponse(res, template, 'Plantilla creada exitosamente');
+
+  } catch (error) {
+    logger.error('Error creando plantilla:', error);
+    throw error;
+  }
+});
+
+/**
+ * PUT /quote-templates/:id
+ * Actualizar plantilla (solo el creador o un admin)
+ * Los presupuestos ya creados desde la plantilla no cambian
+ */
+export const updateQuoteTemplate = asyncHandler(async (req: AuthRequest & { body: Partial<CreateQuoteTemplateRequest> }, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description, items, discount, discountType, tax, notes, isShared }: Partial<CreateQuoteTemplateRequest> = req.body;
+
+    const quoteTemplateService = getQuoteTemplateService();
+    const template = await quoteTemplateService.findAccessible(id!, req.user!);
+
+    if (!template) {
+      notFoundResponse(res, 'Plantilla no encontrada');
+      return;
+    }
+
+    if (!quoteTemplateService.canManage(template, req.user!)) {
+      forbiddenResponse(res, 'Solo el creador de la plantilla o un administrador pueden modificarla');
+      return;
+    }
+
+    if (items !== undefined) {
+      const missingProducts = await quoteTemplateService.findMissingProducts(items.map(item => item.productId));
+
+      if (missingProducts.length > 0) {
+        badRequestResponse(res, 'Uno o más productos no fueron encontrados o están inactivos', missingProducts);
+        return;
+      }
+
+      template.set('items', toTemplateItems(items));
+    }
+
+    if (name !== undefined) template.name = name;
+    if (description !== undefined) template.description = description;
+    if (discount !== undefined) template.discount = discount;
+    if (discountType !== undefined) template.discountType = discountType;
+    if (tax !== undefined) template.tax = tax;
+    if (notes !== undefined) template.notes = notes;
+    if (isShared !== undefined) template.isShared = isShared;
+
+    // El tipo y el valor del descuento se validan juntos en el modelo (porcentaje hasta 100)
+    await template.save();
+
+    logger.info(`Plantilla actualizada: ${template.name} (ID: ${template._id}) por usuario ${req.user!.email}`);
+
+    updatedResponse(res, template, 'Plantilla actualizada exitosamente');
+
+  } catch (error) {
+    logger.error('Error actualizando plantilla:', error);
+    throw error;
+  }
+});
+
+/**
+ * DELETE /quote-templates/:id
+ * Desactivar plantilla (soft delete - solo el creador o un admin)
+ */
+export const deleteQuoteTemplate = asyncHandler(async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const quoteTemplateService = getQuoteTemplateService();
+    const template = await quoteTemplateService.findAccessible(id!, req.user!);
+
+    if (!template) {
+      notFoundResponse(res, 'Plantilla no encontrada');
+      return;
+    }
+
+    if (!quoteTemplateService.canManage(template, req.user!)) {
+      forbiddenResponse(res, 'Solo el creador de la plantilla o un administrador pueden eliminarla');
+      return;
+    }
+
+    // Soft delete: los presupuestos creados desde la plantilla conservan la referencia
+    template.isActive = false;
+    await template.save();
+
+    logger.info(`Plantilla desactivada: ${template.name} (ID: ${template._id})`);
+
+    deletedResponse(res, 'Plantilla eliminada exitosamente');
+
+  } catch (error) {
+    logger.error('Error desactivando plantilla:', error);
+    throw error;
+  }
+});
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { body, param, query, ValidationChain, validationResult } from 'express-validator';
 import { ApiResponse } from '../types';
+import { isValidPhone } from '../utils/customerContact';
 
 /**
  * Middleware para manejar errores de validación
@@ -86,6 +87,11 @@ export const createProductValidation: ValidationChain[] = [
     .isFloat({ min: 0.01 })
     .withMessage('El precio debe ser un número mayor a 0')
     .toFloat(),
+  body('costPrice')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('El costo debe ser un número no negativo')
+    .toFloat(),
   body('stock')
     .isInt({ min: 0 })
     .withMessage('El stock debe ser un número entero no negativo')
@@ -96,6 +102,11 @@ export const createProductValidation: ValidationChain[] = [
     .trim()
     .isLength({ min: 2, max: 100 })
     .withMessage('La categoría debe tener entre 2 y 100 caracteres'),
+  body('taxRate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('La alícuota debe ser entre 0 y 100')
+    .toFloat(),
   body('sku')
     .optional()
     .trim()
@@ -132,6 +143,11 @@ export const updateProductValidation: ValidationChain[] = [
     .isFloat({ min: 0.01 })
     .withMessage('El precio debe ser un número mayor a 0')
     .toFloat(),
+  body('costPrice')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('El costo debe ser un número no negativo')
+    .toFloat(),
   body('stock')
     .optional()
     .isInt({ min: 0 })
@@ -144,6 +160,11 @@ export const updateProductValidation: ValidationChain[] = [
     .trim()
     .isLength({ min: 2, max: 100 })
     .withMessage('La categoría debe tener entre 2 y 100 caracteres'),
+  body('taxRate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('La alícuota debe ser entre 0 y 100')
+    .toFloat(),
   body('sku')
     .optional()
     .trim()
@@ -163,19 +184,64 @@ export const updateProductValidation: ValidationChain[] = [
 ];
 
 /**
- * Validaciones para presupuestos
+ * Validaciones de descuento y alícuota por item (compartidas entre alta y edición de presupuestos)
  */
-export const createQuoteValidation: ValidationChain[] = [
-  // Validar estructura anidada de customer
+const quoteItemPricingValidation: ValidationChain[] = [
+  body('items.*.discount')
+    .optional()
+    .isObject()
+    .withMessage('El descuento del item debe ser un objeto { type, value }'),
+  body('items.*.discount.type')
+    .optional()
+    .isIn(['percent', 'fixed'])
+    .withMessage('El tipo de descuento debe ser percent o fixed'),
+  body('items.*.discount.value')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('El valor del descuento debe ser un número no negativo')
+    .toFloat(),
+  body('items.*.discount')
+    .optional()
+    .custom(discount => ['percent', 'fixed'].includes(discount.type) && discount.value !== undefined)
+    .withMessage('El descuento del item requiere type y value')
+    .custom(discount => discount.type !== 'percent' || discount.value <= 100)
+    .withMessage('El descuento porcentual no puede ser mayor a 100'),
+  body('items.*.taxRate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('La alícuota debe ser entre 0 y 100')
+    .toFloat()
+];
+
+/**
+ * Validaciones del cliente de un presupuesto nuevo: cliente registrado o sus datos (al menos uno)
+ */
+const quoteCustomerValidation: ValidationChain[] = [
+  body('customerId')
+    .optional()
+    .isMongoId()
+    .withMessage('ID de cliente inválido'),
   body('customer')
+    .if(body('customerId').not().exists())
     .isObject()
     .withMessage('Los datos del cliente son requeridos'),
+  body('customer')
+    .optional()
+    .isObject()
+    .withMessage('Los datos del cliente deben ser un objeto'),
   body('customer.name')
+    .if(body('customerId').not().exists())
     .notEmpty()
     .withMessage('El nombre del cliente es requerido')
     .trim()
     .isLength({ min: 2, max: 200 })
     .withMessage('El nombre debe tener entre 2 y 200 caracteres'),
+  body('customer.name')
+    .if(body('customerId').exists())
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('El nombre debe tener entre 2 y 200 caracteres'),
   body('customer.email')
     .optional()
     .isEmail()
@@ -183,8 +249,49 @@ export const createQuoteValidation: ValidationChain[] = [
     .normalizeEmail(),
   body('customer.phone')
     .optional()
-    .matches(/^[\+]?[0-9\s\-\(\)]+$/)
-    .withMessage('El formato del teléfono no es válido'),
+    .custom(isValidPhone)
+    .withMessage('El teléfono debe tener entre 6 y 20 dígitos')
+];
+
+/**
+ * Validaciones de descuento, cupón, impuesto y notas de un presupuesto nuevo
+ */
+const quoteOptionsValidation: ValidationChain[] = [
+  body('discountType')
+    .optional()
+    .isIn(['percent', 'fixed'])
+    .withMessage('El tipo de descuento debe ser percent o fixed'),
+  body('discount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('El descuento debe ser un número no negativo')
+    .toFloat()
+    .custom((discount, { req }) => req.body.discountType === 'fixed' || discount <= 100)
+    .withMessage('El descuento porcentual debe ser entre 0 y 100'),
+  body('couponCode')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('El código de cupón no puede estar vacío')
+    .isLength({ max: 30 })
+    .withMessage('El código de cupón no puede exceder 30 caracteres'),
+  body('tax')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('El impuesto debe ser entre 0 y 100')
+    .toFloat(),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Las notas no pueden exceder 1000 caracteres')
+];
+
+/**
+ * Validaciones para presupuestos
+ */
+export const createQuoteValidation: ValidationChain[] = [
+  ...quoteCustomerValidation,
 
   // Validar items
   body('items')
@@ -197,6 +304,7 @@ export const createQuoteValidation: ValidationChain[] = [
     .isInt({ min: 1 })
     .withMessage('La cantidad debe ser un número entero mayor a 0')
     .toInt(),
+  ...quoteItemPricingValidation,
 
   // Rechazar campos de items que se calculan automáticamente
   body('items.*.product')
@@ -213,11 +321,75 @@ export const createQuoteValidation: ValidationChain[] = [
     .withMessage('items.subtotal se calcula automáticamente'),
 
   // Validar campos opcionales
+  ...quoteOptionsValidation,
+
+  // IMPORTANTE: Rechazar campos que deben ser autogenerados
+  body(['expiresAt', 'quoteNumber', '_id', 'createdAt', 'updatedAt'])
+    .not()
+    .exists()
+    .withMessage('Este campo se genera automáticamente, no debe enviarse')
+];
+
+export const updateQuoteValidation: ValidationChain[] = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de presupuesto inválido'),
+
+  // Si se envía customerId, el presupuesto pasa a ese cliente registrado
+  body('customerId')
+    .optional()
+    .isMongoId()
+    .withMessage('ID de cliente inválido'),
+
+  // Si se envía el cliente, se reemplaza completo
+  body('customer')
+    .optional()
+    .isObject()
+    .withMessage('Los datos del cliente deben ser un objeto'),
+  body('customer.name')
+    .if(body('customer').exists())
+    .notEmpty()
+    .withMessage('El nombre del cliente es requerido')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('El nombre debe tener entre 2 y 200 caracteres'),
+  body('customer.email')
+    .optional()
+    .isEmail()
+    .withMessage('El email del cliente no es válido')
+    .normalizeEmail(),
+  body('customer.phone')
+    .optional()
+    .custom(isValidPhone)
+    .withMessage('El teléfono debe tener entre 6 y 20 dígitos'),
+
+  // Si se envían items, reemplazan a los actuales
+  body('items')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Debe incluir al menos un item'),
+  body('items.*.productId')
+    .isMongoId()
+    .withMessage('ID de producto inválido'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('La cantidad debe ser un número entero mayor a 0')
+    .toInt(),
+  ...quoteItemPricingValidation,
+
+  body('discountType')
+    .optional()
+    .isIn(['percent', 'fixed'])
+    .withMessage('El tipo de descuento debe ser percent o fixed'),
   body('discount')
     .optional()
-    .isFloat({ min: 0, max: 100 })
-    .withMessage('El descuento debe ser entre 0 y 100')
+    .isFloat({ min: 0 })
+    .withMessage('El descuento debe ser un número no negativo')
     .toFloat(),
+  body('couponCode')
+    .not()
+    .exists()
+    .withMessage('El cupón solo se puede aplicar al crear el presupuesto'),
   body('tax')
     .optional()
     .isFloat({ min: 0, max: 100 })
@@ -228,12 +400,17 @@ export const createQuoteValidation: ValidationChain[] = [
     .trim()
     .isLength({ max: 1000 })
     .withMessage('Las notas no pueden exceder 1000 caracteres'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El motivo no puede exceder 500 caracteres'),
 
-  // IMPORTANTE: Rechazar campos que deben ser autogenerados
-  body(['expiresAt', 'quoteNumber', '_id', 'createdAt', 'updatedAt'])
+  // Rechazar campos que no se pueden modificar
+  body(['expiresAt', 'quoteNumber', 'status', 'version', 'paymentId', 'createdBy', '_id', 'createdAt', 'updatedAt'])
     .not()
     .exists()
-    .withMessage('Este campo se genera automáticamente, no debe enviarse')
+    .withMessage('Este campo no se puede modificar')
 ];
 
 /**
@@ -297,6 +474,89 @@ export const productFiltersValidation: ValidationChain[] = [
     .toBoolean()
 ];
 
+/**
+ * Validaciones para cambios masivos de precios
+ */
+export const bulkPriceChangeValidation: ValidationChain[] = [
+  query('dryRun')
+    .optional()
+    .isBoolean()
+    .withMessage('dryRun debe ser true o false'),
+  body('category')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('La categoría no puede estar vacía'),
+  body('skuPattern')
+    .optional()
+    .trim()
+    .matches(/^[A-Za-z0-9\-_*]+$/)
+    .withMessage('El patrón de SKU solo puede contener letras, números, guiones, guiones bajos y *'),
+  body('search')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('El término de búsqueda no puede estar vacío'),
+  body('allProducts')
+    .optional()
+    .isBoolean()
+    .withMessage('allProducts debe ser verdadero o falso')
+    .toBoolean(),
+  body()
+    .custom(value => Boolean(value?.category || value?.skuPattern || value?.search || value?.allProducts === true))
+    .withMessage('Indicar category, skuPattern o search, o allProducts para todo el catálogo'),
+  body('type')
+    .isIn(['percent', 'fixed'])
+    .withMessage('El tipo de cambio debe ser percent o fixed'),
+  body('value')
+    .isFloat()
+    .withMessage('El valor del cambio debe ser un número')
+    .toFloat()
+    .custom(value => value !== 0)
+    .withMessage('El valor del cambio no puede ser 0')
+    .custom((value, { req }) => req.body.type !== 'percent' || value > -100)
+    .withMessage('Una baja porcentual debe ser menor al 100%'),
+  body('rounding.mode')
+    .optional()
+    .isIn(['nearest', 'up', 'down'])
+    .withMessage('El redondeo debe ser nearest, up o down'),
+  body('rounding.step')
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage('El paso de redondeo debe ser al menos 0.01')
+    .toFloat(),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Las notas no pueden exceder 500 caracteres')
+];
+
+/**
+ * Validaciones para el historial de precios de un producto
+ */
+export const priceHistoryValidation: ValidationChain[] = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de producto inválido'),
+  ...paginationValidation,
+  query('at')
+    .optional()
+    .isISO8601()
+    .withMessage('at debe ser una fecha válida en formato ISO8601')
+];
+
+/**
+ * Validaciones para filtros de lotes de precios
+ */
+export const priceBatchFiltersValidation: ValidationChain[] = [
+  ...paginationValidation,
+  query('status')
+    .optional()
+    .isIn(['applied', 'reverted'])
+    .withMessage('El estado debe ser applied o reverted')
+];
+
 /**
  * Validaciones para filtros de presupuestos
  */
@@ -304,13 +564,17 @@ export const quoteFiltersValidation: ValidationChain[] = [
   ...paginationValidation,
   query('status')
     .optional()
-    .isIn(['pending', 'paid', 'cancelled', 'expired'])
-    .withMessage('El estado debe ser pending, paid, cancelled o expired'),
+    .isIn(['pending_approval', 'pending', 'partially_paid', 'paid', 'rejected', 'cancelled', 'expired', 'partially_refunded', 'refunded'])
+    .withMessage('El estado debe ser pending_approval, pending, partially_paid, paid, rejected, cancelled, expired, partially_refunded o refunded'),
   query('customer')
     .optional()
     .trim()
     .isLength({ min: 1 })
     .withMessage('El nombre del cliente no puede estar vacío'),
+  query('customerId')
+    .optional()
+    .isMongoId()
+    .withMessage('ID de cliente inválido'),
   query('dateFrom')
     .optional()
     .isISO8601()
@@ -320,7 +584,12 @@ export const quoteFiltersValidation: ValidationChain[] = [
     .optional()
     .isISO8601()
     .withMessage('dateTo debe ser una fecha válida en formato ISO8601')
-    .toDate()
+    .toDate(),
+  query('marginBelowFloor')
+    .optional()
+    .isBoolean()
+    .withMessage('marginBelowFloor debe ser true o false')
+    .toBoolean()
 ];
 
 /**
@@ -329,7 +598,539 @@ export const quoteFiltersValidation: ValidationChain[] = [
 export const createPaymentValidation: ValidationChain[] = [
   body('quoteId')
     .isMongoId()
-    .withMessage('El ID del presupuesto debe ser válido')
+    .withMessage('El ID del presupuesto debe ser válido'),
+  body('amount')
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage('El monto debe ser un número mayor a 0')
+    .toFloat(),
+  body('percentage')
+    .optional()
+    .isFloat({ min: 1, max: 100 })
+    .withMessage('El porcentaje debe estar entre 1 y 100')
+    .toFloat(),
+  body()
+    .custom(value => !(value?.amount !== undefined && value?.percentage !== undefined))
+    .withMessage('Indicar el monto o el porcentaje, no ambos')
+];
+
+/**
+ * Validaciones para registrar un pago manual
+ */
+export const manualPaymentValidation: ValidationChain[] = [
+  body('quoteId')
+    .isMongoId()
+    .withMessage('El ID del presupuesto debe ser válido'),
+  body('method')
+    .isIn(['cash', 'bank_transfer', 'check'])
+    .withMessage('El medio de pago debe ser cash, bank_transfer o check'),
+  body('amount')
+    .isFloat({ min: 0.01 })
+    .withMessage('El monto debe ser un número mayor a 0')
+    .toFloat(),
+  body('referenceNumber')
+    .if(body('method').isIn(['bank_transfer', 'check']))
+    .trim()
+    .notEmpty()
+    .withMessage('El número de referencia es requerido para transferencias y cheques')
+    .isLength({ max: 100 })
+    .withMessage('El número de referencia no puede exceder 100 caracteres'),
+  body('receiptImage')
+    .optional()
+    .matches(/^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/=]+$/)
+    .withMessage('El comprobante debe ser una imagen PNG, JPEG o WEBP en base64 (data URL)')
+    .isLength({ max: 7 * 1024 * 1024 })
+    .withMessage('El comprobante no puede superar los 5MB'),
+  body('paidAt')
+    .optional()
+    .isISO8601()
+    .withMessage('La fecha de pago debe ser válida')
+];
+
+/**
+ * Validaciones para reembolso de pago
+ */
+export const refundPaymentValidation: ValidationChain[] = [
+  body('amount')
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage('El monto debe ser un número mayor a 0')
+    .toFloat(),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El motivo no puede exceder 500 caracteres'),
+  body('restock')
+    .optional()
+    .isBoolean()
+    .withMessage('restock debe ser verdadero o falso')
+    .toBoolean(),
+  body('items')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Los items deben ser un array con al menos un elemento'),
+  body('items.*.productId')
+    .if(body('items').exists())
+    .isMongoId()
+    .withMessage('ID de producto inválido'),
+  body('items.*.quantity')
+    .if(body('items').exists())
+    .isInt({ min: 1 })
+    .withMessage('La cantidad debe ser un número entero mayor a 0')
+    .toInt()
+];
+
+/**
+ * Validaciones para simular un pago con el proveedor simulado
+ */
+export const simulatePaymentValidation: ValidationChain[] = [
+  body('status')
+    .optional()
+    .isIn(['approved', 'rejected', 'cancelled', 'pending', 'in_process'])
+    .withMessage('El estado debe ser approved, rejected, cancelled, pending o in_process'),
+  body('emitWebhook')
+    .optional()
+    .isBoolean()
+    .withMessage('emitWebhook debe ser verdadero o falso')
+    .toBoolean()
+];
+
+/**
+ * Validaciones de los datos de un cliente (compartidas entre alta y edición)
+ */
+const customerFieldsValidation: ValidationChain[] = [
+  body('taxId')
+    .optional()
+    .trim()
+    .matches(/^[0-9A-Za-z\-. ]{0,20}$/)
+    .withMessage('El CUIT solo puede contener números, letras, guiones y puntos (máximo 20 caracteres)'),
+  body('emails')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Los emails deben ser una lista de hasta 10 elementos'),
+  body('emails.*')
+    .isEmail()
+    .withMessage('Uno de los emails no es válido')
+    .normalizeEmail(),
+  body('phones')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Los teléfonos deben ser una lista de hasta 10 elementos'),
+  body('phones.*')
+    .custom(isValidPhone)
+    .withMessage('Cada teléfono debe tener entre 6 y 20 dígitos'),
+  body('addresses')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Las direcciones deben ser una lista de hasta 10 elementos'),
+  body('addresses.*.street')
+    .trim()
+    .notEmpty()
+    .withMessage('La calle de la dirección es requerida')
+    .isLength({ max: 200 })
+    .withMessage('La calle no puede exceder 200 caracteres'),
+  body(['addresses.*.label', 'addresses.*.city', 'addresses.*.state', 'addresses.*.postalCode', 'addresses.*.country'])
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Los datos de la dirección no pueden exceder 100 caracteres'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Las notas no pueden exceder 1000 caracteres'),
+  body('tags')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Las etiquetas deben ser una lista de hasta 20 elementos'),
+  body('tags.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Cada etiqueta debe tener entre 1 y 50 caracteres'),
+
+  // Rechazar campos que no se pueden modificar
+  body(['_id', 'isActive', 'createdBy', 'createdAt', 'updatedAt'])
+    .not()
+    .exists()
+    .withMessage('Este campo no se puede modificar')
+];
+
+/**
+ * Validaciones para crear clientes
+ */
+export const createCustomerValidation: ValidationChain[] = [
+  body('name')
+    .notEmpty()
+    .withMessage('El nombre del cliente es requerido')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('El nombre debe tener entre 2 y 200 caracteres'),
+  ...customerFieldsValidation
+];
+
+/**
+ * Validaciones para editar clientes
+ */
+export const updateCustomerValidation: ValidationChain[] = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de cliente inválido'),
+  body('name')
+    .optional()
+    .notEmpty()
+    .withMessage('El nombre no puede estar vacío')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('El nombre debe tener entre 2 y 200 caracteres'),
+  ...customerFieldsValidation
+];
+
+/**
+ * Validaciones para filtros de clientes
+ */
+export const customerFiltersValidation: ValidationChain[] = [
+  ...paginationValidation,
+  query('sort')
+    .optional()
+    .isIn(['name', 'createdAt', 'updatedAt'])
+    .withMessage('El ordenamiento debe ser name, createdAt o updatedAt'),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('El término de búsqueda no puede estar vacío'),
+  query('tag')
+    .optional()
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('La etiqueta no puede estar vacía'),
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive debe ser verdadero o falso')
+    .toBoolean()
+];
+
+/**
+ * Validaciones para crear un presupuesto desde una plantilla
+ * Los items salen de la plantilla; descuento, impuesto y notas la reemplazan si se envían
+ */
+export const createQuoteFromTemplateValidation: ValidationChain[] = [
+  param('templateId')
+    .isMongoId()
+    .withMessage('ID de plantilla inválido'),
+  ...quoteCustomerValidation,
+  ...quoteOptionsValidation,
+  body('items')
+    .not()
+    .exists()
+    .withMessage('Los items se toman de la plantilla, no deben enviarse')
+];
+
+/**
+ * Validaciones de los datos de una plantilla (compartidas entre alta y edición)
+ */
+const quoteTemplateFieldsValidation: ValidationChain[] = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('La descripción no puede exceder 500 caracteres'),
+  body('items.*.productId')
+    .isMongoId()
+    .withMessage('ID de producto inválido'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('La cantidad debe ser un número entero mayor a 0')
+    .toInt(),
+  ...quoteItemPricingValidation,
+  body('discountType')
+    .optional()
+    .isIn(['percent', 'fixed'])
+    .withMessage('El tipo de descuento debe ser percent o fixed'),
+  body('discount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('El descuento debe ser un número no negativo')
+    .toFloat()
+    .custom((discount, { req }) => req.body.discountType === 'fixed' || discount <= 100)
+    .withMessage('El descuento porcentual debe ser entre 0 y 100'),
+  body('tax')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('El impuesto debe ser entre 0 y 100')
+    .toFloat(),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Las notas no pueden exceder 1000 caracteres'),
+  body('isShared')
+    .optional()
+    .isBoolean()
+    .withMessage('isShared debe ser verdadero o falso')
+    .toBoolean(),
+
+  // Rechazar campos que no se pueden modificar
+  body(['_id', 'createdBy', 'createdAt', 'updatedAt'])
+    .not()
+    .exists()
+    .withMessage('Este campo no se puede modificar')
+];
+
+/**
+ * Validaciones para crear plantillas de presupuesto
+ */
+export const createQuoteTemplateValidation: ValidationChain[] = [
+  body('name')
+    .notEmpty()
+    .withMessage('El nombre de la plantilla es requerido')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('El nombre debe tener entre 2 y 200 caracteres'),
+  body('items')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('La plantilla debe incluir entre 1 y 100 items'),
+  ...quoteTemplateFieldsValidation
+];
+
+/**
+ * Validaciones para editar plantillas de presupuesto
+ */
+export const updateQuoteTemplateValidation: ValidationChain[] = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de plantilla inválido'),
+  body('name')
+    .optional()
+    .notEmpty()
+    .withMessage('El nombre no puede estar vacío')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('El nombre debe tener entre 2 y 200 caracteres'),
+  body('items')
+    .optional()
+    .isArray({ min: 1, max: 100 })
+    .withMessage('La plantilla debe incluir entre 1 y 100 items'),
+  ...quoteTemplateFieldsValidation
+];
+
+/**
+ * Validaciones para filtros de plantillas
+ */
+export const quoteTemplateFiltersValidation: ValidationChain[] = [
+  ...paginationValidation,
+  query('sort')
+    .optional()
+    .isIn(['name', 'createdAt', 'updatedAt'])
+    .withMessage('El ordenamiento debe ser name, createdAt o updatedAt'),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('El término de búsqueda no puede estar vacío'),
+  query('scope')
+    .optional()
+    .isIn(['mine', 'shared'])
+    .withMessage('scope debe ser mine o shared')
+];
+
+/**
+ * Validaciones para aprobar el descuento de un presupuesto
+ */
+export const approveQuoteDiscountValidation: ValidationChain[] = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de presupuesto inválido'),
+  body('comment')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El comentario no puede exceder 500 caracteres')
+];
+
+/**
+ * Validaciones para rechazar el descuento de un presupuesto (comentario requerido)
+ */
+export const rejectQuoteDiscountValidation: ValidationChain[] = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de presupuesto inválido'),
+  body('comment')
+    .trim()
+    .notEmpty()
+    .withMessage('El comentario del rechazo es requerido')
+    .isLength({ max: 500 })
+    .withMessage('El comentario no puede exceder 500 caracteres')
+];
+
+/**
+ * Validaciones de los datos de un cupón (compartidas entre alta y edición)
+ */
+const couponFieldsValidation: ValidationChain[] = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('La descripción no puede exceder 500 caracteres'),
+  body('minOrderAmount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('El monto mínimo debe ser un número no negativo')
+    .toFloat(),
+  body('validFrom')
+    .optional()
+    .isISO8601()
+    .withMessage('La fecha de inicio no es válida'),
+  body('validUntil')
+    .optional()
+    .isISO8601()
+    .withMessage('La fecha de fin no es válida')
+    .custom((validUntil, { req }) => !req.body.validFrom || new Date(validUntil) > new Date(req.body.validFrom))
+    .withMessage('La fecha de fin debe ser posterior a la de inicio'),
+  body(['maxUses', 'maxUsesPerCustomer'])
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Los límites de uso deben ser números enteros mayores a 0')
+    .toInt(),
+  body('allowedCategories')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Las categorías deben ser una lista de hasta 50 elementos'),
+  body('allowedCategories.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Cada categoría debe tener entre 1 y 100 caracteres'),
+
+  // Rechazar campos que no se pueden modificar
+  body(['_id', 'usesCount', 'createdBy', 'createdAt', 'updatedAt'])
+    .not()
+    .exists()
+    .withMessage('Este campo no se puede modificar')
+];
+
+/**
+ * Validaciones para crear cupones
+ */
+export const createCouponValidation: ValidationChain[] = [
+  body('code')
+    .notEmpty()
+    .withMessage('El código del cupón es requerido')
+    .trim()
+    .matches(/^[A-Za-z0-9\-_]+$/)
+    .withMessage('El código solo puede contener letras, números, guiones y guiones bajos')
+    .isLength({ max: 30 })
+    .withMessage('El código no puede exceder 30 caracteres'),
+  body('type')
+    .isIn(['percent', 'fixed'])
+    .withMessage('El tipo de cupón debe ser percent o fixed'),
+  body('value')
+    .isFloat({ gt: 0 })
+    .withMessage('El valor del cupón debe ser un número mayor a 0')
+    .toFloat()
+    .custom((value, { req }) => req.body.type !== 'percent' || value <= 100)
+    .withMessage('Un cupón porcentual no puede superar el 100%'),
+  ...couponFieldsValidation
+];
+
+/**
+ * Validaciones para editar cupones
+ */
+export const updateCouponValidation: ValidationChain[] = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de cupón inválido'),
+  body('code')
+    .optional()
+    .trim()
+    .matches(/^[A-Za-z0-9\-_]+$/)
+    .withMessage('El código solo puede contener letras, números, guiones y guiones bajos')
+    .isLength({ max: 30 })
+    .withMessage('El código no puede exceder 30 caracteres'),
+  body('type')
+    .optional()
+    .isIn(['percent', 'fixed'])
+    .withMessage('El tipo de cupón debe ser percent o fixed'),
+  body('value')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('El valor del cupón debe ser un número mayor a 0')
+    .toFloat(),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive debe ser verdadero o falso')
+    .toBoolean(),
+  ...couponFieldsValidation
+];
+
+/**
+ * Validaciones para filtros de cupones
+ */
+export const couponFiltersValidation: ValidationChain[] = [
+  ...paginationValidation,
+  query('sort')
+    .optional()
+    .isIn(['code', 'createdAt', 'validUntil', 'usesCount'])
+    .withMessage('El ordenamiento debe ser code, createdAt, validUntil o usesCount'),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('El término de búsqueda no puede estar vacío'),
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive debe ser verdadero o falso')
+    .toBoolean()
+];
+
+/**
+ * Validación del token de un enlace público de presupuesto
+ */
+export const publicQuoteTokenValidation: ValidationChain[] = [
+  param('token')
+    .isJWT()
+    .withMessage('Enlace de presupuesto inválido')
+];
+
+/**
+ * Validaciones para que el cliente acepte un presupuesto
+ */
+export const acceptPublicQuoteValidation: ValidationChain[] = [
+  ...publicQuoteTokenValidation,
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('El nombre de quien acepta es requerido')
+    .isLength({ max: 200 })
+    .withMessage('El nombre no puede exceder 200 caracteres'),
+  body('email')
+    .optional()
+    .isEmail()
+    .withMessage('Debe proporcionar un email válido')
+    .normalizeEmail()
+];
+
+/**
+ * Validaciones para que el cliente rechace un presupuesto
+ */
+export const rejectPublicQuoteValidation: ValidationChain[] = [
+  ...publicQuoteTokenValidation,
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('El motivo del rechazo es requerido')
+    .isLength({ max: 500 })
+    .withMessage('El motivo no puede exceder 500 caracteres'),
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('El nombre no puede exceder 200 caracteres')
 ];
 
 /**
@@ -0,0 +1,42 @@
+import { Schema, model, ClientSession } from 'mongoose';
+import { ICounter } from '../types';
+
+const CounterSchema = new Schema<ICounter>({
+  _id: {
+    type: String,
+    required: [true, 'La clave del contador es requerida']
+  },
+  seq: {
+    type: Number,
+    required: [true, 'La secuencia es requerida'],
+    min: [0, 'La secuencia no puede ser negativa'],
+    default: 0
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Crear el modelo
+const Counter = model<ICounter>('Counter', CounterSchema);
+
+/**
+ * Obtener el siguiente valor de un contador (operación atómica)
+ * Si se pasa una sesión, el incremento se revierte junto con la transacción
+ */
+export const nextSequence = async (key: string, session?: ClientSession | null): Promise<number> => {
+  const counter = await Counter.findOneAndUpdate(
+    { _id: key },
+    { $inc: { seq: 1 } },
+    {
+      new: true,
+      upsert: true,
+      setDefaultsOnInsert: true,
+      session: session || null
+    }
+  );
+
+  return counter.seq;
+};
+
+export default Counter;
@@ -0,0 +1,108 @@
+import { Schema, model } from 'mongoose';
+import { ICoupon } from '../types';
+import { normalizeList } from '../utils/customerContact';
+
+const CouponSchema = new Schema<ICoupon>({
+  code: {
+    type: String,
+    required: [true, 'El código del cupón es requerido'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: [30, 'El código no puede exceder 30 caracteres'],
+    validate: {
+      validator: function(code: string) {
+        return /^[A-Z0-9\-_]+$/.test(code);
+      },
+      message: 'El código solo puede contener letras, números, guiones y guiones bajos'
+    }
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'La descripción no puede exceder 500 caracteres']
+  },
+  type: {
+    type: String,
+    enum: {
+      values: ['percent', 'fixed'],
+      message: 'El tipo de cupón debe ser: percent o fixed'
+    },
+    required: [true, 'El tipo de cupón es requerido']
+  },
+  value: {
+    type: Number,
+    required: [true, 'El valor del cupón es requerido'],
+    min: [0.01, 'El valor del cupón debe ser mayor a 0'],
+    validate: {
+      validator: function(this: ICoupon, value: number) {
+        return this.type !== 'percent' || value <= 100;
+      },
+      message: 'Un cupón porcentual no puede superar el 100%'
+    }
+  },
+  minOrderAmount: {
+    type: Number,
+    min: [0, 'El monto mínimo no puede ser negativo'],
+    default: 0
+  },
+  validFrom: {
+    type: Date
+  },
+  validUntil: {
+    type: Date,
+    validate: {
+      validator: function(this: ICoupon, validUntil?: Date) {
+        if (!validUntil || !this.validFrom) return true;
+        return validUntil > this.validFrom;
+      },
+      message: 'La fecha de fin debe ser posterior a la de inicio'
+    }
+  },
+  maxUses: {
+    type: Number,
+    min: [1, 'El límite de usos debe ser al menos 1']
+  },
+  maxUsesPerCustomer: {
+    type: Number,
+    min: [1, 'El límite de usos por cliente debe ser al menos 1']
+  },
+  usesCount: {
+    type: Number,
+    min: 0,
+    default: 0
+    // Se incrementa cuando se paga un presupuesto con el cupón, no se edita directamente
+  },
+  allowedCategories: {
+    type: [String],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Índices para mejorar rendimiento
+CouponSchema.index({ isActive: 1, validUntil: 1 });
+CouponSchema.index({ createdAt: -1 });
+
+// Normalizar categorías antes de validar (sin repetidos ni vacíos)
+CouponSchema.pre('validate', function(next) {
+  if (this.isModified('allowedCategories')) {
+    this.allowedCategories = normalizeList(this.allowedCategories, category => category.trim());
+  }
+  next();
+});
+
+// Crear el modelo
+const Coupon = model<ICoupon>('Coupon', CouponSchema);
+
+export default Coupon;
@@ -0,0 +1,127 @@
+import { Schema, model } from 'mongoose';
+import { ICustomer, ICustomerAddress } from '../types';
+import { CUSTOMER_PHONE_PATTERN, normalizeEmail, normalizeList, normalizePhone, normalizeTaxId } from '../utils/customerContact';
+
+// Schema para direcciones del cliente
+const CustomerAddressSchema = new Schema<ICustomerAddress>({
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'La etiqueta no puede exceder 50 caracteres']
+  },
+  street: {
+    type: String,
+    required: [true, 'La calle es requerida'],
+    trim: true,
+    maxlength: [200, 'La calle no puede exceder 200 caracteres']
+  },
+  city: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'La ciudad no puede exceder 100 caracteres']
+  },
+  state: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'La provincia no puede exceder 100 caracteres']
+  },
+  postalCode: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'El código postal no puede exceder 20 caracteres']
+  },
+  country: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'El país no puede exceder 100 caracteres']
+  }
+}, { _id: false });
+
+const CustomerSchema = new Schema<ICustomer>({
+  name: {
+    type: String,
+    required: [true, 'El nombre del cliente es requerido'],
+    trim: true,
+    maxlength: [200, 'El nombre no puede exceder 200 caracteres']
+  },
+  taxId: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'El CUIT no puede exceder 20 caracteres']
+  },
+  emails: {
+    type: [String],
+    default: [],
+    validate: {
+      validator: function(emails: string[]) {
+        return emails.every(email => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
+      },
+      message: 'El formato de uno de los emails no es válido'
+    }
+  },
+  phones: {
+    type: [String],
+    default: [],
+    validate: {
+      validator: function(phones: string[]) {
+        return phones.every(phone => CUSTOMER_PHONE_PATTERN.test(phone));
+      },
+      message: 'El formato de uno de los teléfonos no es válido'
+    }
+  },
+  addresses: {
+    type: [CustomerAddressSchema],
+    default: []
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Las notas no pueden exceder 1000 caracteres']
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Índices para búsquedas y detección de duplicados
+CustomerSchema.index({ taxId: 1 }, { unique: true, sparse: true });
+CustomerSchema.index({ emails: 1 });
+CustomerSchema.index({ phones: 1 });
+CustomerSchema.index({ tags: 1, isActive: 1 });
+CustomerSchema.index({ name: 'text' });
+
+// Normalizar los datos de contacto antes de validar
+CustomerSchema.pre('validate', function(next) {
+  // Un CUIT vacío se elimina para no chocar con el índice único
+  if (this.taxId !== undefined) {
+    const taxId = normalizeTaxId(this.taxId);
+    this.set('taxId', taxId || undefined);
+  }
+  if (this.isModified('emails')) {
+    this.emails = normalizeList(this.emails, normalizeEmail);
+  }
+  if (this.isModified('phones')) {
+    this.phones = normalizeList(this.phones, normalizePhone);
+  }
+  if (this.isModified('tags')) {
+    this.tags = normalizeList(this.tags, tag => tag.trim().toLowerCase());
+  }
+  next();
+});
+
+// Crear el modelo
+const Customer = model<ICustomer>('Customer', CustomerSchema);
+
+export default Customer;
@@ -1,24 +1,89 @@
 import { Schema, model } from 'mongoose';
-import { IPayment } from '../types';
+import { IPayment, IPaymentModel, IPaymentRefund } from '../types';
 
-const PaymentSchema = new Schema<IPayment>({
+// Estados de un intento en curso: a lo sumo uno por presupuesto
+export const ACTIVE_PAYMENT_STATUSES: IPayment['status'][] = ['pending'];
+
+// Estados de un pago cobrado (cuentan para el monto pagado del presupuesto)
+export const SETTLED_PAYMENT_STATUSES: IPayment['status'][] = ['approved', 'partially_refunded', 'refunded'];
+
+// Esquema para los reembolsos registrados sobre un pago
+const PaymentRefundSchema = new Schema<IPaymentRefund>({
+  mercadopagoRefundId: {
+    type: String,
+    trim: true
+  },
+  amount: {
+    type: Number,
+    required: [true, 'El monto del reembolso es requerido'],
+    min: [0.01, 'El monto del reembolso debe ser mayor a 0']
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El motivo no puede exceder 500 caracteres']
+  },
+  providerStatus: {
+    type: String,
+    trim: true
+  },
+  restockedItems: [{
+    _id: false,
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'El producto es requerido']
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'La cantidad es requerida'],
+      min: [1, 'La cantidad debe ser al menos 1']
+    }
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El usuario que realizó el reembolso es requerido']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+const PaymentSchema = new Schema<IPayment, IPaymentModel>({
   quote: {
     type: Schema.Types.ObjectId,
     ref: 'Quote',
-    required: [true, 'El presupuesto es requerido'],
-    unique: true // Un pago por presupuesto
+    required: [true, 'El presupuesto es requerido']
+  },
+  attemptNumber: {
+    type: Number,
+    min: [1, 'El número de intento debe ser al menos 1'],
+    default: 1
+  },
+  provider: {
+    type: String,
+    enum: {
+      values: ['mercadopago', 'mock', 'manual'],
+      message: 'El proveedor debe ser: mercadopago, mock o manual'
+    },
+    default: 'mercadopago'
   },
+  // ID de la orden (preferencia) en el proveedor en línea
   mercadopagoId: {
     type: String,
-    required: [true, 'El ID de MercadoPago es requerido'],
+    required: [
+      function(this: IPayment) { return this.provider !== 'manual'; },
+      'El ID de MercadoPago es requerido'
+    ],
     unique: true,
+    sparse: true, // Los pagos manuales no tienen preferencia
     trim: true
   },
   status: {
     type: String,
     enum: {
-      values: ['pending', 'approved', 'rejected', 'cancelled'],
-      message: 'El estado debe ser: pending, approved, rejected o cancelled'
+      values: ['pending', 'approved', 'rejected', 'cancelled', 'expired', 'partially_refunded', 'refunded'],
+      message: 'El estado debe ser: pending, approved, rejected, cancelled, expired, partially_refunded o refunded'
     },
     default: 'pending'
   },
@@ -33,6 +98,15 @@ const PaymentSchema = new Schema<IPayment>({
       message: 'El monto debe ser un número válido mayor a 0'
     }
   },
+  refundedAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'El monto reembolsado no puede ser negativo']
+  },
+  refunds: {
+    type: [PaymentRefundSchema],
+    default: []
+  },
   paymentMethod: {
     type: String,
     trim: true,
@@ -52,10 +126,33 @@ const PaymentSchema = new Schema<IPayment>({
     trim: true,
     unique: true
   },
+  referenceNumber: {
+    type: String, // Nro. de transferencia, cheque o recibo
+    trim: true,
+    maxlength: [100, 'El número de referencia no puede exceder 100 caracteres']
+  },
+  receiptImage: {
+    type: String, // Comprobante como data URL base64
+    select: false
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User' // Usuario que registró un pago manual
+  },
+  mercadopagoPaymentId: {
+    type: String, // ID del pago en MercadoPago (distinto de la preferencia)
+    trim: true
+  },
   webhookData: {
     type: Schema.Types.Mixed, // Almacenar la data completa del webhook
     default: null
   },
+  expiresAt: {
+    type: Date // Vencimiento de la preferencia de MercadoPago
+  },
+  lastSyncedAt: {
+    type: Date // Última consulta del estado en MercadoPago
+  },
   paidAt: {
     type: Date,
     validate: {
@@ -75,21 +172,37 @@ const PaymentSchema = new Schema<IPayment>({
 PaymentSchema.index({ status: 1, createdAt: -1 });
 PaymentSchema.index({ createdAt: -1 });
 PaymentSchema.index({ paidAt: -1 });
+PaymentSchema.index({ quote: 1, attemptNumber: -1 });
+
+// Un presupuesto puede tener muchos pagos (seña y saldo), pero a lo sumo un intento en curso
+PaymentSchema.index(
+  { quote: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: 'pending' },
+    name: 'quote_pending_attempt_unique'
+  }
+);
 
-// Middleware pre-save para validar que no existe otro pago para el mismo presupuesto
+// Middleware pre-save para validar que no existe otro intento activo para el mismo presupuesto
 PaymentSchema.pre('save', async function(next) {
-  if (!this.isModified('quote') && !this.isNew) {
+  if (!this.isNew && !this.isModified('quote') && !this.isModified('status')) {
+    return next();
+  }
+
+  if (!ACTIVE_PAYMENT_STATUSES.includes(this.status)) {
     return next();
   }
 
   try {
     const existingPayment = await (this.constructor as any).findOne({
       quote: this.quote,
+      status: { $in: ACTIVE_PAYMENT_STATUSES },
       _id: { $ne: this._id }
     });
 
     if (existingPayment) {
-      const error = new Error('Ya existe un pago para este presupuesto');
+      const error = new Error('Ya existe un pago en curso para este presupuesto');
       (error as any).status = 400;
       return next(error);
     }
@@ -112,7 +225,8 @@ PaymentSchema.pre('save', function(next) {
   if (this.isModified('status')) {
     if (this.status === 'approved' && !this.paidAt) {
       this.paidAt = new Date();
-    } else if (this.status !== 'approved') {
+    } else if (!SETTLED_PAYMENT_STATUSES.includes(this.status)) {
+      // Un pago reembolsado conserva la fecha en que se cobró
       this.paidAt = null as any;
     }
   }
@@ -134,6 +248,19 @@ PaymentSchema.statics.findByStatus = function(status: string, options: any = {})
   }).populate('quote').sort({ createdAt: -1 });
 };
 
+// Método estático para obtener el intento en curso (pendiente) de un presupuesto
+PaymentSchema.statics.findActiveAttempt = function(quoteId: string) {
+  return this.findOne({
+    quote: quoteId,
+    status: { $in: ACTIVE_PAYMENT_STATUSES }
+  });
+};
+
+// Método estático para listar todos los intentos de pago de un presupuesto
+PaymentSchema.statics.findAttempts = function(quoteId: string) {
+  return this.find({ quote: quoteId }).sort({ attemptNumber: -1 });
+};
+
 // Método estático para buscar pagos pendientes antiguos (más de 1 hora)
 PaymentSchema.statics.findOldPendingPayments = function(hours: number = 1) {
   const cutoffTime = new Date();
@@ -214,6 +341,6 @@ PaymentSchema.methods.toJSON = function() {
 };
 
 // Crear el modelo
-const Payment = model<IPayment>('Payment', PaymentSchema);
+const Payment = model<IPayment, IPaymentModel>('Payment', PaymentSchema);
 
 export default Payment;
\ No newline at end of file
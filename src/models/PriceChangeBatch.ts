@@ -0,0 +1,113 @@
+import { Schema, model } from 'mongoose';
+import { IPriceChangeBatch, IPriceChangeBatchItem } from '../types';
+
+// Schema para los productos modificados por el lote
+const PriceChangeBatchItemSchema = new Schema<IPriceChangeBatchItem>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'El producto es requerido']
+  },
+  name: {
+    type: String,
+    required: [true, 'El nombre del producto es requerido']
+  },
+  sku: {
+    type: String
+  },
+  previousPrice: {
+    type: Number,
+    required: [true, 'El precio anterior es requerido'],
+    min: [0, 'El precio no puede ser negativo']
+  },
+  newPrice: {
+    type: Number,
+    required: [true, 'El precio nuevo es requerido'],
+    min: [0, 'El precio no puede ser negativo']
+  },
+  reverted: {
+    type: Boolean
+  }
+}, { _id: false });
+
+const PriceChangeBatchSchema = new Schema<IPriceChangeBatch>({
+  filters: {
+    category: { type: String, trim: true },
+    skuPattern: { type: String, trim: true },
+    search: { type: String, trim: true },
+    allProducts: { type: Boolean }
+  },
+  type: {
+    type: String,
+    enum: {
+      values: ['percent', 'fixed'],
+      message: 'El tipo de cambio debe ser: percent o fixed'
+    },
+    required: [true, 'El tipo de cambio es requerido']
+  },
+  value: {
+    type: Number,
+    required: [true, 'El valor del cambio es requerido']
+  },
+  rounding: {
+    mode: {
+      type: String,
+      enum: {
+        values: ['nearest', 'up', 'down'],
+        message: 'El redondeo debe ser: nearest, up o down'
+      },
+      default: 'nearest'
+    },
+    step: {
+      type: Number,
+      min: [0.01, 'El paso de redondeo debe ser al menos 0.01'],
+      default: 0.01
+    }
+  },
+  items: {
+    type: [PriceChangeBatchItemSchema],
+    default: []
+  },
+  productsCount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Las notas no pueden exceder 500 caracteres']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['applied', 'reverted'],
+      message: 'El estado debe ser: applied o reverted'
+    },
+    default: 'applied'
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El usuario es requerido']
+  },
+  revertedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  revertedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Índices para mejorar rendimiento
+PriceChangeBatchSchema.index({ createdAt: -1 });
+PriceChangeBatchSchema.index({ status: 1, createdAt: -1 });
+
+// Crear el modelo
+const PriceChangeBatch = model<IPriceChangeBatch>('PriceChangeBatch', PriceChangeBatchSchema);
+
+export default PriceChangeBatch;
@@ -0,0 +1,73 @@
+import { Schema, model } from 'mongoose';
+import { IPriceHistory } from '../types';
+
+const PriceHistorySchema = new Schema<IPriceHistory>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'El producto es requerido']
+  },
+  previousPrice: {
+    type: Number,
+    min: [0, 'El precio no puede ser negativo']
+    // Opcional: el registro inicial del producto no tiene precio anterior
+  },
+  price: {
+    type: Number,
+    required: [true, 'El precio es requerido'],
+    min: [0, 'El precio no puede ser negativo']
+  },
+  reason: {
+    type: String,
+    enum: {
+      values: ['initial', 'manual', 'bulk', 'revert'],
+      message: 'El motivo debe ser: initial, manual, bulk o revert'
+    },
+    required: [true, 'El motivo es requerido']
+  },
+  batch: {
+    type: Schema.Types.ObjectId,
+    ref: 'PriceChangeBatch'
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  effectiveFrom: {
+    type: Date, // Desde cuándo rige el precio (hasta el registro siguiente)
+    required: [true, 'La fecha de vigencia es requerida'],
+    default: Date.now
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false
+});
+
+// Índices para mejorar rendimiento
+PriceHistorySchema.index({ product: 1, effectiveFrom: -1 });
+PriceHistorySchema.index({ batch: 1 });
+
+// Middleware pre-save para impedir modificar cambios ya registrados
+PriceHistorySchema.pre('save', function(next) {
+  if (!this.isNew) {
+    const error = new Error('El historial de precios no se puede modificar');
+    (error as any).status = 400;
+    return next(error);
+  }
+  next();
+});
+
+// El registro es inmutable: rechazar actualizaciones y eliminaciones
+PriceHistorySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function(next) {
+    const error = new Error('El historial de precios es inmutable');
+    (error as any).status = 400;
+    next(error);
+  }
+);
+
+// Crear el modelo
+const PriceHistory = model<IPriceHistory>('PriceHistory', PriceHistorySchema);
+
+export default PriceHistory;
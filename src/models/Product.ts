@@ -26,6 +26,12 @@ const ProductSchema = new Schema<IProduct>({
       message: 'El precio debe ser un número válido'
     }
   },
+  costPrice: {
+    type: Number,
+    min: [0, 'El costo no puede ser negativo'],
+    select: false // Solo visible para administradores
+    // Opcional: sin costo no se calcula el margen de sus items
+  },
   stock: {
     type: Number,
     required: [true, 'El stock es requerido'],
@@ -37,12 +43,24 @@ const ProductSchema = new Schema<IProduct>({
       message: 'El stock debe ser un número entero no negativo'
     }
   },
+  reservedStock: {
+    type: Number,
+    min: [0, 'El stock reservado no puede ser negativo'],
+    default: 0
+    // Suma de las reservas activas (StockReservation), no se edita directamente
+  },
   category: {
     type: String,
     required: [true, 'La categoría es requerida'],
     trim: true,
     maxlength: [100, 'La categoría no puede exceder 100 caracteres']
   },
+  taxRate: {
+    type: Number,
+    min: [0, 'La alícuota no puede ser negativa'],
+    max: [100, 'La alícuota no puede ser mayor a 100%']
+    // Opcional: sin alícuota se usa la de la categoría (CATEGORY_TAX_RATES)
+  },
   sku: {
     type: String,
     unique: true,
@@ -116,9 +134,9 @@ ProductSchema.pre('save', async function(next) {
   next();
 });
 
-// Método de instancia para validar stock disponible
+// Método de instancia para validar stock disponible (descontando reservas activas)
 ProductSchema.methods.validateStock = function(quantity: number): boolean {
-  return this.stock >= quantity && quantity > 0;
+  return this.availableStock >= quantity && quantity > 0;
 };
 
 // Método de instancia para decrementar stock (operación atómica)
@@ -170,6 +188,11 @@ ProductSchema.statics.findByCategory = function(category: string, options: any =
   });
 };
 
+// Virtual para el stock disponible (stock físico menos reservas activas)
+ProductSchema.virtual('availableStock').get(function() {
+  return Math.max(0, this.stock - (this.reservedStock || 0));
+});
+
 // Virtual para indicar si el stock está bajo
 ProductSchema.virtual('isLowStock').get(function() {
   return this.stock <= 10;
@@ -1,9 +1,44 @@
 import { Schema, model } from 'mongoose';
-import { IQuote, IQuoteItem } from '../types';
+import { IQuote, IQuoteCoupon, IQuoteCustomerDecision, IQuoteDiscountApproval, IQuoteItem, IQuoteItemDiscount, IQuoteModel, IQuotePublicLink, IQuoteTaxBreakdown } from '../types';
 import Product from './Product';
+import { nextSequence } from './Counter';
+import { getQuoteNumberConfig, getQuoteCounterKey, formatQuoteNumber } from '../utils/quoteNumber';
+
+// Schema para el descuento de un item
+export const QuoteItemDiscountSchema = new Schema<IQuoteItemDiscount>({
+  type: {
+    type: String,
+    enum: {
+      values: ['percent', 'fixed'],
+      message: 'El tipo de descuento debe ser: percent o fixed'
+    },
+    required: [true, 'El tipo de descuento es requerido']
+  },
+  value: {
+    type: Number,
+    required: [true, 'El valor del descuento es requerido'],
+    min: [0, 'El descuento no puede ser negativo']
+  }
+}, { _id: false });
+
+// Schema para el detalle de impuestos por alícuota
+const QuoteTaxBreakdownSchema = new Schema<IQuoteTaxBreakdown>({
+  rate: {
+    type: Number,
+    required: true
+  },
+  taxableAmount: {
+    type: Number,
+    required: true
+  },
+  taxAmount: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
 
 // Schema para items del presupuesto
-const QuoteItemSchema = new Schema<IQuoteItem>({
+export const QuoteItemSchema = new Schema<IQuoteItem>({
   product: {
     type: Schema.Types.ObjectId,
     ref: 'Product',
@@ -18,6 +53,16 @@ const QuoteItemSchema = new Schema<IQuoteItem>({
       type: Number,
       required: [true, 'El precio del producto en snapshot es requerido'],
       min: [0, 'El precio no puede ser negativo']
+    },
+    category: {
+      type: String,
+      trim: true
+      // Opcional: los presupuestos anteriores a los cupones no la guardaban
+    },
+    costPrice: {
+      type: Number,
+      min: [0, 'El costo no puede ser negativo']
+      // Opcional: sin costo no se calcula el margen del item
     }
   },
   quantity: {
@@ -35,10 +80,190 @@ const QuoteItemSchema = new Schema<IQuoteItem>({
     type: Number,
     required: [true, 'El subtotal es requerido'],
     min: [0, 'El subtotal no puede ser negativo']
-  }
+  },
+  discount: {
+    type: QuoteItemDiscountSchema,
+    default: undefined,
+    validate: {
+      validator: function(this: IQuoteItem, discount?: IQuoteItemDiscount) {
+        if (!discount) return true;
+        if (discount.type === 'percent') return discount.value <= 100;
+        // Un descuento fijo no puede superar el total de la línea
+        return discount.value <= this.productSnapshot.price * this.quantity;
+      },
+      message: 'El descuento del item no puede superar el 100% ni el total de la línea'
+    }
+  },
+  taxRate: {
+    type: Number,
+    min: [0, 'La alícuota no puede ser negativa'],
+    max: [100, 'La alícuota no puede ser mayor a 100%']
+  },
+  // Importes calculados de la línea
+  discountAmount: { type: Number, min: 0 },
+  netAmount: { type: Number, min: 0 },
+  taxAmount: { type: Number, min: 0 },
+  total: { type: Number, min: 0 },
+  costAmount: { type: Number, min: 0 },
+  marginAmount: { type: Number } // Negativo si se vende por debajo del costo
 }, { _id: false }); // No generar _id para subdocumentos
 
-const QuoteSchema = new Schema<IQuote>({
+// Schema para el cupón aplicado al presupuesto
+const QuoteCouponSchema = new Schema<IQuoteCoupon>({
+  couponId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: [true, 'El cupón es requerido']
+  },
+  code: {
+    type: String,
+    required: [true, 'El código del cupón es requerido']
+  },
+  type: {
+    type: String,
+    enum: ['percent', 'fixed'],
+    required: true
+  },
+  value: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  minOrderAmount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  allowedCategories: {
+    type: [String],
+    default: []
+  },
+  discountAmount: {
+    type: Number,
+    min: 0
+  },
+  redeemedAt: {
+    type: Date
+  },
+  overLimit: {
+    type: Boolean
+  }
+}, { _id: false });
+
+// Schema para la aprobación de descuentos que superan el límite de quien cotiza
+const QuoteDiscountApprovalSchema = new Schema<IQuoteDiscountApproval>({
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'approved', 'rejected'],
+      message: 'El estado de la aprobación debe ser: pending, approved o rejected'
+    },
+    required: [true, 'El estado de la aprobación es requerido']
+  },
+  discountPercent: {
+    type: Number,
+    required: [true, 'El descuento a aprobar es requerido'],
+    min: 0
+  },
+  maxDiscountPercent: {
+    type: Number,
+    required: [true, 'El descuento máximo permitido es requerido'],
+    min: 0
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El usuario que solicitó la aprobación es requerido']
+  },
+  requestedAt: {
+    type: Date,
+    required: [true, 'La fecha de la solicitud es requerida']
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El comentario no puede exceder 500 caracteres']
+  }
+}, { _id: false });
+
+// Schema para el enlace público del presupuesto
+const QuotePublicLinkSchema = new Schema<IQuotePublicLink>({
+  tokenId: {
+    type: String,
+    required: [true, 'El identificador del enlace es requerido']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'El vencimiento del enlace es requerido']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El usuario que generó el enlace es requerido']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  views: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  lastViewedAt: {
+    type: Date
+  }
+}, { _id: false });
+
+// Schema para la respuesta del cliente (aceptación o rechazo)
+const QuoteCustomerDecisionSchema = new Schema<IQuoteCustomerDecision>({
+  decision: {
+    type: String,
+    enum: {
+      values: ['accepted', 'rejected'],
+      message: 'La decisión debe ser: accepted o rejected'
+    },
+    required: [true, 'La decisión es requerida']
+  },
+  name: {
+    type: String,
+    required: [true, 'El nombre de quien responde es requerido'],
+    trim: true,
+    maxlength: [200, 'El nombre no puede exceder 200 caracteres']
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El motivo no puede exceder 500 caracteres']
+  },
+  decidedAt: {
+    type: Date,
+    required: [true, 'La fecha de la respuesta es requerida']
+  },
+  ip: {
+    type: String,
+    trim: true
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El user agent no puede exceder 500 caracteres']
+  }
+}, { _id: false });
+
+const QuoteSchema = new Schema<IQuote, IQuoteModel>({
   quoteNumber: {
     type: String,
     unique: true,
@@ -76,6 +301,19 @@ const QuoteSchema = new Schema<IQuote>({
       }
     }
   },
+  customerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Customer'
+    // Opcional: los presupuestos anteriores a la ficha de clientes solo tienen la copia
+  },
+  templateId: {
+    type: Schema.Types.ObjectId,
+    ref: 'QuoteTemplate'
+  },
+  duplicatedFrom: {
+    type: Schema.Types.ObjectId,
+    ref: 'Quote'
+  },
   items: {
     type: [QuoteItemSchema],
     required: [true, 'Los items son requeridos'],
@@ -101,33 +339,104 @@ const QuoteSchema = new Schema<IQuote>({
   discount: {
     type: Number,
     min: [0, 'El descuento no puede ser negativo'],
-    max: [100, 'El descuento no puede ser mayor a 100%'],
+    default: 0,
+    validate: {
+      validator: function(this: IQuote, discount: number) {
+        return this.discountType === 'fixed' || discount <= 100;
+      },
+      message: 'El descuento no puede ser mayor a 100%'
+    }
+  },
+  discountType: {
+    type: String,
+    enum: {
+      values: ['percent', 'fixed'],
+      message: 'El tipo de descuento debe ser: percent o fixed'
+    },
+    default: 'percent'
+  },
+  coupon: {
+    type: QuoteCouponSchema,
+    default: undefined
+  },
+  discountAmount: {
+    type: Number, // Descuentos por item, cupón y descuento general
+    min: [0, 'El descuento no puede ser negativo'],
     default: 0
   },
+  taxAmount: {
+    type: Number,
+    min: [0, 'El impuesto no puede ser negativo'],
+    default: 0
+  },
+  taxBreakdown: {
+    type: [QuoteTaxBreakdownSchema],
+    default: []
+  },
   total: {
     type: Number,
     required: [true, 'El total es requerido'],
     min: [0, 'El total no puede ser negativo'],
     default: 0
   },
+  costTotal: {
+    type: Number, // Costo de los items con costo conocido
+    min: [0, 'El costo no puede ser negativo']
+  },
+  marginAmount: {
+    type: Number // Neto menos costo de esos items
+  },
+  marginPercent: {
+    type: Number // Margen sobre el neto de esos items
+  },
+  marginBelowFloor: {
+    type: Boolean,
+    default: false
+  },
+  amountPaid: {
+    type: Number, // Suma de los pagos cobrados, neta de reembolsos
+    min: [0, 'El monto pagado no puede ser negativo'],
+    default: 0
+  },
+  balanceDue: {
+    type: Number, // Se recalcula con los totales
+    min: [0, 'El saldo no puede ser negativo']
+  },
   status: {
     type: String,
     enum: {
-      values: ['pending', 'paid', 'cancelled', 'expired'],
-      message: 'El estado debe ser: pending, paid, cancelled o expired'
+      values: ['pending_approval', 'pending', 'partially_paid', 'paid', 'rejected', 'cancelled', 'expired', 'partially_refunded', 'refunded'],
+      message: 'El estado debe ser: pending_approval, pending, partially_paid, paid, rejected, cancelled, expired, partially_refunded o refunded'
     },
     default: 'pending'
   },
+  discountApproval: {
+    type: QuoteDiscountApprovalSchema,
+    default: undefined
+  },
   paymentId: {
     type: Schema.Types.ObjectId,
-    ref: 'Payment'
+    ref: 'Payment' // Último intento de pago
+  },
+  stockCommittedAt: {
+    type: Date // Momento en que la reserva se convirtió en descuento de stock
+  },
+  publicLink: {
+    type: QuotePublicLinkSchema,
+    default: undefined
+  },
+  customerDecision: {
+    type: QuoteCustomerDecisionSchema,
+    default: undefined
   },
   expiresAt: {
     type: Date,
     index: true,
     validate: {
-      validator: function(date: Date) {
+      validator: function(this: IQuote, date: Date) {
         if (!date) return true; // Permitir undefined, se genera automáticamente
+        // Solo al asignarla: un presupuesto vencido debe poder guardarse al registrar pagos o reembolsos
+        if (!this.isNew && !this.isModified('expiresAt')) return true;
         return date > new Date();
       },
       message: 'La fecha de expiración debe ser futura'
@@ -139,6 +448,14 @@ const QuoteSchema = new Schema<IQuote>({
     trim: true,
     maxlength: [1000, 'Las notas no pueden exceder 1000 caracteres']
   },
+  version: {
+    type: Number,
+    min: [1, 'La versión debe ser al menos 1'],
+    default: 1
+  },
+  expiryReminderSentAt: {
+    type: Date
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -152,15 +469,22 @@ const QuoteSchema = new Schema<IQuote>({
 // Índices para mejorar rendimiento
 QuoteSchema.index({ status: 1, createdAt: -1 });
 QuoteSchema.index({ 'customer.email': 1 });
+QuoteSchema.index({ customerId: 1, createdAt: -1 });
 QuoteSchema.index({ 'customer.name': 'text' });
 QuoteSchema.index({ createdBy: 1, status: 1 });
 QuoteSchema.index({ expiresAt: 1, status: 1 });
+QuoteSchema.index({ 'coupon.couponId': 1, customerId: 1 }, { sparse: true });
+QuoteSchema.index({ 'discountApproval.status': 1, 'discountApproval.requestedAt': 1 }, { sparse: true });
 
 // Pre-validate hook para generar campos automáticos ANTES de la validación
-QuoteSchema.pre('validate', function(next) {
+QuoteSchema.pre('validate', async function(next) {
   // Generar quoteNumber si es nuevo
   if (this.isNew && !this.quoteNumber) {
-    this.quoteNumber = this.generateQuoteNumber();
+    try {
+      this.quoteNumber = await this.generateQuoteNumber();
+    } catch (error) {
+      return next(error as Error);
+    }
   }
 
   // Generar expiresAt si es nuevo y no existe
@@ -179,39 +503,153 @@ QuoteSchema.pre('save', function(next) {
   next();
 });
 
-// Método de instancia para generar número de presupuesto
-QuoteSchema.methods.generateQuoteNumber = function(): string {
+// Método de instancia para generar número de presupuesto secuencial
+// Usa la sesión del documento para que el contador se revierta si falla el guardado
+QuoteSchema.methods.generateQuoteNumber = async function(): Promise<string> {
+  const config = getQuoteNumberConfig();
   const date = new Date();
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const random = Math.floor(Math.random() * 9999).toString().padStart(4, '0');
+  const sequence = await nextSequence(getQuoteCounterKey(date, config), this.$session());
+
+  return formatQuoteNumber(sequence, date, config);
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Descuento propio de un item (porcentaje o monto fijo, sin superar la línea)
+ */
+const getItemDiscountAmount = (item: IQuoteItem): number => {
+  if (!item.discount || item.discount.value <= 0) return 0;
+
+  const amount = item.discount.type === 'percent'
+    ? (item.subtotal * item.discount.value) / 100
+    : item.discount.value;
+
+  return Math.min(amount, item.subtotal);
+};
+
+/**
+ * Parte del cupón que corresponde a cada item (según su neto)
+ * Solo participan los items de las categorías alcanzadas; un cupón fijo no supera su neto
+ */
+const getCouponShares = (coupon: IQuoteCoupon | undefined, items: IQuoteItem[], lineBases: number[]): number[] => {
+  const shares = items.map(() => 0);
+  if (!coupon || coupon.value <= 0) return shares;
+
+  const allowedCategories = (coupon.allowedCategories || []).map(category => category.toLowerCase());
+  const isEligible = (item: IQuoteItem): boolean => allowedCategories.length === 0 ||
+    allowedCategories.includes((item.productSnapshot.category || '').toLowerCase());
+
+  const eligibleBase = items.reduce((sum, item, index) =>
+    isEligible(item) ? sum + (lineBases[index] || 0) : sum, 0);
+  if (eligibleBase <= 0) return shares;
+
+  const amount = coupon.type === 'percent'
+    ? (eligibleBase * coupon.value) / 100
+    : Math.min(coupon.value, eligibleBase);
 
-  return `QT-${year}${month}${day}-${random}`;
+  return items.map((item, index) =>
+    isEligible(item) ? (amount * (lineBases[index] || 0)) / eligibleBase : 0);
 };
 
 // Método de instancia para calcular totales
+// Orden: descuento de cada item, cupón, descuento general (% o monto fijo) y luego impuesto por alícuota
 QuoteSchema.methods.calculateTotals = function(): void {
-  // Calcular subtotal sumando todos los items
-  this.subtotal = this.items.reduce((sum: number, item: IQuoteItem) => {
+  const items: IQuoteItem[] = this.items;
+
+  // Neto de cada item después de su descuento propio
+  const lineBases = items.map(item => {
     // Actualizar subtotal del item
     item.subtotal = item.productSnapshot.price * item.quantity;
-    return sum + item.subtotal;
-  }, 0);
+    return item.subtotal - getItemDiscountAmount(item);
+  });
 
-  // Aplicar descuento
-  const discountAmount = (this.subtotal * this.discount) / 100;
-  const afterDiscount = this.subtotal - discountAmount;
+  // Calcular subtotal sumando todos los items
+  this.subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
 
-  // Aplicar impuestos
-  const taxAmount = (afterDiscount * this.tax) / 100;
+  const couponShares = getCouponShares(this.coupon, items, lineBases);
+  if (this.coupon) {
+    this.coupon.discountAmount = roundAmount(couponShares.reduce((sum, share) => sum + share, 0));
+  }
+
+  // Neto de cada alícuota después de los descuentos por item y del cupón
+  const baseByRate = new Map<number, number>();
+  items.forEach((item, index) => {
+    const rate = item.taxRate ?? this.tax;
+    const base = (lineBases[index] || 0) - (couponShares[index] || 0);
+    baseByRate.set(rate, (baseByRate.get(rate) || 0) + base);
+  });
+
+  // Un descuento general fijo se reparte en proporción al neto (sin superarlo)
+  const isFixedDiscount = this.discountType === 'fixed';
+  const totalBase = [...baseByRate.values()].reduce((sum, base) => sum + base, 0);
+  const fixedRatio = isFixedDiscount && totalBase > 0 ? Math.min(this.discount, totalBase) / totalBase : 0;
+  const keepRatio = isFixedDiscount ? 1 - fixedRatio : 1 - this.discount / 100;
+
+  // Importes de cada línea (informativos, el total se calcula por alícuota)
+  let costTotal = 0;
+  let costedNet = 0;
+  let hasCost = false;
+
+  items.forEach((item, index) => {
+    const rate = item.taxRate ?? this.tax;
+    const net = ((lineBases[index] || 0) - (couponShares[index] || 0)) * keepRatio;
+    item.discountAmount = roundAmount(item.subtotal - net);
+    item.netAmount = roundAmount(net);
+    item.taxAmount = roundAmount((net * rate) / 100);
+    item.total = roundAmount(item.netAmount + item.taxAmount);
+
+    // Margen de la línea sobre su neto, si el producto tenía costo al presupuestar
+    const costPrice = item.productSnapshot.costPrice;
+    if (costPrice !== undefined && costPrice !== null) {
+      const cost = costPrice * item.quantity;
+      item.costAmount = roundAmount(cost);
+      item.marginAmount = roundAmount(net - cost);
+      costTotal += cost;
+      costedNet += net;
+      hasCost = true;
+    }
+  });
+
+  // Margen del presupuesto (solo sobre los items con costo conocido)
+  if (hasCost) {
+    this.costTotal = roundAmount(costTotal);
+    this.marginAmount = roundAmount(costedNet - costTotal);
+    this.marginPercent = costedNet > 0 ? roundAmount(((costedNet - costTotal) / costedNet) * 100) : 0;
+  } else if (this.costTotal !== undefined) {
+    this.set('costTotal', undefined);
+    this.set('marginAmount', undefined);
+    this.set('marginPercent', undefined);
+  }
+
+  // Aplicar el descuento general y los impuestos de cada alícuota
+  let netTotal = 0;
+  let taxTotal = 0;
+  const taxBreakdown: IQuoteTaxBreakdown[] = [];
+
+  for (const [rate, base] of baseByRate) {
+    const discountAmount = isFixedDiscount ? base * fixedRatio : (base * this.discount) / 100;
+    const afterDiscount = base - discountAmount;
+    const taxAmount = (afterDiscount * rate) / 100;
+
+    netTotal += afterDiscount;
+    taxTotal += taxAmount;
+    taxBreakdown.push({ rate, taxableAmount: roundAmount(afterDiscount), taxAmount: roundAmount(taxAmount) });
+  }
+
+  this.taxBreakdown = taxBreakdown.sort((a, b) => a.rate - b.rate);
 
   // Total final
-  this.total = afterDiscount + taxAmount;
+  this.total = netTotal + taxTotal;
+  this.discountAmount = roundAmount(this.subtotal - netTotal);
+  this.taxAmount = roundAmount(taxTotal);
 
   // Redondear a 2 decimales
   this.subtotal = Math.round(this.subtotal * 100) / 100;
   this.total = Math.round(this.total * 100) / 100;
+
+  // Saldo pendiente según los pagos cobrados
+  this.balanceDue = Math.max(0, Math.round((this.total - (this.amountPaid || 0)) * 100) / 100);
 };
 
 // Método de instancia para validar stock antes de crear
@@ -250,11 +688,11 @@ QuoteSchema.statics.findExpiringQuotes = function(days: number = 1) {
   });
 };
 
-// Método estático para expirar presupuestos vencidos
+// Método estático para expirar presupuestos vencidos (incluye los que esperan aprobación)
 QuoteSchema.statics.expireOldQuotes = function() {
   return this.updateMany(
     {
-      status: 'pending',
+      status: { $in: ['pending', 'pending_approval'] },
       expiresAt: { $lte: new Date() }
     },
     {
@@ -265,7 +703,7 @@ QuoteSchema.statics.expireOldQuotes = function() {
 
 // Virtual para verificar si está expirado
 QuoteSchema.virtual('isExpired').get(function() {
-  return this.expiresAt < new Date() && this.status === 'pending';
+  return this.expiresAt < new Date() && ['pending', 'pending_approval'].includes(this.status);
 });
 
 // Virtual para días hasta expiración
@@ -280,6 +718,6 @@ QuoteSchema.set('toJSON', { virtuals: true });
 QuoteSchema.set('toObject', { virtuals: true });
 
 // Crear el modelo
-const Quote = model<IQuote>('Quote', QuoteSchema);
+const Quote = model<IQuote, IQuoteModel>('Quote', QuoteSchema);
 
 export default Quote;
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Schema, model } from 'mongoose';
+import { IQuoteRevision } from '../types';
+import { QuoteItemSchema } from './Quote';
+
+const QuoteRevisionSchema = new Schema<IQuoteRevision>({
+  quote: {
+    type: Schema.Types.ObjectId,
+    ref: 'Quote',
+    required: [true, 'El presupuesto es requerido']
+  },
+  version: {
+    type: Number,
+    required: [true, 'La versión es requerida'],
+    min: [1, 'La versión debe ser al menos 1']
+  },
+  customer: {
+    name: {
+      type: String,
+      required: [true, 'El nombre del cliente es requerido'],
+      trim: true
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true
+    },
+    phone: {
+      type: String,
+      trim: true
+    }
+  },
+  items: {
+    type: [QuoteItemSchema],
+    default: []
+  },
+  subtotal: {
+    type: Number,
+    required: [true, 'El subtotal es requerido']
+  },
+  tax: {
+    type: Number,
+    default: 0
+  },
+  discount: {
+    type: Number,
+    default: 0
+  },
+  discountType: {
+    type: String,
+    enum: ['percent', 'fixed'],
+    default: 'percent'
+  },
+  total: {
+    type: Number,
+    required: [true, 'El total es requerido']
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  expiresAt: {
+    type: Date
+  },
+  revisedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El usuario que realizó la revisión es requerido']
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El motivo no puede exceder 500 caracteres']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false
+});
+
+// Una sola revisión por versión de cada presupuesto
+QuoteRevisionSchema.index({ quote: 1, version: 1 }, { unique: true });
+
+// Crear el modelo
+const QuoteRevision = model<IQuoteRevision>('QuoteRevision', QuoteRevisionSchema);
+
+export default QuoteRevision;
@@ -0,0 +1,111 @@
+import { Schema, model } from 'mongoose';
+import { IQuoteTemplate, IQuoteTemplateItem } from '../types';
+import { QuoteItemDiscountSchema } from './Quote';
+
+// Schema para items de la plantilla (sin precios: se cotizan al usarla)
+const QuoteTemplateItemSchema = new Schema<IQuoteTemplateItem>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'El producto es requerido']
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'La cantidad es requerida'],
+    min: [1, 'La cantidad debe ser al menos 1'],
+    validate: {
+      validator: function(quantity: number) {
+        return Number.isInteger(quantity) && quantity > 0;
+      },
+      message: 'La cantidad debe ser un número entero positivo'
+    }
+  },
+  discount: {
+    type: QuoteItemDiscountSchema,
+    default: undefined
+  },
+  taxRate: {
+    type: Number,
+    min: [0, 'La alícuota no puede ser negativa'],
+    max: [100, 'La alícuota no puede ser mayor a 100%']
+  }
+}, { _id: false });
+
+const QuoteTemplateSchema = new Schema<IQuoteTemplate>({
+  name: {
+    type: String,
+    required: [true, 'El nombre de la plantilla es requerido'],
+    trim: true,
+    maxlength: [200, 'El nombre no puede exceder 200 caracteres']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'La descripción no puede exceder 500 caracteres']
+  },
+  items: {
+    type: [QuoteTemplateItemSchema],
+    required: [true, 'Los items son requeridos'],
+    validate: {
+      validator: function(items: IQuoteTemplateItem[]) {
+        return items.length > 0;
+      },
+      message: 'La plantilla debe incluir al menos un item'
+    }
+  },
+  discount: {
+    type: Number,
+    min: [0, 'El descuento no puede ser negativo'],
+    default: 0,
+    validate: {
+      validator: function(this: IQuoteTemplate, discount: number) {
+        return this.discountType === 'fixed' || discount <= 100;
+      },
+      message: 'El descuento no puede ser mayor a 100%'
+    }
+  },
+  discountType: {
+    type: String,
+    enum: {
+      values: ['percent', 'fixed'],
+      message: 'El tipo de descuento debe ser: percent o fixed'
+    },
+    default: 'percent'
+  },
+  tax: {
+    type: Number,
+    min: [0, 'El impuesto no puede ser negativo'],
+    max: [100, 'El impuesto no puede ser mayor a 100%'],
+    default: 0
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Las notas no pueden exceder 1000 caracteres']
+  },
+  isShared: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El usuario creador es requerido']
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Índices para mejorar rendimiento
+QuoteTemplateSchema.index({ createdBy: 1, isActive: 1, name: 1 });
+QuoteTemplateSchema.index({ isShared: 1, isActive: 1, name: 1 });
+
+// Crear el modelo
+const QuoteTemplate = model<IQuoteTemplate>('QuoteTemplate', QuoteTemplateSchema);
+
+export default QuoteTemplate;
@@ -0,0 +1,59 @@
+import { Schema, model } from 'mongoose';
+import { IScheduledJob } from '../types';
+
+const ScheduledJobSchema = new Schema<IScheduledJob>({
+  _id: {
+    type: String,
+    required: [true, 'El nombre de la tarea es requerido']
+  },
+  lockedBy: {
+    type: String,
+    default: null
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  lastRunAt: {
+    type: Date
+  },
+  lastFinishedAt: {
+    type: Date
+  },
+  lastDurationMs: {
+    type: Number,
+    min: [0, 'La duración no puede ser negativa']
+  },
+  lastStatus: {
+    type: String,
+    enum: {
+      values: ['success', 'failed'],
+      message: 'El estado debe ser: success o failed'
+    }
+  },
+  lastError: {
+    type: String,
+    default: null
+  },
+  lastResult: {
+    type: Schema.Types.Mixed
+  },
+  runCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'El contador de ejecuciones no puede ser negativo']
+  },
+  failureCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'El contador de fallos no puede ser negativo']
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Crear el modelo
+const ScheduledJob = model<IScheduledJob>('ScheduledJob', ScheduledJobSchema);
+
+export default ScheduledJob;
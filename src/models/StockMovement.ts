@@ -0,0 +1,87 @@
+import { Schema, model } from 'mongoose';
+import { IStockMovement } from '../types';
+
+const StockMovementSchema = new Schema<IStockMovement>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'El producto es requerido']
+  },
+  delta: {
+    type: Number,
+    required: [true, 'La variación de stock es requerida'],
+    validate: {
+      validator: function(delta: number) {
+        return Number.isInteger(delta);
+      },
+      message: 'La variación de stock debe ser un número entero'
+    }
+  },
+  previousStock: {
+    type: Number,
+    required: [true, 'El stock anterior es requerido']
+  },
+  newStock: {
+    type: Number,
+    required: [true, 'El stock nuevo es requerido'],
+    min: [0, 'El stock nuevo no puede ser negativo']
+  },
+  reason: {
+    type: String,
+    enum: {
+      values: ['manual_set', 'sale', 'cancellation', 'adjustment', 'import', 'refund'],
+      message: 'El motivo debe ser: manual_set, sale, cancellation, adjustment, import o refund'
+    },
+    required: [true, 'El motivo es requerido']
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  quote: {
+    type: Schema.Types.ObjectId,
+    ref: 'Quote'
+  },
+  payment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Payment'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Las notas no pueden exceder 500 caracteres']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false
+});
+
+// Índices para mejorar rendimiento
+StockMovementSchema.index({ product: 1, createdAt: -1 });
+StockMovementSchema.index({ quote: 1 });
+StockMovementSchema.index({ reason: 1, createdAt: -1 });
+
+// Middleware pre-save para impedir modificar movimientos ya registrados
+StockMovementSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    const error = new Error('Los movimientos de stock no se pueden modificar');
+    (error as any).status = 400;
+    return next(error);
+  }
+  next();
+});
+
+// El registro es inmutable: rechazar actualizaciones y eliminaciones
+StockMovementSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function(next) {
+    const error = new Error('Los movimientos de stock son inmutables');
+    (error as any).status = 400;
+    next(error);
+  }
+);
+
+// Crear el modelo
+const StockMovement = model<IStockMovement>('StockMovement', StockMovementSchema);
+
+export default StockMovement;
@@ -0,0 +1,70 @@
+import { Schema, model } from 'mongoose';
+import { IStockReservation } from '../types';
+
+const StockReservationSchema = new Schema<IStockReservation>({
+  reservationId: {
+    type: String,
+    required: [true, 'El ID de reserva es requerido'],
+    trim: true
+  },
+  quote: {
+    type: Schema.Types.ObjectId,
+    ref: 'Quote'
+  },
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'El producto es requerido']
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'La cantidad es requerida'],
+    min: [1, 'La cantidad debe ser al menos 1'],
+    validate: {
+      validator: function(quantity: number) {
+        return Number.isInteger(quantity) && quantity > 0;
+      },
+      message: 'La cantidad debe ser un número entero positivo'
+    }
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['active', 'released', 'expired', 'converted'],
+      message: 'El estado debe ser: active, released, expired o converted'
+    },
+    default: 'active'
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'La fecha de expiración es requerida']
+  },
+  releasedAt: {
+    type: Date
+  },
+  convertedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Índices para mejorar rendimiento
+StockReservationSchema.index({ reservationId: 1, status: 1 });
+StockReservationSchema.index({ status: 1, expiresAt: 1 });
+StockReservationSchema.index({ product: 1, status: 1 });
+
+// Virtual para verificar si está vencida pero aún no liberada
+StockReservationSchema.virtual('isExpired').get(function() {
+  return this.status === 'active' && this.expiresAt <= new Date();
+});
+
+// Incluir virtuals en JSON
+StockReservationSchema.set('toJSON', { virtuals: true });
+StockReservationSchema.set('toObject', { virtuals: true });
+
+// Crear el modelo
+const StockReservation = model<IStockReservation>('StockReservation', StockReservationSchema);
+
+export default StockReservation;
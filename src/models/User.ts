@@ -36,6 +36,12 @@ const UserSchema = new Schema<IUser>({
     },
     default: 'seller'
   },
+  maxDiscountPercent: {
+    type: Number,
+    min: [0, 'El descuento máximo no puede ser negativo'],
+    max: [100, 'El descuento máximo no puede ser mayor a 100%']
+    // Opcional: sin valor se usa el límite del rol (SELLER_MAX_DISCOUNT_PERCENT)
+  },
   isActive: {
     type: Boolean,
     default: true
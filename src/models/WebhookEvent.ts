@@ -0,0 +1,96 @@
+import { Schema, model } from 'mongoose';
+import { IWebhookEvent } from '../types';
+
+const WebhookEventSchema = new Schema<IWebhookEvent>({
+  provider: {
+    type: String,
+    required: [true, 'El proveedor es requerido'],
+    trim: true,
+    default: 'mercadopago'
+  },
+  eventKey: {
+    type: String,
+    required: [true, 'La clave del evento es requerida'],
+    unique: true, // Una sola entrada por evento: las reentregas se descartan
+    trim: true
+  },
+  eventId: {
+    type: String,
+    trim: true
+  },
+  topic: {
+    type: String,
+    required: [true, 'El tipo de evento es requerido'],
+    trim: true
+  },
+  action: {
+    type: String,
+    trim: true
+  },
+  resourceId: {
+    type: String,
+    trim: true
+  },
+  providerStatus: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['processing', 'processed', 'ignored', 'failed'],
+      message: 'El estado debe ser: processing, processed, ignored o failed'
+    },
+    default: 'processing'
+  },
+  payload: {
+    type: Schema.Types.Mixed, // Cuerpo original de la notificación
+    required: [true, 'El payload es requerido']
+  },
+  headers: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  result: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  attempts: {
+    type: Number,
+    default: 1,
+    min: [0, 'Los intentos no pueden ser negativos']
+  },
+  deliveries: {
+    type: Number,
+    default: 1,
+    min: [1, 'Las entregas deben ser al menos 1']
+  },
+  lastReceivedAt: {
+    type: Date,
+    default: Date.now
+  },
+  processedAt: {
+    type: Date
+  },
+  replayedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  versionKey: false
+});
+
+// Índices para los listados de administración
+WebhookEventSchema.index({ status: 1, createdAt: -1 });
+WebhookEventSchema.index({ topic: 1, createdAt: -1 });
+WebhookEventSchema.index({ resourceId: 1 });
+
+// Crear el modelo
+const WebhookEvent = model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
+
+export default WebhookEvent;
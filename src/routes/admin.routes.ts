@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import * as adminController from '../controllers/adminController';
+import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware';
+import {
+  mongoIdValidation,
+  paginationValidation,
+  validate
+} from '../middleware/validation.middleware';
+import { body, query } from 'express-validator';
+
+const router = Router();
+
+// Todas las rutas de administración requieren rol admin
+router.use(authMiddleware, adminMiddleware);
+
+/**
+ * GET /admin/jobs
+ * Estado de las tareas programadas en segundo plano
+ * Requiere autenticación - solo admin
+ */
+router.get('/jobs', adminController.getJobs);
+
+/**
+ * GET /admin/webhooks
+ * Listar eventos de webhook recibidos
+ * Requiere autenticación - solo admin
+ */
+router.get(
+  '/webhooks',
+  validate([
+    ...paginationValidation,
+    query('status')
+      .optional()
+      .isIn(['processing', 'processed', 'ignored', 'failed'])
+      .withMessage('El estado debe ser processing, processed, ignored o failed'),
+    query('topic')
+      .optional()
+      .trim(),
+    query('resourceId')
+      .optional()
+      .trim(),
+    query('dateFrom')
+      .optional()
+      .isISO8601()
+      .withMessage('dateFrom debe ser una fecha válida'),
+    query('dateTo')
+      .optional()
+      .isISO8601()
+      .withMessage('dateTo debe ser una fecha válida')
+  ]),
+  adminController.getWebhookEvents
+);
+
+/**
+ * GET /admin/webhooks/:id
+ * Obtener un evento de webhook con payload y headers
+ * Requiere autenticación - solo admin
+ */
+router.get(
+  '/webhooks/:id',
+  validate(mongoIdValidation()),
+  adminController.getWebhookEventById
+);
+
+/**
+ * POST /admin/webhooks/:id/replay
+ * Reprocesar un evento fallido (?force=true para reprocesar cualquier evento)
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/webhooks/:id/replay',
+  validate([
+    ...mongoIdValidation(),
+    query('force')
+      .optional()
+      .isBoolean()
+      .withMessage('force debe ser verdadero o falso')
+  ]),
+  adminController.replayWebhookEvent
+);
+
+/**
+ * PUT /admin/users/:id/discount-limit
+ * Descuento máximo sin aprobación de un usuario (null para usar el límite del rol)
+ * Requiere autenticación - solo admin
+ */
+router.put(
+  '/users/:id/discount-limit',
+  validate([
+    ...mongoIdValidation(),
+    body('maxDiscountPercent')
+      .exists()
+      .withMessage('maxDiscountPercent es requerido')
+      .bail()
+      .custom(value => value === null || (typeof value === 'number' && value >= 0 && value <= 100))
+      .withMessage('maxDiscountPercent debe ser un número entre 0 y 100 o null')
+  ]),
+  adminController.updateUserDiscountLimit
+);
+
+/**
+ * POST /admin/migrations/payment-indexes
+ * Eliminar los índices antiguos de pagos (?dryRun=true para solo informarlos)
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/migrations/payment-indexes',
+  validate([
+    query('dryRun')
+      .optional()
+      .isBoolean()
+      .withMessage('dryRun debe ser verdadero o falso')
+  ]),
+  adminController.migratePaymentIndexes
+);
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import * as couponController from '../controllers/couponController';
+import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware';
+import {
+  createCouponValidation,
+  updateCouponValidation,
+  couponFiltersValidation,
+  mongoIdValidation,
+  validate
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Todas las rutas de cupones requieren autenticación
+router.use(authMiddleware);
+
+/**
+ * GET /coupons
+ * Listar cupones con búsqueda por código o descripción
+ * Requiere autenticación
+ */
+router.get(
+  '/',
+  validate(couponFiltersValidation),
+  couponController.getCoupons
+);
+
+/**
+ * POST /coupons
+ * Crear cupón
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/',
+  adminMiddleware,
+  validate(createCouponValidation),
+  couponController.createCoupon
+);
+
+/**
+ * GET /coupons/:id
+ * Obtener cupón por ID
+ * Requiere autenticación
+ */
+router.get(
+  '/:id',
+  validate(mongoIdValidation()),
+  couponController.getCouponById
+);
+
+/**
+ * PUT /coupons/:id
+ * Actualizar cupón
+ * Requiere autenticación - solo admin
+ */
+router.put(
+  '/:id',
+  adminMiddleware,
+  validate(updateCouponValidation),
+  couponController.updateCoupon
+);
+
+/**
+ * DELETE /coupons/:id
+ * Desactivar cupón (soft delete)
+ * Requiere autenticación - solo admin
+ */
+router.delete(
+  '/:id',
+  adminMiddleware,
+  validate(mongoIdValidation()),
+  couponController.deleteCoupon
+);
+
+export default router;
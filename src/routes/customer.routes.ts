@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import * as customerController from '../controllers/customerController';
+import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware';
+import {
+  createCustomerValidation,
+  updateCustomerValidation,
+  customerFiltersValidation,
+  mongoIdValidation,
+  paginationValidation,
+  validate
+} from '../middleware/validation.middleware';
+import { query } from 'express-validator';
+
+const router = Router();
+
+// Todas las rutas de clientes requieren autenticación
+router.use(authMiddleware);
+
+/**
+ * GET /customers
+ * Listar clientes con búsqueda por nombre, CUIT, email o teléfono
+ * Requiere autenticación
+ */
+router.get(
+  '/',
+  validate(customerFiltersValidation),
+  customerController.getCustomers
+);
+
+/**
+ * POST /customers
+ * Crear cliente
+ * Requiere autenticación
+ */
+router.post(
+  '/',
+  validate(createCustomerValidation),
+  customerController.createCustomer
+);
+
+/**
+ * POST /customers/migrate-from-quotes
+ * Crear clientes desde los presupuestos existentes (?dryRun=true para solo analizar)
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/migrate-from-quotes',
+  adminMiddleware,
+  validate([
+    query('dryRun')
+      .optional()
+      .isIn(['true', 'false'])
+      .withMessage('dryRun debe ser true o false')
+  ]),
+  customerController.migrateCustomersFromQuotes
+);
+
+/**
+ * GET /customers/:id
+ * Obtener cliente por ID
+ * Requiere autenticación
+ */
+router.get(
+  '/:id',
+  validate(mongoIdValidation()),
+  customerController.getCustomerById
+);
+
+/**
+ * GET /customers/:id/summary
+ * Historial de compras y pagos del cliente
+ * Requiere autenticación
+ */
+router.get(
+  '/:id/summary',
+  validate(mongoIdValidation()),
+  customerController.getCustomerSummary
+);
+
+/**
+ * GET /customers/:id/statement
+ * Exportar estado de cuenta (?format=pdf|csv, ?download=true para forzar descarga del PDF)
+ * Requiere autenticación
+ */
+router.get(
+  '/:id/statement',
+  validate([
+    ...mongoIdValidation(),
+    query('format')
+      .optional()
+      .isIn(['pdf', 'csv'])
+      .withMessage('format debe ser pdf o csv'),
+    query('download')
+      .optional()
+      .isIn(['true', 'false'])
+      .withMessage('download debe ser true o false')
+  ]),
+  customerController.getCustomerStatement
+);
+
+/**
+ * GET /customers/:id/quotes
+ * Presupuestos del cliente
+ * Requiere autenticación
+ */
+router.get(
+  '/:id/quotes',
+  validate([...mongoIdValidation(), ...paginationValidation]),
+  customerController.getCustomerQuotes
+);
+
+/**
+ * PUT /customers/:id
+ * Actualizar cliente
+ * Requiere autenticación
+ */
+router.put(
+  '/:id',
+  validate(updateCustomerValidation),
+  customerController.updateCustomer
+);
+
+/**
+ * DELETE /customers/:id
+ * Eliminar cliente (soft delete)
+ * Requiere autenticación - solo admin
+ */
+router.delete(
+  '/:id',
+  adminMiddleware,
+  validate(mongoIdValidation()),
+  customerController.deleteCustomer
+);
+
+export default router;
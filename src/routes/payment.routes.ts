@@ -3,6 +3,9 @@ import * as paymentController from '../controllers/paymentController';
 import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware';
 import {
   createPaymentValidation,
+  manualPaymentValidation,
+  refundPaymentValidation,
+  simulatePaymentValidation,
   mongoIdValidation,
   paginationValidation,
   validate
@@ -55,8 +58,8 @@ router.get(
     ...paginationValidation,
     query('status')
       .optional()
-      .isIn(['pending', 'approved', 'rejected', 'cancelled'])
-      .withMessage('El estado debe ser pending, approved, rejected o cancelled'),
+      .isIn(['pending', 'approved', 'rejected', 'cancelled', 'expired', 'partially_refunded', 'refunded'])
+      .withMessage('El estado debe ser pending, approved, rejected, cancelled, expired, partially_refunded o refunded'),
     query('dateFrom')
       .optional()
       .isISO8601()
@@ -95,6 +98,85 @@ router.get(
   paymentController.getPaymentStats
 );
 
+/**
+ * POST /payments/manual
+ * Registrar un pago en efectivo, transferencia o cheque
+ * Requiere autenticación (admin o vendedor del presupuesto)
+ */
+router.post(
+  '/manual',
+  authMiddleware,
+  validate(manualPaymentValidation),
+  paymentController.createManualPayment
+);
+
+/**
+ * GET /payments/:paymentId/receipt
+ * Comprobante adjunto a un pago manual
+ * Requiere autenticación
+ */
+router.get(
+  '/:paymentId/receipt',
+  authMiddleware,
+  validate(mongoIdValidation('paymentId')),
+  paymentController.getPaymentReceipt
+);
+
+/**
+ * GET /payments/quote/:quoteId
+ * Historial de intentos de pago de un presupuesto
+ * Requiere autenticación
+ */
+router.get(
+  '/quote/:quoteId',
+  authMiddleware,
+  validate(mongoIdValidation('quoteId')),
+  paymentController.getQuotePayments
+);
+
+/**
+ * POST /payments/:paymentId/sync
+ * Sincronizar el estado del pago consultando a su proveedor
+ * Requiere autenticación
+ */
+router.post(
+  '/:paymentId/sync',
+  authMiddleware,
+  validate(mongoIdValidation('paymentId')),
+  paymentController.syncPayment
+);
+
+/**
+ * POST /payments/:paymentId/simulate
+ * Simular el resultado de un pago del proveedor simulado y emitir su webhook
+ * Requiere autenticación - no disponible en producción
+ */
+router.post(
+  '/:paymentId/simulate',
+  authMiddleware,
+  validate([
+    ...mongoIdValidation('paymentId'),
+    ...simulatePaymentValidation
+  ]),
+  paymentController.simulatePayment
+);
+
+/**
+ * POST /payments/:paymentId/refund
+ * Reembolsar un pago aprobado (total o parcial), con devolución opcional de stock
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/:paymentId/refund',
+  authMiddleware,
+  adminMiddleware,
+  validate([
+    ...mongoIdValidation('paymentId'),
+    ...refundPaymentValidation
+  ]),
+  paymentController.refundPayment
+);
+
 /**
  * POST /payments/:paymentId/cancel
  * Cancelar un pago pendiente
@@ -1,11 +1,14 @@
 import { Router } from 'express';
 import * as productController from '../controllers/productController';
-import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware';
+import { authMiddleware, adminMiddleware, optionalAuthMiddleware } from '../middleware/auth.middleware';
 import {
   createProductValidation,
   updateProductValidation,
   mongoIdValidation,
   productFiltersValidation,
+  bulkPriceChangeValidation,
+  priceBatchFiltersValidation,
+  priceHistoryValidation,
   validate
 } from '../middleware/validation.middleware';
 import { body, query } from 'express-validator';
@@ -15,10 +18,11 @@ const router = Router();
 /**
  * GET /products
  * Listar productos con filtros y paginación
- * Público - no requiere autenticación
+ * Público - no requiere autenticación (los admins ven además el costo)
  */
 router.get(
   '/',
+  optionalAuthMiddleware,
   validate(productFiltersValidation),
   productController.getProducts
 );
@@ -83,6 +87,76 @@ router.get(
   productController.getLowStockProducts
 );
 
+/**
+ * GET /products/stock-reconciliation
+ * Comparar el stock actual con el registro de movimientos
+ * Requiere autenticación - solo admin
+ */
+router.get(
+  '/stock-reconciliation',
+  authMiddleware,
+  adminMiddleware,
+  validate([
+    query('productId')
+      .optional()
+      .isMongoId()
+      .withMessage('ID de producto inválido')
+  ]),
+  productController.getStockReconciliation
+);
+
+/**
+ * POST /products/bulk-price
+ * Cambio masivo de precios (?dryRun=true para previsualizar)
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/bulk-price',
+  authMiddleware,
+  adminMiddleware,
+  validate(bulkPriceChangeValidation),
+  productController.bulkUpdatePrices
+);
+
+/**
+ * GET /products/price-batches
+ * Listar lotes de cambio de precios
+ * Requiere autenticación - solo admin
+ */
+router.get(
+  '/price-batches',
+  authMiddleware,
+  adminMiddleware,
+  validate(priceBatchFiltersValidation),
+  productController.getPriceBatches
+);
+
+/**
+ * GET /products/price-batches/:id
+ * Obtener lote de cambio de precios
+ * Requiere autenticación - solo admin
+ */
+router.get(
+  '/price-batches/:id',
+  authMiddleware,
+  adminMiddleware,
+  validate(mongoIdValidation()),
+  productController.getPriceBatchById
+);
+
+/**
+ * POST /products/price-batches/:id/revert
+ * Revertir lote de cambio de precios
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/price-batches/:id/revert',
+  authMiddleware,
+  adminMiddleware,
+  validate(mongoIdValidation()),
+  productController.revertPriceBatch
+);
+
 /**
  * POST /products
  * Crear nuevo producto
@@ -99,10 +173,11 @@ router.post(
 /**
  * GET /products/:id
  * Obtener producto por ID
- * Público - no requiere autenticación
+ * Público - no requiere autenticación (los admins ven además el costo)
  */
 router.get(
   '/:id',
+  optionalAuthMiddleware,
   validate(mongoIdValidation()),
   productController.getProductById
 );
@@ -151,9 +226,55 @@ router.put(
     body('operation')
       .optional()
       .isIn(['set', 'increment', 'decrement'])
-      .withMessage('La operación debe ser set, increment o decrement')
+      .withMessage('La operación debe ser set, increment o decrement'),
+    body('reason')
+      .optional()
+      .isIn(['adjustment', 'import'])
+      .withMessage('El motivo debe ser adjustment o import'),
+    body('notes')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Las notas no pueden exceder 500 caracteres')
   ]),
   productController.updateStock
 );
 
+/**
+ * GET /products/:id/price-history
+ * Historial de precios de un producto (?at= para el precio vigente en una fecha)
+ * Requiere autenticación
+ */
+router.get(
+  '/:id/price-history',
+  authMiddleware,
+  validate(priceHistoryValidation),
+  productController.getPriceHistory
+);
+
+/**
+ * GET /products/:id/stock-movements
+ * Historial de movimientos de stock de un producto
+ * Requiere autenticación - solo admin
+ */
+router.get(
+  '/:id/stock-movements',
+  authMiddleware,
+  adminMiddleware,
+  validate([
+    ...mongoIdValidation(),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('La página debe ser un número entero positivo')
+      .toInt(),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('El límite debe ser un número entre 1 y 100')
+      .toInt()
+  ]),
+  productController.getStockMovements
+);
+
 export default router;
\ No newline at end of file
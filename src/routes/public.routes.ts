@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import * as publicQuoteController from '../controllers/publicQuoteController';
+import {
+  publicQuoteTokenValidation,
+  acceptPublicQuoteValidation,
+  rejectPublicQuoteValidation,
+  validate
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Límite más estricto para las acciones del cliente (sin autenticación)
+const publicActionLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 20,
+  message: {
+    success: false,
+    message: 'Demasiadas solicitudes, intente nuevamente más tarde',
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED'
+    }
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+/**
+ * GET /public/quotes/:token
+ * Ver presupuesto desde el enlace compartido con el cliente
+ * Público - el token firmado identifica al presupuesto
+ */
+router.get(
+  '/quotes/:token',
+  validate(publicQuoteTokenValidation),
+  publicQuoteController.getPublicQuote
+);
+
+/**
+ * POST /public/quotes/:token/accept
+ * Aceptar presupuesto (registra nombre, email, IP y fecha)
+ * Público
+ */
+router.post(
+  '/quotes/:token/accept',
+  publicActionLimiter,
+  validate(acceptPublicQuoteValidation),
+  publicQuoteController.acceptPublicQuote
+);
+
+/**
+ * POST /public/quotes/:token/reject
+ * Rechazar presupuesto indicando el motivo
+ * Público
+ */
+router.post(
+  '/quotes/:token/reject',
+  publicActionLimiter,
+  validate(rejectPublicQuoteValidation),
+  publicQuoteController.rejectPublicQuote
+);
+
+/**
+ * POST /public/quotes/:token/pay
+ * Crear o reutilizar la orden de pago del presupuesto aceptado
+ * Público
+ */
+router.post(
+  '/quotes/:token/pay',
+  publicActionLimiter,
+  validate(publicQuoteTokenValidation),
+  publicQuoteController.payPublicQuote
+);
+
+export default router;
@@ -3,8 +3,13 @@ import * as quoteController from '../controllers/quoteController';
 import { authMiddleware, adminMiddleware } from '../middleware/auth.middleware';
 import {
   createQuoteValidation,
+  createQuoteFromTemplateValidation,
+  updateQuoteValidation,
   mongoIdValidation,
+  paginationValidation,
   quoteFiltersValidation,
+  approveQuoteDiscountValidation,
+  rejectQuoteDiscountValidation,
   validate
 } from '../middleware/validation.middleware';
 import { query, param } from 'express-validator';
@@ -35,6 +40,18 @@ router.post(
   quoteController.createQuote
 );
 
+/**
+ * POST /quotes/from-template/:templateId
+ * Crear presupuesto desde una plantilla (precios y stock actuales)
+ * Requiere autenticación
+ */
+router.post(
+  '/from-template/:templateId',
+  authMiddleware,
+  validate(createQuoteFromTemplateValidation),
+  quoteController.createQuoteFromTemplate
+);
+
 /**
  * GET /quotes/stats
  * Obtener estadísticas de presupuestos
@@ -77,6 +94,19 @@ router.get(
   quoteController.getExpiringQuotes
 );
 
+/**
+ * GET /quotes/approvals
+ * Presupuestos con descuentos pendientes de aprobación
+ * Requiere autenticación - solo admin
+ */
+router.get(
+  '/approvals',
+  authMiddleware,
+  adminMiddleware,
+  validate(paginationValidation),
+  quoteController.getPendingApprovals
+);
+
 /**
  * POST /quotes/expire-old
  * Expirar presupuestos antiguos (tarea de mantenimiento)
@@ -89,6 +119,24 @@ router.post(
   quoteController.expireOldQuotes
 );
 
+/**
+ * POST /quotes/numbering/backfill
+ * Sincronizar contadores de numeración y reportar colisiones (?dryRun=true para solo analizar)
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/numbering/backfill',
+  authMiddleware,
+  adminMiddleware,
+  validate([
+    query('dryRun')
+      .optional()
+      .isIn(['true', 'false'])
+      .withMessage('dryRun debe ser true o false')
+  ]),
+  quoteController.backfillQuoteNumbers
+);
+
 /**
  * GET /quotes/customer/:email
  * Obtener presupuestos por email del cliente
@@ -118,6 +166,60 @@ router.get(
   quoteController.getQuoteById
 );
 
+/**
+ * PUT /quotes/:id
+ * Editar presupuesto pendiente (guarda la versión anterior)
+ * Requiere autenticación
+ */
+router.put(
+  '/:id',
+  authMiddleware,
+  validate(updateQuoteValidation),
+  quoteController.updateQuote
+);
+
+/**
+ * GET /quotes/:id/revisions
+ * Obtener historial de versiones del presupuesto
+ * Requiere autenticación
+ */
+router.get(
+  '/:id/revisions',
+  authMiddleware,
+  validate(mongoIdValidation()),
+  quoteController.getQuoteRevisions
+);
+
+/**
+ * GET /quotes/:id/pdf
+ * Descargar presupuesto en PDF (?download=true para forzar descarga)
+ * Requiere autenticación
+ */
+router.get(
+  '/:id/pdf',
+  authMiddleware,
+  validate([
+    ...mongoIdValidation(),
+    query('download')
+      .optional()
+      .isIn(['true', 'false'])
+      .withMessage('download debe ser true o false')
+  ]),
+  quoteController.getQuotePdf
+);
+
+/**
+ * POST /quotes/:id/duplicate
+ * Duplicar presupuesto con precios actuales
+ * Requiere autenticación
+ */
+router.post(
+  '/:id/duplicate',
+  authMiddleware,
+  validate(mongoIdValidation()),
+  quoteController.duplicateQuote
+);
+
 /**
  * PUT /quotes/:id/cancel
  * Cancelar presupuesto
@@ -130,4 +232,54 @@ router.put(
   quoteController.cancelQuote
 );
 
+/**
+ * POST /quotes/:id/approve
+ * Aprobar el descuento de un presupuesto (comentario opcional)
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/:id/approve',
+  authMiddleware,
+  adminMiddleware,
+  validate(approveQuoteDiscountValidation),
+  quoteController.approveQuoteDiscount
+);
+
+/**
+ * POST /quotes/:id/reject
+ * Rechazar el descuento de un presupuesto con un comentario
+ * Requiere autenticación - solo admin
+ */
+router.post(
+  '/:id/reject',
+  authMiddleware,
+  adminMiddleware,
+  validate(rejectQuoteDiscountValidation),
+  quoteController.rejectQuoteDiscount
+);
+
+/**
+ * POST /quotes/:id/public-link
+ * Generar enlace público para el cliente (invalida el anterior)
+ * Requiere autenticación
+ */
+router.post(
+  '/:id/public-link',
+  authMiddleware,
+  validate(mongoIdValidation()),
+  quoteController.createPublicLink
+);
+
+/**
+ * DELETE /quotes/:id/public-link
+ * Revocar el enlace público vigente
+ * Requiere autenticación
+ */
+router.delete(
+  '/:id/public-link',
+  authMiddleware,
+  validate(mongoIdValidation()),
+  quoteController.revokePublicLink
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import * as quoteTemplateController from '../controllers/quoteTemplateController';
+import { authMiddleware } from '../middleware/auth.middleware';
+import {
+  createQuoteTemplateValidation,
+  updateQuoteTemplateValidation,
+  quoteTemplateFiltersValidation,
+  mongoIdValidation,
+  validate
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Todas las rutas de plantillas requieren autenticación
+router.use(authMiddleware);
+
+/**
+ * GET /quote-templates
+ * Listar plantillas propias y compartidas
+ * Requiere autenticación
+ */
+router.get(
+  '/',
+  validate(quoteTemplateFiltersValidation),
+  quoteTemplateController.getQuoteTemplates
+);
+
+/**
+ * POST /quote-templates
+ * Crear plantilla de presupuesto
+ * Requiere autenticación
+ */
+router.post(
+  '/',
+  validate(createQuoteTemplateValidation),
+  quoteTemplateController.createQuoteTemplate
+);
+
+/**
+ * GET /quote-templates/:id
+ * Obtener plantilla por ID con los precios y el stock actuales
+ * Requiere autenticación
+ */
+router.get(
+  '/:id',
+  validate(mongoIdValidation()),
+  quoteTemplateController.getQuoteTemplateById
+);
+
+/**
+ * PUT /quote-templates/:id
+ * Actualizar plantilla
+ * Requiere autenticación - solo el creador o un admin
+ */
+router.put(
+  '/:id',
+  validate(updateQuoteTemplateValidation),
+  quoteTemplateController.updateQuoteTemplate
+);
+
+/**
+ * DELETE /quote-templates/:id
+ * Desactivar plantilla (soft delete)
+ * Requiere autenticación - solo el creador o un admin
+ */
+router.delete(
+  '/:id',
+  validate(mongoIdValidation()),
+  quoteTemplateController.deleteQuoteTemplate
+);
+
+export default router;
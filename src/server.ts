@@ -5,15 +5,22 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { connectDB } from './config/database';
-import { initializeMercadoPago } from './config/mercadopago';
+import { initializePaymentProvider } from './services/paymentProvider.service';
+import { initializeNotifier } from './services/notifier.service';
 import { logger } from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { startScheduledJobs } from './services/scheduler.service';
 
 // Importar rutas
 import authRoutes from './routes/auth.routes';
 import productRoutes from './routes/product.routes';
 import quoteRoutes from './routes/quote.routes';
+import customerRoutes from './routes/customer.routes';
+import couponRoutes from './routes/coupon.routes';
+import quoteTemplateRoutes from './routes/quoteTemplate.routes';
 import paymentRoutes from './routes/payment.routes';
+import adminRoutes from './routes/admin.routes';
+import publicRoutes from './routes/public.routes';
 
 // Cargar variables de entorno
 dotenv.config();
@@ -117,7 +124,12 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/quotes', quoteRoutes);
+app.use('/api/customers', customerRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/quote-templates', quoteTemplateRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/public', publicRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -142,8 +154,11 @@ const startServer = async (): Promise<void> => {
     // Conectar a MongoDB
     await connectDB();
 
-    // Inicializar MercadoPago
-    await initializeMercadoPago();
+    // Inicializar el proveedor de pagos (MercadoPago o simulado)
+    initializePaymentProvider();
+
+    // Inicializar el canal de notificaciones a clientes (recordatorios)
+    initializeNotifier();
 
     // Iniciar servidor
     const server = app.listen(PORT, () => {
@@ -153,10 +168,15 @@ const startServer = async (): Promise<void> => {
       logger.info(`📋 Health check: http://localhost:${PORT}/health`);
     });
 
+    // Iniciar tareas programadas (expiración, pagos pendientes, recordatorios)
+    const scheduler = startScheduledJobs();
+
     // Manejo de señales para cierre graceful
     const gracefulShutdown = (signal: string) => {
       logger.info(`📯 Recibida señal ${signal}, cerrando servidor gracefully...`);
 
+      scheduler.stop();
+
       server.close((err) => {
         if (err) {
           logger.error('Error cerrando servidor:', err);
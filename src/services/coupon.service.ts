@@ -0,0 +1,186 @@
+import Coupon from '../models/Coupon';
+import Quote from '../models/Quote';
+import { logger } from '../utils/logger';
+import { ICoupon, IQuote, IQuoteCoupon, IQuoteItem } from '../types';
+
+/**
+ * Resultado de validar un cupón para un presupuesto
+ */
+export interface CouponValidationResult {
+  success: boolean;
+  message: string;
+  coupon?: ICoupon;
+  snapshot?: IQuoteCoupon;
+}
+
+/**
+ * Condiciones del cupón que dependen de los items del presupuesto
+ */
+type CouponConditions = Pick<IQuoteCoupon, 'minOrderAmount' | 'allowedCategories'>;
+
+/**
+ * Servicio de cupones de descuento
+ *
+ * Los cupones se validan al crear el presupuesto y se guarda una copia de sus
+ * condiciones; el uso se cuenta recién cuando el presupuesto queda pagado.
+ */
+class CouponService {
+  /**
+   * Normalizar un código de cupón (sin espacios y en mayúsculas)
+   */
+  normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Verificar el monto mínimo y las categorías alcanzadas
+   * Devuelve el motivo por el que no aplica, o null si aplica
+   */
+  checkConditions(conditions: CouponConditions, items: IQuoteItem[]): string | null {
+    const subtotal = items.reduce((sum, item) => sum + item.productSnapshot.price * item.quantity, 0);
+
+    if (conditions.minOrderAmount > 0 && subtotal < conditions.minOrderAmount) {
+      return `El cupón requiere un subtotal mínimo de ${conditions.minOrderAmount}`;
+    }
+
+    const allowedCategories = (conditions.allowedCategories || []).map(category => category.toLowerCase());
+
+    if (allowedCategories.length > 0) {
+      const hasEligibleItem = items.some(item =>
+        allowedCategories.includes((item.productSnapshot.category || '').toLowerCase())
+      );
+
+      if (!hasEligibleItem) {
+        return 'Ningún producto del presupuesto pertenece a las categorías del cupón';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validar un cupón para los items de un presupuesto nuevo
+   */
+  async validateForQuote(
+    code: string,
+    context: { items: IQuoteItem[]; customerId?: string }
+  ): Promise<CouponValidationResult> {
+    const coupon = await Coupon.findOne({ code: this.normalizeCode(code), isActive: true });
+
+    if (!coupon) {
+      return { success: false, message: 'El cupón no existe o no está activo' };
+    }
+
+    const now = new Date();
+
+    if (coupon.validFrom && coupon.validFrom > now) {
+      return { success: false, message: 'El cupón todavía no está vigente' };
+    }
+
+    if (coupon.validUntil && coupon.validUntil <= now) {
+      return { success: false, message: 'El cupón está vencido' };
+    }
+
+    if (coupon.maxUses && coupon.usesCount >= coupon.maxUses) {
+      return { success: false, message: 'El cupón alcanzó su límite de usos' };
+    }
+
+    if (coupon.maxUsesPerCustomer && context.customerId) {
+      const customerUses = await Quote.countDocuments({
+        'coupon.couponId': coupon._id,
+        'coupon.redeemedAt': { $exists: true },
+        customerId: context.customerId
+      });
+
+      if (customerUses >= coupon.maxUsesPerCustomer) {
+        return { success: false, message: 'El cliente ya alcanzó el límite de usos de este cupón' };
+      }
+    }
+
+    const conditionsError = this.checkConditions(coupon, context.items);
+    if (conditionsError) {
+      return { success: false, message: conditionsError };
+    }
+
+    return {
+      success: true,
+      message: 'Cupón válido',
+      coupon,
+      snapshot: {
+        couponId: coupon._id,
+        code: coupon.code,
+        type: coupon.type,
+        value: coupon.value,
+        minOrderAmount: coupon.minOrderAmount,
+        allowedCategories: [...coupon.allowedCategories]
+      }
+    };
+  }
+
+  /**
+   * Contar el uso del cupón de un presupuesto pagado
+   * Se marca el presupuesto primero para no contar dos veces el mismo uso
+   *
+   * Los presupuestos pendientes no consumen usos, por lo que varios pueden pagarse
+   * cuando quedaba uno solo. El uso se cuenta únicamente si no supera maxUses; los
+   * demás presupuestos conservan el descuento ya cobrado y quedan marcados con
+   * coupon.overLimit para revisarlos.
+   */
+  async redeemForQuote(quote: IQuote): Promise<boolean> {
+    if (!quote.coupon || quote.status !== 'paid') {
+      return false;
+    }
+
+    const claim = await Quote.updateOne(
+      { _id: quote._id, 'coupon.couponId': quote.coupon.couponId, 'coupon.redeemedAt': { $exists: false } },
+      { $set: { 'coupon.redeemedAt': new Date() } }
+    );
+
+    if (claim.modifiedCount === 0) {
+      return false;
+    }
+
+    const redeemed = await Coupon.updateOne(
+      {
+        _id: quote.coupon.couponId,
+        $or: [{ maxUses: null }, { $expr: { $lt: ['$usesCount', '$maxUses'] } }]
+      },
+      { $inc: { usesCount: 1 } }
+    );
+
+    if (redeemed.modifiedCount === 0) {
+      await Quote.updateOne({ _id: quote._id }, { $set: { 'coupon.overLimit': true } });
+
+      logger.warn('Presupuesto pagado con un cupón sin usos disponibles', {
+        quoteId: quote._id,
+        couponId: quote.coupon.couponId,
+        code: quote.coupon.code
+      });
+
+      return false;
+    }
+
+    logger.info('Uso de cupón registrado', {
+      quoteId: quote._id,
+      couponId: quote.coupon.couponId,
+      code: quote.coupon.code
+    });
+
+    return true;
+  }
+}
+
+// Crear instancia singleton
+let couponService: CouponService;
+
+/**
+ * Obtener instancia del servicio de cupones
+ */
+export const getCouponService = (): CouponService => {
+  if (!couponService) {
+    couponService = new CouponService();
+  }
+  return couponService;
+};
+
+export default CouponService;
@@ -0,0 +1,558 @@
+import { ClientSession, Types } from 'mongoose';
+import Customer from '../models/Customer';
+import Quote from '../models/Quote';
+import Payment, { SETTLED_PAYMENT_STATUSES } from '../models/Payment';
+import { logger } from '../utils/logger';
+import { normalizeEmail, toCustomerPhones } from '../utils/customerContact';
+import { ICustomer, IPayment, IQuote } from '../types';
+
+/**
+ * Datos del cliente copiados en el presupuesto
+ */
+export type CustomerSnapshot = IQuote['customer'];
+
+/**
+ * Resultado de resolver el cliente de un presupuesto
+ */
+export interface QuoteCustomerResolution {
+  success: boolean;
+  message: string;
+  customer?: ICustomer;
+  snapshot?: CustomerSnapshot;
+  // Cliente nuevo todavía sin guardar: se registra con createResolvedCustomer
+  created?: boolean;
+}
+
+/**
+ * Reporte de la migración de clientes desde los presupuestos existentes
+ */
+export interface CustomerMigrationReport {
+  dryRun: boolean;
+  quotesScanned: number;
+  quotesLinked: number;
+  customersCreated: number;
+  matchedExisting: number;
+  // Presupuestos sin email ni teléfono válido: no se pueden deduplicar con seguridad
+  skippedWithoutContact: number;
+  // Presupuestos cuyo cliente no se pudo registrar (datos inválidos)
+  skippedInvalid: number;
+  // Teléfonos descartados por vacíos o inválidos
+  droppedPhones: number;
+  skippedQuoteIds: string[];
+}
+
+/**
+ * Resumen histórico de compras y pagos de un cliente
+ */
+export interface CustomerSummary {
+  customer: {
+    id: string;
+    name: string;
+    taxId?: string;
+    emails: string[];
+    phones: string[];
+  };
+  quotes: {
+    count: number;
+    byStatus: Array<{ status: IQuote['status']; count: number; totalAmount: number }>;
+    list: Array<{
+      id: string;
+      quoteNumber: string;
+      status: IQuote['status'];
+      total: number;
+      amountPaid: number;
+      balanceDue: number;
+      createdAt: Date;
+    }>;
+  };
+  payments: {
+    count: number;
+    byStatus: Array<{ status: IPayment['status']; count: number; totalAmount: number }>;
+    // Pagos cobrados (aprobados o reembolsados), del más reciente al más antiguo
+    list: Array<{
+      id: string;
+      quoteNumber: string;
+      provider: IPayment['provider'];
+      paymentMethod?: string;
+      status: IPayment['status'];
+      amount: number;
+      refundedAmount: number;
+      paidAt: Date;
+    }>;
+  };
+  totals: {
+    totalQuoted: number;
+    totalPaid: number;
+    totalRefunded: number;
+    outstandingBalance: number;
+    purchasesCount: number;
+    averageTicket: number;
+    lastPurchaseAt: Date | null;
+  };
+  topProducts: Array<{
+    productId: string;
+    name: string;
+    quantity: number;
+    totalAmount: number;
+  }>;
+  generatedAt: Date;
+}
+
+// Estados de presupuestos que cuentan como compra (cobrados total o parcialmente)
+const PURCHASE_QUOTE_STATUSES: IQuote['status'][] = ['paid', 'partially_paid', 'partially_refunded'];
+
+// Cantidad de productos más comprados que se informan en el resumen
+const TOP_PRODUCTS_LIMIT = 10;
+
+// Cantidad máxima de IDs omitidos que se listan en el reporte
+const MAX_REPORTED_SKIPPED = 100;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Claves de deduplicación de un cliente (emails y teléfonos normalizados)
+ */
+const getContactKeys = (emails: string[], phones: string[]): string[] => [
+  ...emails.map(email => `email:${email}`),
+  ...phones.map(phone => `phone:${phone}`)
+];
+
+/**
+ * Servicio de clientes: búsqueda de duplicados, vínculo con presupuestos y migración
+ */
+class CustomerService {
+
+  /**
+   * Buscar un cliente activo que coincida por email o teléfono
+   */
+  async findMatch(contact: { email?: string; phone?: string }): Promise<ICustomer | null> {
+    const conditions: any[] = [];
+
+    // Un teléfono vacío o inválido no identifica a nadie
+    const [phone] = toCustomerPhones(contact.phone);
+
+    if (contact.email) conditions.push({ emails: normalizeEmail(contact.email) });
+    if (phone) conditions.push({ phones: phone });
+
+    if (conditions.length === 0) {
+      return null;
+    }
+
+    return Customer.findOne({ $or: conditions, isActive: true }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Buscar clientes que comparten CUIT, email o teléfono con los datos indicados
+   */
+  async findDuplicates(
+    data: { taxId?: string; emails?: string[]; phones?: string[] },
+    excludeId?: string
+  ): Promise<ICustomer[]> {
+    const conditions: any[] = [];
+
+    if (data.taxId) conditions.push({ taxId: data.taxId });
+    if (data.emails?.length) conditions.push({ emails: { $in: data.emails } });
+    if (data.phones?.length) conditions.push({ phones: { $in: data.phones } });
+
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    return Customer.find({
+      $or: conditions,
+      isActive: true,
+      ...(excludeId && { _id: { $ne: excludeId } })
+    }).select('name taxId emails phones').limit(10);
+  }
+
+  /**
+   * Determinar el cliente de un presupuesto y la copia que se guarda en él
+   *
+   * Con customerId se usa el cliente registrado (los datos enviados en customer
+   * reemplazan a los de la ficha en la copia). Sin customerId se busca un cliente
+   * por email o teléfono y, si no existe, se prepara uno nuevo sin guardarlo: se
+   * registra en la misma transacción que el presupuesto con createResolvedCustomer.
+   */
+  async resolveForQuote(
+    data: { customerId?: string; customer?: CustomerSnapshot },
+    userId?: string
+  ): Promise<QuoteCustomerResolution> {
+    if (data.customerId) {
+      const customer = await Customer.findOne({ _id: data.customerId, isActive: true });
+
+      if (!customer) {
+        return { success: false, message: 'Cliente no encontrado' };
+      }
+
+      const email = data.customer?.email || customer.emails[0];
+      const phone = data.customer?.phone || customer.phones[0];
+
+      return {
+        success: true,
+        message: 'Cliente registrado',
+        customer,
+        snapshot: {
+          name: data.customer?.name || customer.name,
+          ...(email && { email }),
+          ...(phone && { phone })
+        }
+      };
+    }
+
+    if (!data.customer) {
+      return { success: false, message: 'Debe indicar customerId o los datos del cliente' };
+    }
+
+    const existing = await this.findMatch(data.customer);
+
+    if (existing) {
+      return {
+        success: true,
+        message: 'Cliente existente vinculado por email o teléfono',
+        customer: existing,
+        snapshot: data.customer
+      };
+    }
+
+    const customer = new Customer({
+      name: data.customer.name,
+      emails: data.customer.email ? [data.customer.email] : [],
+      // Los teléfonos inválidos (por ejemplo de la copia de un presupuesto antiguo) no se registran
+      phones: toCustomerPhones(data.customer.phone),
+      ...(userId && { createdBy: userId })
+    });
+
+    const validationError = customer.validateSync();
+
+    if (validationError) {
+      const [firstError] = Object.values(validationError.errors);
+      return { success: false, message: firstError?.message || 'Datos del cliente inválidos' };
+    }
+
+    return {
+      success: true,
+      message: 'Cliente registrado',
+      customer,
+      snapshot: data.customer,
+      created: true
+    };
+  }
+
+  /**
+   * Registrar el cliente nuevo de una resolución dentro de la transacción del presupuesto
+   * No hace nada si la resolución vinculó un cliente existente
+   */
+  async createResolvedCustomer(resolution: QuoteCustomerResolution, session: ClientSession): Promise<void> {
+    if (!resolution.created || !resolution.customer) {
+      return;
+    }
+
+    const [customer] = await Customer.create([resolution.customer.toObject()], { session });
+
+    logger.info('Cliente registrado desde un presupuesto', {
+      customerId: customer!._id,
+      name: customer!.name
+    });
+  }
+
+  /**
+   * Resumen histórico del cliente a partir de sus presupuestos y pagos
+   * Con createdBy solo se consideran los presupuestos de ese vendedor
+   */
+  async getSummary(customerId: string, options: { createdBy?: string } = {}): Promise<CustomerSummary | null> {
+    const customer = await Customer.findById(customerId).select('name taxId emails phones');
+
+    if (!customer) {
+      return null;
+    }
+
+    const matchStage: any = {
+      customerId: customer._id,
+      ...(options.createdBy && { createdBy: new Types.ObjectId(options.createdBy) })
+    };
+
+    const [quoteStats] = await Quote.aggregate([
+      { $match: matchStage },
+      {
+        $facet: {
+          byStatus: [
+            { $group: { _id: '$status', count: { $sum: 1 }, totalAmount: { $sum: '$total' } } },
+            { $sort: { _id: 1 } }
+          ],
+          totals: [
+            {
+              $group: {
+                _id: null,
+                count: { $sum: 1 },
+                totalQuoted: { $sum: '$total' },
+                totalPaid: { $sum: { $ifNull: ['$amountPaid', 0] } },
+                outstandingBalance: { $sum: { $cond: [{ $eq: ['$status', 'partially_paid'] }, '$balanceDue', 0] } },
+                purchasesCount: { $sum: { $cond: [{ $in: ['$status', PURCHASE_QUOTE_STATUSES] }, 1, 0] } },
+                purchasesAmount: { $sum: { $cond: [{ $in: ['$status', PURCHASE_QUOTE_STATUSES] }, '$total', 0] } }
+              }
+            }
+          ],
+          topProducts: [
+            { $match: { status: { $in: PURCHASE_QUOTE_STATUSES } } },
+            { $unwind: '$items' },
+            {
+              $group: {
+                _id: '$items.product',
+                name: { $last: '$items.productSnapshot.name' },
+                quantity: { $sum: '$items.quantity' },
+                totalAmount: { $sum: { $ifNull: ['$items.netAmount', '$items.subtotal'] } }
+              }
+            },
+            { $sort: { quantity: -1, totalAmount: -1 } },
+            { $limit: TOP_PRODUCTS_LIMIT }
+          ]
+        }
+      }
+    ]);
+
+    const quotes = await Quote.find(matchStage)
+      .select('quoteNumber status total amountPaid balanceDue createdAt')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const quoteNumbers = new Map(quotes.map(quote => [quote._id.toString(), quote.quoteNumber]));
+    const paymentMatch = { quote: { $in: quotes.map(quote => quote._id) } };
+
+    const [paymentsByStatus, settledPayments] = await Promise.all([
+      Payment.aggregate([
+        { $match: paymentMatch },
+        { $group: { _id: '$status', count: { $sum: 1 }, totalAmount: { $sum: '$amount' } } },
+        { $sort: { _id: 1 } }
+      ]),
+      Payment.find({ ...paymentMatch, status: { $in: SETTLED_PAYMENT_STATUSES } })
+        .select('quote provider paymentMethod status amount refundedAmount paidAt updatedAt')
+        .sort({ paidAt: -1, updatedAt: -1 })
+        .lean()
+    ]);
+
+    const totals = quoteStats?.totals[0];
+    const purchasesCount = totals?.purchasesCount || 0;
+    const paymentList = settledPayments.map(payment => ({
+      id: payment._id.toString(),
+      quoteNumber: quoteNumbers.get(payment.quote.toString()) || '',
+      provider: payment.provider,
+      ...(payment.paymentMethod && { paymentMethod: payment.paymentMethod }),
+      status: payment.status,
+      amount: payment.amount,
+      refundedAmount: payment.refundedAmount || 0,
+      // Los pagos anteriores a paidAt usan la fecha de su última actualización
+      paidAt: payment.paidAt || payment.updatedAt
+    }));
+
+    const lastPurchaseAt = paymentList.reduce<Date | null>(
+      (latest, payment) => (!latest || payment.paidAt > latest ? payment.paidAt : latest),
+      null
+    );
+
+    return {
+      customer: {
+        id: customer._id.toString(),
+        name: customer.name,
+        emails: customer.emails,
+        phones: customer.phones,
+        ...(customer.taxId && { taxId: customer.taxId })
+      },
+      quotes: {
+        count: totals?.count || 0,
+        byStatus: (quoteStats?.byStatus || []).map((row: any) => ({
+          status: row._id,
+          count: row.count,
+          totalAmount: roundAmount(row.totalAmount)
+        })),
+        list: quotes.map(quote => ({
+          id: quote._id.toString(),
+          quoteNumber: quote.quoteNumber,
+          status: quote.status,
+          total: quote.total,
+          amountPaid: quote.amountPaid || 0,
+          balanceDue: quote.balanceDue ?? Math.max(0, roundAmount(quote.total - (quote.amountPaid || 0))),
+          createdAt: quote.createdAt
+        }))
+      },
+      payments: {
+        count: paymentsByStatus.reduce((sum, row) => sum + row.count, 0),
+        byStatus: paymentsByStatus.map(row => ({
+          status: row._id,
+          count: row.count,
+          totalAmount: roundAmount(row.totalAmount)
+        })),
+        list: paymentList
+      },
+      totals: {
+        totalQuoted: roundAmount(totals?.totalQuoted || 0),
+        totalPaid: roundAmount(totals?.totalPaid || 0),
+        totalRefunded: roundAmount(paymentList.reduce((sum, payment) => sum + payment.refundedAmount, 0)),
+        outstandingBalance: roundAmount(totals?.outstandingBalance || 0),
+        purchasesCount,
+        averageTicket: purchasesCount > 0 ? roundAmount(totals.purchasesAmount / purchasesCount) : 0,
+        lastPurchaseAt
+      },
+      topProducts: (quoteStats?.topProducts || []).map((row: any) => ({
+        productId: row._id.toString(),
+        name: row.name,
+        quantity: row.quantity,
+        totalAmount: roundAmount(row.totalAmount)
+      })),
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Crear clientes a partir de los presupuestos sin cliente vinculado
+   *
+   * Los presupuestos se recorren del más antiguo al más reciente y se agrupan
+   * por email o teléfono: el primero define el nombre del cliente y los
+   * siguientes suman sus datos de contacto. También se vinculan a clientes
+   * ya registrados. La copia del cliente en cada presupuesto no se modifica.
+   */
+  async migrateFromQuotes(dryRun: boolean = false): Promise<CustomerMigrationReport> {
+    try {
+      logger.info('Iniciando migración de clientes desde presupuestos', { dryRun });
+
+      const report: CustomerMigrationReport = {
+        dryRun,
+        quotesScanned: 0,
+        quotesLinked: 0,
+        customersCreated: 0,
+        matchedExisting: 0,
+        skippedWithoutContact: 0,
+        skippedInvalid: 0,
+        droppedPhones: 0,
+        skippedQuoteIds: []
+      };
+
+      const skipQuote = (quoteId: string): void => {
+        if (report.skippedQuoteIds.length < MAX_REPORTED_SKIPPED) {
+          report.skippedQuoteIds.push(quoteId);
+        }
+      };
+
+      // Clave de contacto -> cliente (registrado o creado durante la migración)
+      const customerByKey = new Map<string, string>();
+      const matchedCustomers = new Set<string>();
+
+      const cursor = Quote.find({ customerId: { $exists: false } })
+        .select('customer createdBy createdAt')
+        .sort({ createdAt: 1 })
+        .lean()
+        .cursor();
+
+      for await (const quote of cursor) {
+        report.quotesScanned++;
+
+        const emails = quote.customer.email ? [normalizeEmail(quote.customer.email)] : [];
+        const phones = toCustomerPhones(quote.customer.phone);
+        const keys = getContactKeys(emails, phones);
+
+        if (quote.customer.phone && phones.length === 0) {
+          report.droppedPhones++;
+        }
+
+        if (keys.length === 0) {
+          report.skippedWithoutContact++;
+          skipQuote(quote._id.toString());
+          continue;
+        }
+
+        let customerId = keys.map(key => customerByKey.get(key)).find(Boolean);
+
+        if (!customerId) {
+          const existing = await Customer.findOne({
+            $or: [
+              ...(emails.length > 0 ? [{ emails: { $in: emails } }] : []),
+              ...(phones.length > 0 ? [{ phones: { $in: phones } }] : [])
+            ],
+            isActive: true
+          }).select('_id').sort({ createdAt: 1 }).lean();
+
+          if (existing) {
+            customerId = existing._id.toString();
+            if (!matchedCustomers.has(customerId)) {
+              matchedCustomers.add(customerId);
+              report.matchedExisting++;
+            }
+          }
+        }
+
+        if (customerId) {
+          // Sumar al cliente los datos de contacto nuevos de este presupuesto
+          if (!dryRun) {
+            await Customer.updateOne(
+              { _id: customerId },
+              { $addToSet: { emails: { $each: emails }, phones: { $each: phones } } }
+            );
+          }
+        } else {
+          const customer = new Customer({
+            name: quote.customer.name,
+            emails,
+            phones,
+            createdBy: quote.createdBy
+          });
+
+          // Un presupuesto con datos que la ficha no admite no detiene la migración
+          const validationError = customer.validateSync();
+
+          if (validationError) {
+            report.skippedInvalid++;
+            skipQuote(quote._id.toString());
+            logger.warn('Presupuesto omitido en la migración de clientes', {
+              quoteId: quote._id,
+              errors: Object.values(validationError.errors).map(error => error.message)
+            });
+            continue;
+          }
+
+          if (!dryRun) {
+            await customer.save();
+          }
+          customerId = customer._id.toString();
+          report.customersCreated++;
+        }
+
+        keys.forEach(key => customerByKey.set(key, customerId!));
+
+        if (!dryRun) {
+          await Quote.updateOne({ _id: quote._id }, { $set: { customerId } });
+        }
+        report.quotesLinked++;
+      }
+
+      logger.info('Migración de clientes finalizada', {
+        dryRun,
+        quotesScanned: report.quotesScanned,
+        quotesLinked: report.quotesLinked,
+        customersCreated: report.customersCreated,
+        skippedWithoutContact: report.skippedWithoutContact,
+        skippedInvalid: report.skippedInvalid,
+        droppedPhones: report.droppedPhones
+      });
+
+      return report;
+
+    } catch (error) {
+      logger.error('Error en migración de clientes:', error);
+      throw new Error('Error migrando clientes desde los presupuestos');
+    }
+  }
+}
+
+// Crear instancia singleton
+let customerService: CustomerService;
+
+/**
+ * Obtener instancia del servicio de clientes
+ */
+export const getCustomerService = (): CustomerService => {
+  if (!customerService) {
+    customerService = new CustomerService();
+  }
+  return customerService;
+};
+
+export default CustomerService;
@@ -0,0 +1,130 @@
+import { Types } from 'mongoose';
+import User from '../models/User';
+import { getDiscountLimitsConfig } from '../config/discounts';
+import { logger } from '../utils/logger';
+import { IQuote, IUser } from '../types';
+
+/**
+ * Resultado de evaluar el descuento de un presupuesto contra el límite de quien cotiza
+ */
+export interface DiscountEvaluation {
+  requiresApproval: boolean;
+  discountPercent: number;
+  maxDiscountPercent: number | null;
+}
+
+/**
+ * Servicio de aprobación de descuentos
+ *
+ * Un presupuesto cuyo descuento supera el límite de quien lo cotiza queda en
+ * pending_approval hasta que un administrador lo apruebe; mientras tanto no se
+ * puede cobrar ni compartir con el cliente.
+ */
+class DiscountApprovalService {
+  /**
+   * Descuento máximo (%) sin aprobación para un usuario
+   * El límite propio del usuario tiene prioridad sobre el de su rol; null = sin límite
+   */
+  async getLimit(user: { id: string; role: IUser['role'] }): Promise<number | null> {
+    const { roleLimits } = getDiscountLimitsConfig();
+
+    const record = await User.findById(user.id).select('maxDiscountPercent').lean();
+
+    if (record?.maxDiscountPercent !== undefined && record.maxDiscountPercent !== null) {
+      return record.maxDiscountPercent;
+    }
+
+    return roleLimits[user.role];
+  }
+
+  /**
+   * Descuento efectivo (%) del presupuesto sobre su subtotal
+   * Incluye descuentos por item y general; los cupones no requieren aprobación
+   * Requiere los totales calculados
+   */
+  getDiscountPercent(quote: IQuote): number {
+    if (!quote.subtotal || quote.subtotal <= 0) return 0;
+
+    const couponAmount = quote.coupon?.discountAmount || 0;
+    const discountAmount = Math.max(0, (quote.discountAmount || 0) - couponAmount);
+
+    return Math.round((discountAmount / quote.subtotal) * 10000) / 100;
+  }
+
+  /**
+   * Evaluar el descuento y actualizar el estado del presupuesto (sin guardar)
+   *
+   * - Dentro del límite: el presupuesto queda pending
+   * - Por encima, pero sin superar un descuento ya aprobado: se mantiene la aprobación
+   * - Por encima: pending_approval con una nueva solicitud
+   */
+  applyLimit(quote: IQuote, maxDiscountPercent: number | null, requestedBy: string): DiscountEvaluation {
+    quote.calculateTotals();
+
+    const discountPercent = this.getDiscountPercent(quote);
+    const previous = quote.discountApproval;
+    const withinLimit = maxDiscountPercent === null || discountPercent <= maxDiscountPercent;
+    const alreadyApproved = previous?.status === 'approved' && discountPercent <= previous.discountPercent;
+
+    if (withinLimit || alreadyApproved) {
+      if (quote.status === 'pending_approval') {
+        quote.status = 'pending';
+      }
+      // Una solicitud que ya no hace falta se descarta
+      if (previous && previous.status !== 'approved') {
+        quote.set('discountApproval', undefined);
+      }
+      return { requiresApproval: false, discountPercent, maxDiscountPercent };
+    }
+
+    quote.status = 'pending_approval';
+    quote.set('discountApproval', {
+      status: 'pending',
+      discountPercent,
+      maxDiscountPercent,
+      requestedBy,
+      requestedAt: new Date()
+    });
+
+    logger.info('Presupuesto pendiente de aprobación por descuento', {
+      quoteId: quote._id,
+      discountPercent,
+      maxDiscountPercent
+    });
+
+    return { requiresApproval: true, discountPercent, maxDiscountPercent };
+  }
+
+  /**
+   * Registrar la revisión de un administrador (sin guardar)
+   * Aprobado, el presupuesto pasa a pending; rechazado, queda en pending_approval
+   * hasta que se edite el descuento o se cancele
+   */
+  review(quote: IQuote, decision: 'approved' | 'rejected', reviewedBy: string, comment?: string): void {
+    const approval = quote.discountApproval!;
+
+    approval.status = decision;
+    approval.reviewedBy = new Types.ObjectId(reviewedBy);
+    approval.reviewedAt = new Date();
+    if (comment) approval.comment = comment;
+
+    if (decision === 'approved') {
+      quote.status = 'pending';
+    }
+  }
+}
+
+// Crear instancia singleton
+let discountApprovalService: DiscountApprovalService;
+
+/**
+ * Obtener instancia del servicio de aprobación de descuentos
+ */
+export const getDiscountApprovalService = (): DiscountApprovalService => {
+  if (!discountApprovalService) {
+    discountApprovalService = new DiscountApprovalService();
+  }
+  return discountApprovalService;
+};
+
+export default DiscountApprovalService;
@@ -0,0 +1,96 @@
+import Payment from '../models/Payment';
+import { logger } from '../utils/logger';
+
+/**
+ * Reporte de la migración de índices de pagos
+ */
+export interface PaymentIndexMigrationReport {
+  dryRun: boolean;
+  dropped: string[];
+  // Eliminados y vueltos a crear con las opciones actuales del schema
+  rebuilt: string[];
+}
+
+// Índices de versiones anteriores que impiden registrar más de un pago por presupuesto:
+// quote_1 (único por presupuesto) y quote_active_attempt_unique (un solo pago aprobado)
+const LEGACY_PAYMENT_INDEXES = ['quote_1', 'quote_active_attempt_unique'];
+
+// Índices que cambiaron de opciones: mercadopagoId_1 era único sin sparse, por lo
+// que los pagos manuales (sin preferencia) chocaban entre sí por el valor nulo
+const REBUILT_PAYMENT_INDEXES: Record<string, (index: { unique?: boolean; sparse?: boolean }) => boolean> = {
+  mercadopagoId_1: index => !!index.unique && !index.sparse
+};
+
+// Código de MongoDB cuando la colección todavía no existe
+const NAMESPACE_NOT_FOUND = 26;
+
+/**
+ * Servicio de migración de índices creados por versiones anteriores
+ *
+ * Mongoose crea los índices nuevos del schema, pero no elimina ni modifica los
+ * que ya existen en la base: estos se corrigen una vez con esta migración.
+ */
+class IndexMigrationService {
+
+  /**
+   * Eliminar los índices antiguos de pagos que ya no corresponden al schema
+   * y volver a crear los que cambiaron de opciones
+   */
+  async migratePaymentIndexes(dryRun: boolean = false): Promise<PaymentIndexMigrationReport> {
+    const report: PaymentIndexMigrationReport = { dryRun, dropped: [], rebuilt: [] };
+
+    let indexes: Array<{ name?: string; unique?: boolean; sparse?: boolean }>;
+
+    try {
+      indexes = await Payment.collection.indexes();
+    } catch (error) {
+      if ((error as { code?: number }).code === NAMESPACE_NOT_FOUND) {
+        return report;
+      }
+      throw error;
+    }
+
+    for (const index of indexes) {
+      if (!index.name) {
+        continue;
+      }
+
+      const isLegacy = LEGACY_PAYMENT_INDEXES.includes(index.name);
+      const needsRebuild = REBUILT_PAYMENT_INDEXES[index.name]?.(index) ?? false;
+
+      if (!isLegacy && !needsRebuild) {
+        continue;
+      }
+
+      if (!dryRun) {
+        await Payment.collection.dropIndex(index.name);
+      }
+
+      (isLegacy ? report.dropped : report.rebuilt).push(index.name);
+    }
+
+    if (!dryRun && (report.dropped.length > 0 || report.rebuilt.length > 0)) {
+      // Crear los índices vigentes del schema (incluye los que se eliminaron para reconstruirlos)
+      await Payment.createIndexes();
+
+      logger.info('Índices de pagos migrados', { dropped: report.dropped, rebuilt: report.rebuilt });
+    }
+
+    return report;
+  }
+}
+
+// Crear instancia singleton
+let indexMigrationService: IndexMigrationService;
+
+/**
+ * Obtener instancia del servicio de migración de índices
+ */
+export const getIndexMigrationService = (): IndexMigrationService => {
+  if (!indexMigrationService) {
+    indexMigrationService = new IndexMigrationService();
+  }
+  return indexMigrationService;
+};
+
+export default IndexMigrationService;
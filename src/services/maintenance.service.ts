@@ -0,0 +1,216 @@
+import Quote from '../models/Quote';
+import Payment from '../models/Payment';
+import { logger } from '../utils/logger';
+import { getStockService } from './stock.service';
+import { getPaymentSyncService } from './paymentSync.service';
+import { getNotifier } from './notifier.service';
+import { getCompanyConfig } from '../config/company';
+
+/**
+ * Resultado de expirar presupuestos vencidos
+ */
+export interface ExpireQuotesResult {
+  expiredCount: number;
+  releasedReservations: number;
+}
+
+/**
+ * Resultado de cancelar pagos pendientes antiguos
+ */
+export interface CancelStalePaymentsResult {
+  checked: number;
+  synced: number;
+  cancelled: number;
+  failed: number;
+}
+
+/**
+ * Resultado del envío de recordatorios de expiración
+ */
+export interface ExpiryRemindersResult {
+  checked: number;
+  sent: number;
+  // Registrados por el respaldo de log, sin canal de envío configurado
+  notDelivered: number;
+  failed: number;
+}
+
+/**
+ * Servicio con las tareas de mantenimiento de presupuestos y pagos
+ */
+class MaintenanceService {
+
+  /**
+   * Expirar presupuestos vencidos y liberar sus reservas de stock
+   */
+  async expireQuotes(): Promise<ExpireQuotesResult> {
+    try {
+      const result = await Quote.expireOldQuotes();
+
+      // Las reservas vencen junto con el presupuesto
+      const releasedReservations = await getStockService().releaseExpiredReservations();
+
+      logger.info(`${result.modifiedCount} presupuestos expirados automáticamente`);
+
+      return {
+        expiredCount: result.modifiedCount,
+        releasedReservations
+      };
+
+    } catch (error) {
+      logger.error('Error expirando presupuestos:', error);
+      throw new Error('Error expirando presupuestos vencidos');
+    }
+  }
+
+  /**
+   * Cancelar pagos que siguen pendientes después de cierta cantidad de horas
+   */
+  async cancelStalePayments(olderThanHours: number): Promise<CancelStalePaymentsResult> {
+    try {
+      const stalePayments = await Payment.findOldPendingPayments(olderThanHours);
+      const result: CancelStalePaymentsResult = {
+        checked: stalePayments.length,
+        synced: 0,
+        cancelled: 0,
+        failed: 0
+      };
+
+      for (const payment of stalePayments) {
+        try {
+          // Consultar MercadoPago antes de cancelar por si se perdió el webhook
+          try {
+            await getPaymentSyncService().syncPayment(payment);
+          } catch (syncError) {
+            logger.warn('No se pudo sincronizar el pago antes de cancelarlo', {
+              paymentId: payment._id,
+              error: syncError instanceof Error ? syncError.message : syncError
+            });
+          }
+
+          if (payment.status !== 'pending') {
+            result.synced++;
+            continue;
+          }
+
+          payment.status = 'cancelled';
+          await payment.save();
+
+          // El presupuesto vuelve a estar disponible para generar otro pago
+          await Quote.updateOne(
+            { _id: payment.quote, status: 'pending', paymentId: payment._id },
+            { $unset: { paymentId: 1 } }
+          );
+
+          result.cancelled++;
+
+        } catch (error) {
+          result.failed++;
+          logger.error('Error cancelando pago pendiente antiguo', {
+            paymentId: payment._id,
+            error: error instanceof Error ? error.message : error
+          });
+        }
+      }
+
+      if (result.cancelled > 0) {
+        logger.info(`${result.cancelled} pagos pendientes antiguos cancelados`, { olderThanHours });
+      }
+
+      return result;
+
+    } catch (error) {
+      logger.error('Error cancelando pagos pendientes antiguos:', error);
+      throw new Error('Error cancelando pagos pendientes antiguos');
+    }
+  }
+
+  /**
+   * Enviar recordatorios a clientes con presupuestos próximos a expirar
+   *
+   * El presupuesto se marca solo después de un envío exitoso: si el envío falla
+   * o no hay canal configurado, se reintenta en la próxima ejecución.
+   */
+  async sendExpiryReminders(daysBeforeExpiry: number): Promise<ExpiryRemindersResult> {
+    try {
+      const quotes = await Quote.findExpiringQuotes(daysBeforeExpiry)
+        .where({
+          expiresAt: { $gt: new Date() },
+          expiryReminderSentAt: null,
+          'customer.email': { $nin: [null, ''] }
+        })
+        .select('quoteNumber customer expiresAt total');
+
+      const notifier = getNotifier();
+      const { name: companyName } = getCompanyConfig();
+      const result: ExpiryRemindersResult = { checked: quotes.length, sent: 0, notDelivered: 0, failed: 0 };
+
+      for (const quote of quotes) {
+        const expiresOn = quote.expiresAt.toISOString().slice(0, 10);
+
+        try {
+          const { delivered } = await notifier.send({
+            type: 'quote_expiry_reminder',
+            to: quote.customer.email!,
+            subject: `Su presupuesto ${quote.quoteNumber} vence el ${expiresOn}`,
+            text: `Hola ${quote.customer.name}, le recordamos que el presupuesto ${quote.quoteNumber} ` +
+              `por un total de ${quote.total.toFixed(2)} vence el ${expiresOn}.\n\n${companyName}`,
+            data: {
+              quoteId: quote._id.toString(),
+              quoteNumber: quote.quoteNumber,
+              customerName: quote.customer.name,
+              total: quote.total,
+              expiresAt: quote.expiresAt
+            }
+          });
+
+          if (!delivered) {
+            result.notDelivered++;
+            continue;
+          }
+        } catch (sendError) {
+          logger.error('Error enviando recordatorio de expiración', {
+            quoteId: quote._id,
+            quoteNumber: quote.quoteNumber,
+            channel: notifier.channel,
+            error: sendError instanceof Error ? sendError.message : sendError
+          });
+          result.failed++;
+          continue;
+        }
+
+        await Quote.updateOne(
+          { _id: quote._id, expiryReminderSentAt: null },
+          { $set: { expiryReminderSentAt: new Date() } }
+        );
+
+        result.sent++;
+      }
+
+      if (result.sent > 0) {
+        logger.info(`${result.sent} recordatorios de expiración enviados`, { channel: notifier.channel });
+      }
+
+      return result;
+
+    } catch (error) {
+      logger.error('Error enviando recordatorios de expiración:', error);
+      throw new Error('Error enviando recordatorios de expiración');
+    }
+  }
+}
+
+// Crear instancia singleton
+let maintenanceService: MaintenanceService;
+
+/**
+ * Obtener instancia del servicio de mantenimiento
+ */
+export const getMaintenanceService = (): MaintenanceService => {
+  if (!maintenanceService) {
+    maintenanceService = new MaintenanceService();
+  }
+  return maintenanceService;
+};
+
+export default MaintenanceService;
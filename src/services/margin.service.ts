@@ -0,0 +1,114 @@
+import { getMarginFloorConfig } from '../config/margins';
+import { logger } from '../utils/logger';
+import { IQuote } from '../types';
+
+/**
+ * Resultado de controlar el margen de un presupuesto contra el mínimo configurado
+ */
+export interface MarginEvaluation {
+  belowFloor: boolean;
+  blocked: boolean;
+  marginPercent?: number;
+  minMarginPercent: number | null;
+}
+
+// Campos de costo y margen que solo ven los administradores
+const QUOTE_COST_FIELDS = ['costTotal', 'marginAmount', 'marginPercent', 'marginBelowFloor'];
+const ITEM_COST_FIELDS = ['costAmount', 'marginAmount'];
+
+/**
+ * Servicio de márgenes de presupuestos
+ *
+ * El costo de cada producto se copia en el item al presupuestar y el margen se
+ * calcula con los totales (calculateTotals). Costos y márgenes no se muestran a
+ * los vendedores.
+ */
+class MarginService {
+  /**
+   * Controlar el margen contra el mínimo configurado y marcar el presupuesto (sin guardar)
+   * Solo aplica cuando hay descuentos y al menos un item con costo conocido
+   */
+  applyFloor(quote: IQuote): MarginEvaluation {
+    const { minMarginPercent, action } = getMarginFloorConfig();
+
+    quote.calculateTotals();
+
+    const hasDiscount = quote.discountAmount > 0;
+    const belowFloor = minMarginPercent !== null
+      && hasDiscount
+      && quote.marginPercent !== undefined
+      && quote.marginPercent < minMarginPercent;
+
+    quote.marginBelowFloor = belowFloor;
+
+    if (belowFloor) {
+      logger.warn('Presupuesto con margen por debajo del mínimo', {
+        quoteId: quote._id,
+        marginPercent: quote.marginPercent,
+        minMarginPercent,
+        action
+      });
+    }
+
+    return {
+      belowFloor,
+      blocked: belowFloor && action === 'block',
+      ...(quote.marginPercent !== undefined && { marginPercent: quote.marginPercent }),
+      minMarginPercent
+    };
+  }
+
+  /**
+   * Copia del presupuesto (documento u objeto plano) sin costos ni márgenes
+   */
+  hideCostData<T extends object>(quote: T): Record<string, any> {
+    const data: Record<string, any> = typeof (quote as any).toJSON === 'function'
+      ? (quote as any).toJSON()
+      : { ...quote };
+
+    for (const field of QUOTE_COST_FIELDS) {
+      delete data[field];
+    }
+
+    if (Array.isArray(data.items)) {
+      data.items = this.hideItemCosts(data.items);
+    }
+
+    return data;
+  }
+
+  /**
+   * Copia de los items sin costos ni márgenes
+   */
+  hideItemCosts(items: Record<string, any>[]): Record<string, any>[] {
+    return items.map(item => {
+      const data = typeof item.toJSON === 'function' ? item.toJSON() : { ...item };
+
+      for (const field of ITEM_COST_FIELDS) {
+        delete data[field];
+      }
+
+      if (data.productSnapshot) {
+        data.productSnapshot = { ...data.productSnapshot };
+        delete data.productSnapshot.costPrice;
+      }
+
+      return data;
+    });
+  }
+}
+
+// Crear instancia singleton
+let marginService: MarginService;
+
+/**
+ * Obtener instancia del servicio de márgenes
+ */
+export const getMarginService = (): MarginService => {
+  if (!marginService) {
+    marginService = new MarginService();
+  }
+  return marginService;
+};
+
+export default MarginService;
@@ -1,52 +1,35 @@
 import { PreferenceRequest, PreferenceResponse } from 'mercadopago/dist/clients/preference/commonTypes';
 import { PaymentResponse } from 'mercadopago/dist/clients/payment/commonTypes';
-import QRCode from 'qrcode';
-import crypto from 'crypto';
-import { getMercadoPagoConfig } from '../config/mercadopago';
+import { getMercadoPagoConfig, initializeMercadoPago } from '../config/mercadopago';
 import { logger } from '../utils/logger';
+import { generateQRCode } from '../utils/qrCode';
+import { checkWebhookSignature } from '../utils/webhookSignature';
 import { MercadoPagoPreference, MercadoPagoWebhook } from '../types';
-
-/**
- * Interfaz para los parámetros de creación de orden de pago
- */
-export interface CreatePaymentOrderParams {
-  quoteId: string;
-  amount: number;
-  description: string;
-  externalReference: string;
-  customerEmail?: string;
-  customerName?: string;
-}
-
-/**
- * Interfaz para el resultado de creación de orden de pago
- */
-export interface CreatePaymentOrderResult {
-  preferenceId: string;
-  qrCodeBase64: string;
-  qrCodeData: string;
-  initPoint: string;
-  sandboxInitPoint?: string;
-}
-
-/**
- * Interfaz para datos del webhook procesado
- */
-export interface ProcessedWebhookData {
-  paymentId: string;
-  status: string;
-  externalReference?: string;
-  merchantOrder?: string;
-  topic: string;
-  isValid: boolean;
-}
+import {
+  CreatePaymentOrderParams,
+  CreatePaymentOrderResult,
+  PaymentProvider,
+  ProcessedWebhookData,
+  ProviderPayment,
+  ProviderRefund,
+  WebhookSignatureContext,
+  WebhookSignatureVerification
+} from './paymentProvider.service';
 
 /**
  * Servicio de MercadoPago
  */
-class MercadoPagoService {
+class MercadoPagoService implements PaymentProvider {
+  readonly name = 'mercadopago' as const;
   private config = getMercadoPagoConfig();
 
+  /**
+   * Validar credenciales y configuración de MercadoPago
+   */
+  initialize(): void {
+    initializeMercadoPago();
+  }
+
   /**
    * Crear orden de pago en MercadoPago
    */
@@ -60,6 +43,9 @@ class MercadoPagoService {
         externalReference
       });
 
+      // La preferencia vence a las 24 horas
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
       // Construir datos de la preferencia
       const preferenceData: PreferenceRequest = {
         items: [
@@ -81,7 +67,7 @@ class MercadoPagoService {
         auto_return: 'approved',
         expires: true,
         expiration_date_from: new Date().toISOString(),
-        expiration_date_to: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 horas
+        expiration_date_to: expiresAt.toISOString(),
         purpose: 'wallet_purchase'
       };
 
@@ -113,13 +99,14 @@ class MercadoPagoService {
 
       // Generar QR code
       const qrCodeData = preference.init_point;
-      const qrCodeBase64 = await this.generateQRCode(qrCodeData);
+      const qrCodeBase64 = await generateQRCode(qrCodeData);
 
       return {
         preferenceId: preference.id,
         qrCodeBase64,
         qrCodeData,
         initPoint: preference.init_point,
+        expiresAt,
         ...(preference.sandbox_init_point && { sandboxInitPoint: preference.sandbox_init_point })
       };
 
@@ -129,29 +116,6 @@ class MercadoPagoService {
     }
   }
 
-  /**
-   * Generar QR code en base64
-   */
-  private async generateQRCode(data: string): Promise<string> {
-    try {
-      const qrCode = await QRCode.toDataURL(data, {
-        errorCorrectionLevel: 'M',
-        margin: 1,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        },
-        width: 300
-      });
-
-      return qrCode;
-
-    } catch (error) {
-      logger.error('Error generando QR code:', error);
-      throw new Error('Error generando código QR');
-    }
-  }
-
   /**
    * Obtener estado de un pago por ID
    */
@@ -181,10 +145,76 @@ class MercadoPagoService {
     }
   }
 
+  /**
+   * Obtener un pago de MercadoPago en formato del proveedor
+   */
+  async getPayment(providerPaymentId: string): Promise<ProviderPayment> {
+    return this.toProviderPayment(await this.getPaymentStatus(providerPaymentId));
+  }
+
+  /**
+   * Buscar pagos de MercadoPago por referencia externa (más recientes primero)
+   */
+  async findPaymentsByReference(externalReference: string): Promise<ProviderPayment[]> {
+    try {
+      logger.info('Buscando pagos en MercadoPago por referencia externa', { externalReference });
+
+      const search = await this.config.getPaymentService().search({
+        options: {
+          external_reference: externalReference,
+          sort: 'date_last_updated',
+          criteria: 'desc'
+        }
+      });
+
+      return (search.results || []).map(result => this.toProviderPayment(result));
+
+    } catch (error) {
+      logger.error('Error buscando pagos en MercadoPago:', error);
+      throw new Error(`Error buscando pagos: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  }
+
+  /**
+   * Reembolsar un pago total o parcialmente
+   * Sin monto, MercadoPago reembolsa el saldo restante del pago
+   */
+  async refundPayment(paymentId: string, amount?: number, idempotencyKey?: string): Promise<ProviderRefund> {
+    try {
+      logger.info('Solicitando reembolso en MercadoPago', { paymentId, amount });
+
+      const refund = await this.config.getPaymentRefundService().create({
+        payment_id: paymentId,
+        ...(amount !== undefined && { body: { amount } }),
+        ...(idempotencyKey && { requestOptions: { idempotencyKey } })
+      });
+
+      logger.info('Reembolso creado en MercadoPago', {
+        paymentId,
+        refundId: refund.id,
+        amount: refund.amount,
+        status: refund.status
+      });
+
+      return {
+        ...(refund.id !== undefined && { id: refund.id.toString() }),
+        ...(refund.amount !== undefined && { amount: refund.amount }),
+        ...(refund.status && { status: refund.status })
+      };
+
+    } catch (error) {
+      logger.error('Error creando reembolso en MercadoPago:', error);
+      throw new Error(`Error en MercadoPago: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  }
+
   /**
    * Procesar webhook de MercadoPago
+   *
+   * Sin contexto de firma no se verifica (por ejemplo al reprocesar un evento
+   * ya registrado, cuya firma se validó al recibirlo).
    */
-  async processWebhook(webhookData: any, signature?: string): Promise<ProcessedWebhookData> {
+  async processWebhook(webhookData: any, signatureContext?: WebhookSignatureContext): Promise<ProcessedWebhookData> {
     try {
       logger.info('Procesando webhook de MercadoPago', {
         action: webhookData.action,
@@ -197,11 +227,15 @@ class MercadoPagoService {
         throw new Error('Webhook con estructura inválida');
       }
 
-      // Validar firma del webhook (si está disponible)
-      if (signature) {
-        const isValidSignature = this.validateWebhookSignature(webhookData, signature);
-        if (!isValidSignature) {
-          logger.warn('Webhook con firma inválida rechazado');
+      // Validar firma del webhook
+      if (signatureContext) {
+        const verification = this.verifyWebhookSignature({
+          ...signatureContext,
+          dataId: signatureContext.dataId || webhookData.data.id.toString()
+        });
+
+        if (!verification.isValid) {
+          logger.warn('Webhook con firma inválida rechazado', { reason: verification.reason });
           return {
             paymentId: '',
             status: '',
@@ -251,30 +285,64 @@ class MercadoPagoService {
   }
 
   /**
-   * Validar firma del webhook (implementación básica)
+   * Verificar la firma x-signature según el esquema documentado por MercadoPago
+   *
+   * El header tiene la forma "ts=<timestamp>,v1=<hash>" y el hash es un
+   * HMAC-SHA256 (con la clave secreta de webhooks) del manifiesto
+   * "id:<data.id>;request-id:<x-request-id>;ts:<ts>;".
    */
-  private validateWebhookSignature(webhookData: any, signature: string): boolean {
+  verifyWebhookSignature(context: WebhookSignatureContext): WebhookSignatureVerification {
     try {
-      // Esta es una implementación básica
-      // En producción, deberías usar la validación oficial de MercadoPago
-      const accessToken = process.env.MERCADOPAGO_ACCESS_TOKEN;
-      if (!accessToken) return false;
+      const secret = this.config.getWebhookSecret();
+
+      if (!context.signature) {
+        return this.config.requireWebhookSignature()
+          ? { isValid: false, reason: 'Webhook sin firma' }
+          : { isValid: true, reason: 'Firma no requerida' };
+      }
+
+      if (!secret) {
+        logger.warn('Webhook firmado pero MERCADOPAGO_WEBHOOK_SECRET no está configurado');
+        return this.config.requireWebhookSignature()
+          ? { isValid: false, reason: 'Clave secreta de webhooks no configurada' }
+          : { isValid: true, reason: 'Firma no verificada' };
+      }
 
-      // Crear hash del contenido
-      const payload = JSON.stringify(webhookData);
-      const expectedSignature = crypto
-        .createHmac('sha256', accessToken)
-        .update(payload)
-        .digest('hex');
+      const reason = checkWebhookSignature(
+        context.signature,
+        secret,
+        {
+          ...(context.dataId && { dataId: context.dataId }),
+          ...(context.requestId && { requestId: context.requestId })
+        },
+        this.config.getWebhookToleranceSeconds()
+      );
 
-      return signature === expectedSignature;
+      return reason ? { isValid: false, reason } : { isValid: true };
 
     } catch (error) {
       logger.error('Error validando firma del webhook:', error);
-      return false;
+      return { isValid: false, reason: 'Error validando firma' };
     }
   }
 
+  /**
+   * Normalizar un pago de MercadoPago al formato común de proveedores
+   */
+  private toProviderPayment(payment: {
+    id?: number | string | undefined;
+    status?: string | undefined;
+    payment_method_id?: string | undefined;
+    external_reference?: string | undefined;
+  }): ProviderPayment {
+    return {
+      id: payment.id?.toString() || '',
+      status: payment.status || '',
+      ...(payment.payment_method_id && { paymentMethod: payment.payment_method_id }),
+      ...(payment.external_reference && { externalReference: payment.external_reference })
+    };
+  }
+
   /**
    * Obtener información de configuración del servicio
    */
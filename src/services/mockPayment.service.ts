@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import { getPaymentProviderConfig } from '../config/paymentProvider';
+import { logger } from '../utils/logger';
+import { generateQRCode } from '../utils/qrCode';
+import { checkWebhookSignature, signWebhookManifest } from '../utils/webhookSignature';
+import {
+  CreatePaymentOrderParams,
+  CreatePaymentOrderResult,
+  PaymentProvider,
+  ProcessedWebhookData,
+  ProviderPayment,
+  ProviderRefund,
+  WebhookSignatureContext,
+  WebhookSignatureVerification
+} from './paymentProvider.service';
+import type { WebhookReceiveResult } from './webhookEvent.service';
+
+// Estados que se pueden simular sobre una orden
+export type MockPaymentStatus = 'approved' | 'rejected' | 'cancelled' | 'pending' | 'in_process';
+
+/**
+ * Orden de pago creada en el proveedor simulado
+ */
+interface MockOrder {
+  preferenceId: string;
+  externalReference: string;
+  amount: number;
+  expiresAt: Date;
+}
+
+/**
+ * Pago simulado sobre una orden
+ */
+interface MockPayment extends ProviderPayment {
+  externalReference: string;
+  amount: number;
+  refundedAmount: number;
+  updatedAt: Date;
+}
+
+/**
+ * Resultado de simular un pago
+ */
+export interface MockSimulationResult {
+  payment: ProviderPayment;
+  webhook?: WebhookReceiveResult;
+}
+
+// Tolerancia de la firma de los webhooks simulados
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Proveedor de pagos simulado para desarrollo local y pruebas sin conexión
+ *
+ * Las órdenes y pagos se guardan en memoria (se pierden al reiniciar). Los
+ * cambios de estado se notifican con webhooks falsos que recorren el mismo
+ * circuito que las notificaciones reales.
+ */
+class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock' as const;
+  private config = getPaymentProviderConfig().mock;
+  private orders = new Map<string, MockOrder>();
+  private payments = new Map<string, MockPayment>();
+  private sequence = 0;
+
+  /**
+   * Advertir que los pagos no son reales
+   */
+  initialize(): void {
+    logger.warn('Usando el proveedor de pagos simulado: los pagos no son reales', {
+      autoOutcome: this.config.autoOutcome,
+      autoDelaySeconds: this.config.autoDelaySeconds,
+      signedWebhooks: !!this.config.webhookSecret
+    });
+  }
+
+  /**
+   * Crear una orden de pago simulada
+   */
+  async createPaymentOrder(params: CreatePaymentOrderParams): Promise<CreatePaymentOrderResult> {
+    const { quoteId, amount, externalReference } = params;
+
+    const preferenceId = `mock-pref-${crypto.randomUUID()}`;
+    const initPoint = `mock://checkout/${preferenceId}`;
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    this.orders.set(externalReference, { preferenceId, externalReference, amount, expiresAt });
+
+    logger.info('Orden de pago simulada creada', { quoteId, amount, externalReference, preferenceId });
+
+    // Resolver la orden automáticamente si está configurado
+    if (this.config.autoOutcome) {
+      const outcome = this.config.autoOutcome;
+      const timer = setTimeout(() => {
+        this.simulatePayment(externalReference, outcome).catch(error => {
+          logger.error('Error simulando pago automático:', error);
+        });
+      }, this.config.autoDelaySeconds * 1000);
+      timer.unref();
+    }
+
+    return {
+      preferenceId,
+      qrCodeBase64: await generateQRCode(initPoint),
+      qrCodeData: initPoint,
+      initPoint,
+      expiresAt
+    };
+  }
+
+  /**
+   * Obtener un pago simulado
+   */
+  async getPayment(providerPaymentId: string): Promise<ProviderPayment> {
+    const payment = this.payments.get(providerPaymentId);
+    if (!payment) {
+      throw new Error('Pago no encontrado en el proveedor simulado');
+    }
+    return this.toProviderPayment(payment);
+  }
+
+  /**
+   * Buscar pagos simulados por referencia externa (más recientes primero)
+   */
+  async findPaymentsByReference(externalReference: string): Promise<ProviderPayment[]> {
+    return [...this.payments.values()]
+      .filter(payment => payment.externalReference === externalReference)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(payment => this.toProviderPayment(payment));
+  }
+
+  /**
+   * Reembolsar un pago simulado (sin monto, el saldo restante)
+   */
+  async refundPayment(providerPaymentId: string, amount?: number): Promise<ProviderRefund> {
+    const payment = this.payments.get(providerPaymentId);
+    if (!payment || payment.status !== 'approved') {
+      throw new Error('Solo se pueden reembolsar pagos simulados aprobados');
+    }
+
+    const remaining = Math.round((payment.amount - payment.refundedAmount) * 100) / 100;
+    const refundAmount = amount ?? remaining;
+
+    if (refundAmount <= 0 || refundAmount > remaining) {
+      throw new Error(`El monto a reembolsar excede el saldo del pago (${remaining})`);
+    }
+
+    payment.refundedAmount = Math.round((payment.refundedAmount + refundAmount) * 100) / 100;
+    if (payment.refundedAmount >= payment.amount) {
+      payment.status = 'refunded';
+    }
+    payment.updatedAt = new Date();
+
+    logger.info('Reembolso simulado', { providerPaymentId, amount: refundAmount });
+
+    return {
+      id: `mock-refund-${crypto.randomUUID()}`,
+      amount: refundAmount,
+      status: 'approved'
+    };
+  }
+
+  /**
+   * Verificar la firma de un webhook simulado
+   * Sin MOCK_PAYMENT_WEBHOOK_SECRET no se exige firma
+   */
+  verifyWebhookSignature(context: WebhookSignatureContext): WebhookSignatureVerification {
+    if (!this.config.webhookSecret) {
+      return { isValid: true, reason: 'Firma no requerida' };
+    }
+
+    if (!context.signature) {
+      return { isValid: false, reason: 'Webhook sin firma' };
+    }
+
+    const reason = checkWebhookSignature(
+      context.signature,
+      this.config.webhookSecret,
+      {
+        ...(context.dataId && { dataId: context.dataId }),
+        ...(context.requestId && { requestId: context.requestId })
+      },
+      SIGNATURE_TOLERANCE_SECONDS
+    );
+
+    return reason ? { isValid: false, reason } : { isValid: true };
+  }
+
+  /**
+   * Procesar un webhook simulado (mismo formato que MercadoPago)
+   */
+  async processWebhook(webhookData: any, signatureContext?: WebhookSignatureContext): Promise<ProcessedWebhookData> {
+    if (!webhookData?.type || !webhookData.data?.id) {
+      throw new Error('Webhook con estructura inválida');
+    }
+
+    const dataId = webhookData.data.id.toString();
+
+    if (signatureContext) {
+      const verification = this.verifyWebhookSignature({
+        ...signatureContext,
+        dataId: signatureContext.dataId || dataId
+      });
+
+      if (!verification.isValid) {
+        logger.warn('Webhook simulado con firma inválida rechazado', { reason: verification.reason });
+        return { paymentId: '', status: '', topic: webhookData.type, isValid: false };
+      }
+    }
+
+    const result: ProcessedWebhookData = {
+      paymentId: dataId,
+      status: '',
+      topic: webhookData.type,
+      isValid: true
+    };
+
+    if (webhookData.type === 'payment') {
+      const payment = await this.getPayment(dataId);
+      result.status = payment.status;
+      if (payment.externalReference) {
+        result.externalReference = payment.externalReference;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Simular el pago de una orden y notificarlo con un webhook
+   *
+   * Un pago pendiente o en proceso se actualiza; en otro caso se registra un
+   * nuevo pago, como ocurre con un segundo intento en el checkout.
+   */
+  async simulatePayment(
+    externalReference: string,
+    status: MockPaymentStatus,
+    options: { emitWebhook?: boolean } = {}
+  ): Promise<MockSimulationResult> {
+    const order = this.orders.get(externalReference);
+    if (!order) {
+      throw new Error('Orden no encontrada en el proveedor simulado');
+    }
+
+    const [latest] = await this.findPaymentsByReference(externalReference);
+    let payment = latest && ['pending', 'in_process'].includes(latest.status)
+      ? this.payments.get(latest.id)
+      : undefined;
+
+    if (!payment) {
+      this.sequence += 1;
+      payment = {
+        id: `${Date.now()}${this.sequence}`,
+        status,
+        paymentMethod: 'mock_card',
+        externalReference,
+        amount: order.amount,
+        refundedAmount: 0,
+        updatedAt: new Date()
+      };
+      this.payments.set(payment.id, payment);
+    } else {
+      payment.status = status;
+      payment.updatedAt = new Date();
+    }
+
+    logger.info('Pago simulado', { externalReference, providerPaymentId: payment.id, status });
+
+    const result: MockSimulationResult = { payment: this.toProviderPayment(payment) };
+
+    if (options.emitWebhook !== false) {
+      result.webhook = await this.emitWebhook(payment.id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Enviar un webhook falso de pago al procesamiento de webhooks
+   */
+  async emitWebhook(providerPaymentId: string): Promise<WebhookReceiveResult> {
+    const requestId = crypto.randomUUID();
+    const payload = {
+      id: Date.now(),
+      type: 'payment',
+      action: 'payment.updated',
+      live_mode: false,
+      date_created: new Date().toISOString(),
+      data: { id: providerPaymentId }
+    };
+
+    const headers: Record<string, string> = {
+      'x-request-id': requestId,
+      'user-agent': 'mock-payment-provider',
+      'content-type': 'application/json'
+    };
+
+    if (this.config.webhookSecret) {
+      headers['x-signature'] = signWebhookManifest(this.config.webhookSecret, {
+        dataId: providerPaymentId,
+        requestId,
+        ts: Math.floor(Date.now() / 1000).toString()
+      });
+    }
+
+    // Import diferido: el servicio de webhooks depende de los proveedores
+    const { getWebhookEventService } = await import('./webhookEvent.service');
+    return getWebhookEventService().receive(payload, headers, { 'data.id': providerPaymentId });
+  }
+
+  /**
+   * Copiar los datos públicos de un pago simulado
+   */
+  private toProviderPayment(payment: MockPayment): ProviderPayment {
+    return {
+      id: payment.id,
+      status: payment.status,
+      externalReference: payment.externalReference,
+      ...(payment.paymentMethod && { paymentMethod: payment.paymentMethod })
+    };
+  }
+}
+
+// Crear instancia singleton
+let mockPaymentProvider: MockPaymentProvider;
+
+/**
+ * Obtener instancia del proveedor de pagos simulado
+ */
+export const getMockPaymentProvider = (): MockPaymentProvider => {
+  if (!mockPaymentProvider) {
+    mockPaymentProvider = new MockPaymentProvider();
+  }
+  return mockPaymentProvider;
+};
+
+export default MockPaymentProvider;
@@ -0,0 +1,105 @@
+import { getNotificationsConfig, NotificationChannel } from '../config/notifications';
+import { logger } from '../utils/logger';
+
+/**
+ * Mensaje para un cliente
+ */
+export interface NotificationMessage {
+  type: string;
+  to: string;
+  subject: string;
+  text: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Resultado de un envío
+ * delivered es false cuando el canal no entrega el mensaje (respaldo por log)
+ */
+export interface NotificationResult {
+  delivered: boolean;
+}
+
+/**
+ * Operaciones que debe implementar un canal de notificaciones
+ * Un envío fallido lanza un error
+ */
+export interface Notifier {
+  readonly channel: NotificationChannel;
+
+  send(message: NotificationMessage): Promise<NotificationResult>;
+}
+
+/**
+ * Envía cada mensaje como JSON al servicio de emails configurado
+ */
+class WebhookNotifier implements Notifier {
+  readonly channel = 'webhook' as const;
+
+  constructor(private readonly config: { url: string; token: string; timeoutMs: number }) {}
+
+  async send(message: NotificationMessage): Promise<NotificationResult> {
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.token && { Authorization: `Bearer ${this.config.token}` })
+      },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(this.config.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`El servicio de notificaciones respondió ${response.status}`);
+    }
+
+    return { delivered: true };
+  }
+}
+
+/**
+ * Respaldo sin canal configurado: registra el mensaje en el log y no lo da por entregado
+ */
+class LogFallbackNotifier implements Notifier {
+  readonly channel = 'log' as const;
+
+  async send(message: NotificationMessage): Promise<NotificationResult> {
+    logger.info('Notificación no enviada (sin canal configurado)', {
+      type: message.type,
+      to: message.to,
+      subject: message.subject,
+      data: message.data
+    });
+
+    return { delivered: false };
+  }
+}
+
+// Crear instancia singleton
+let notifier: Notifier;
+
+/**
+ * Obtener el canal de notificaciones configurado en NOTIFICATION_CHANNEL
+ */
+export const getNotifier = (): Notifier => {
+  if (!notifier) {
+    const config = getNotificationsConfig();
+    notifier = config.channel === 'webhook'
+      ? new WebhookNotifier(config.webhook)
+      : new LogFallbackNotifier();
+  }
+  return notifier;
+};
+
+/**
+ * Validar la configuración de notificaciones (para llamar al inicio de la aplicación)
+ */
+export const initializeNotifier = (): void => {
+  const { channel } = getNotifier();
+
+  if (channel === 'log') {
+    logger.warn('Sin canal de notificaciones configurado: los avisos a clientes solo se registran en el log');
+  } else {
+    logger.info('Canal de notificaciones inicializado', { channel });
+  }
+};
@@ -0,0 +1,268 @@
+import Payment, { ACTIVE_PAYMENT_STATUSES } from '../models/Payment';
+import Quote from '../models/Quote';
+import { logger } from '../utils/logger';
+import { IPayment, IQuote } from '../types';
+import { CreatePaymentOrderParams, getPaymentProvider } from './paymentProvider.service';
+import { getPaymentSyncService } from './paymentSync.service';
+import { getStockService } from './stock.service';
+
+// Estados del presupuesto que admiten un nuevo pago
+export const PAYABLE_QUOTE_STATUSES: IQuote['status'][] = ['pending', 'partially_paid'];
+
+/**
+ * Opciones para abrir un intento de pago
+ */
+export interface PaymentOrderOptions {
+  amount?: number;
+  percentage?: number;
+  // Devolver el intento pendiente vigente en lugar de rechazar la solicitud
+  reuseActive?: boolean;
+}
+
+/**
+ * Resultado de abrir (o reutilizar) un intento de pago
+ */
+export interface PaymentOrderResult {
+  success: boolean;
+  message: string;
+  notFound?: boolean;
+  details?: any;
+  payment?: IPayment;
+  quote?: IQuote;
+  reused?: boolean;
+  isPartial?: boolean;
+  balanceDue?: number;
+  initPoint?: string;
+  sandboxInitPoint?: string;
+}
+
+/**
+ * Saldo pendiente del presupuesto (los presupuestos anteriores a los pagos parciales no lo guardan)
+ */
+export const getBalanceDue = (quote: IQuote): number =>
+  Math.max(0, Math.round((quote.total - (quote.amountPaid || 0)) * 100) / 100);
+
+/**
+ * Indicar si el presupuesto ya no admite pagos por vencido
+ * Cada pago parcial extiende el vencimiento mientras se completa el saldo
+ */
+export const isPaymentWindowClosed = (quote: IQuote): boolean =>
+  !!quote.expiresAt && quote.expiresAt <= new Date();
+
+/**
+ * Determinar el monto a cobrar: fijo, porcentaje del total o, por defecto, todo el saldo
+ */
+export const resolvePaymentAmount = (
+  quote: IQuote,
+  amount?: number,
+  percentage?: number
+): { success: true; amount: number } | { success: false; message: string; details?: any } => {
+  const balanceDue = getBalanceDue(quote);
+
+  const requested = amount !== undefined
+    ? Math.round(amount * 100) / 100
+    : percentage !== undefined
+      ? Math.round(quote.total * percentage) / 100
+      : balanceDue;
+
+  if (requested <= 0 || requested > balanceDue) {
+    return {
+      success: false,
+      message: 'El monto debe ser mayor a 0 y no puede superar el saldo del presupuesto',
+      details: { requested, total: quote.total, amountPaid: quote.amountPaid || 0, balanceDue }
+    };
+  }
+
+  return { success: true, amount: requested };
+};
+
+/**
+ * Servicio para abrir intentos de pago en línea sobre un presupuesto
+ *
+ * Lo usan tanto el panel (vendedores) como el enlace público del cliente.
+ */
+class PaymentOrderService {
+
+  /**
+   * Crear una orden en el proveedor configurado, o reutilizar el intento vigente
+   *
+   * Los errores del proveedor se propagan para que el llamador los informe como 502.
+   */
+  async createOrder(quoteId: string, options: PaymentOrderOptions = {}): Promise<PaymentOrderResult> {
+    const paymentSyncService = getPaymentSyncService();
+
+    // Solo se abre un nuevo intento si el anterior falló o venció
+    const activePayment = await Payment.findActiveAttempt(quoteId);
+
+    if (activePayment) {
+      // Confirmar con el proveedor antes de descartar un intento pendiente
+      try {
+        await paymentSyncService.syncPayment(activePayment);
+      } catch (mpError) {
+        logger.warn('No se pudo sincronizar el intento de pago anterior', mpError);
+      }
+
+      if (activePayment.status === 'pending' && paymentSyncService.isAttemptExpired(activePayment)) {
+        activePayment.status = 'expired';
+        await activePayment.save();
+
+        logger.info('Intento de pago vencido, se abre uno nuevo', {
+          paymentId: activePayment._id,
+          attemptNumber: activePayment.attemptNumber
+        });
+      } else if (ACTIVE_PAYMENT_STATUSES.includes(activePayment.status)) {
+        if (!options.reuseActive) {
+          return {
+            success: false,
+            message: 'Ya existe un pago en curso para este presupuesto',
+            details: {
+              paymentId: activePayment._id,
+              status: activePayment.status,
+              attemptNumber: activePayment.attemptNumber
+            }
+          };
+        }
+
+        const quote = await Quote.findById(quoteId);
+
+        return {
+          success: true,
+          message: 'Se reutiliza el intento de pago vigente',
+          payment: activePayment,
+          ...(quote && { quote, balanceDue: getBalanceDue(quote) }),
+          reused: true,
+          isPartial: !!quote && activePayment.amount < getBalanceDue(quote),
+          ...(activePayment.qrCodeData && { initPoint: activePayment.qrCodeData })
+        };
+      }
+    }
+
+    // Buscar el presupuesto después de sincronizar: un intento recién aprobado cambia su saldo
+    const quote = await Quote.findById(quoteId)
+      .populate('items.product', 'name price stock')
+      .populate('createdBy', 'name email');
+
+    if (!quote) {
+      return { success: false, notFound: true, message: 'Presupuesto no encontrado' };
+    }
+
+    // No se cobra un descuento que todavía no aprobó un administrador
+    if (quote.status === 'pending_approval') {
+      return {
+        success: false,
+        message: 'El presupuesto tiene un descuento pendiente de aprobación',
+        details: { discountApproval: quote.discountApproval }
+      };
+    }
+
+    if (!PAYABLE_QUOTE_STATUSES.includes(quote.status)) {
+      return { success: false, message: `El presupuesto no admite pagos. Estado actual: ${quote.status}` };
+    }
+
+    if (isPaymentWindowClosed(quote)) {
+      return { success: false, message: 'El presupuesto está vencido', details: { expiresAt: quote.expiresAt } };
+    }
+
+    const paymentAmount = resolvePaymentAmount(quote, options.amount, options.percentage);
+
+    if (!paymentAmount.success) {
+      return { success: false, message: paymentAmount.message, details: paymentAmount.details };
+    }
+
+    const lastAttempt = await Payment.findAttempts(quote._id.toString()).limit(1);
+    const attemptNumber = (lastAttempt[0]?.attemptNumber || 0) + 1;
+
+    // Validar stock de todos los productos (salvo que ya se haya descontado con la seña)
+    if (!quote.stockCommittedAt) {
+      const stockItems = quote.items.map(item => ({
+        productId: item.product._id?.toString() || '',
+        quantity: item.quantity
+      }));
+
+      // El stock reservado por el propio presupuesto cuenta como disponible
+      const stockValidation = await getStockService().validateStock(stockItems, quote._id.toString());
+
+      if (!stockValidation.isValid) {
+        return {
+          success: false,
+          message: 'Stock insuficiente para uno o más productos',
+          details: { stockErrors: stockValidation.errors }
+        };
+      }
+    }
+
+    // Preparar datos para el proveedor de pagos configurado
+    const paymentProvider = getPaymentProvider();
+    const balanceDue = getBalanceDue(quote);
+    const isPartial = paymentAmount.amount < balanceDue;
+    const paymentOrderParams: CreatePaymentOrderParams = {
+      quoteId: quote._id.toString(),
+      amount: paymentAmount.amount,
+      description: isPartial
+        ? `Presupuesto ${quote.quoteNumber} - Pago parcial de ${paymentAmount.amount} (saldo ${balanceDue})`
+        : `Presupuesto ${quote.quoteNumber} - ${quote.items.length} item(s)`,
+      externalReference: `QUOTE-${quote.quoteNumber}-${Date.now()}`,
+      ...(quote.customer.email && { customerEmail: quote.customer.email }),
+      customerName: quote.customer.name
+    };
+
+    // Crear orden en el proveedor
+    const orderResult = await paymentProvider.createPaymentOrder(paymentOrderParams);
+
+    // Crear documento Payment en la base de datos
+    const payment = new Payment({
+      quote: quote._id,
+      attemptNumber,
+      provider: paymentProvider.name,
+      mercadopagoId: orderResult.preferenceId,
+      status: 'pending',
+      amount: paymentAmount.amount,
+      expiresAt: orderResult.expiresAt,
+      qrCode: orderResult.qrCodeBase64,
+      qrCodeData: orderResult.qrCodeData,
+      externalReference: paymentOrderParams.externalReference
+    });
+
+    await payment.save();
+
+    // Actualizar el presupuesto con el ID del pago sin volver a validar el documento completo
+    await Quote.updateOne({ _id: quote._id }, { $set: { paymentId: payment._id } });
+    quote.paymentId = payment._id;
+
+    logger.info('Pago creado exitosamente', {
+      paymentId: payment._id,
+      provider: payment.provider,
+      preferenceId: orderResult.preferenceId,
+      quoteNumber: quote.quoteNumber,
+      amount: payment.amount,
+      isPartial
+    });
+
+    return {
+      success: true,
+      message: 'Orden de pago creada exitosamente',
+      payment,
+      quote,
+      reused: false,
+      isPartial,
+      balanceDue,
+      initPoint: orderResult.initPoint,
+      ...(orderResult.sandboxInitPoint && { sandboxInitPoint: orderResult.sandboxInitPoint })
+    };
+  }
+}
+
+// Crear instancia singleton
+let paymentOrderService: PaymentOrderService;
+
+/**
+ * Obtener instancia del servicio de órdenes de pago
+ */
+export const getPaymentOrderService = (): PaymentOrderService => {
+  if (!paymentOrderService) {
+    paymentOrderService = new PaymentOrderService();
+  }
+  return paymentOrderService;
+};
+
+export default PaymentOrderService;
@@ -0,0 +1,145 @@
+import { getPaymentProviderConfig } from '../config/paymentProvider';
+import { logger } from '../utils/logger';
+import { OnlinePaymentProviderName } from '../types';
+import { getMercadoPagoService } from './mercadopago.service';
+import { getMockPaymentProvider } from './mockPayment.service';
+
+/**
+ * Interfaz para los parámetros de creación de orden de pago
+ */
+export interface CreatePaymentOrderParams {
+  quoteId: string;
+  amount: number;
+  description: string;
+  externalReference: string;
+  customerEmail?: string;
+  customerName?: string;
+}
+
+/**
+ * Interfaz para el resultado de creación de orden de pago
+ */
+export interface CreatePaymentOrderResult {
+  preferenceId: string;
+  qrCodeBase64: string;
+  qrCodeData: string;
+  initPoint: string;
+  sandboxInitPoint?: string;
+  expiresAt: Date;
+}
+
+/**
+ * Interfaz para datos del webhook procesado
+ */
+export interface ProcessedWebhookData {
+  paymentId: string;
+  status: string;
+  externalReference?: string;
+  merchantOrder?: string;
+  topic: string;
+  isValid: boolean;
+}
+
+/**
+ * Datos de la request necesarios para verificar la firma de un webhook
+ */
+export interface WebhookSignatureContext {
+  signature?: string;
+  requestId?: string;
+  dataId?: string;
+}
+
+/**
+ * Resultado de la verificación de firma
+ */
+export interface WebhookSignatureVerification {
+  isValid: boolean;
+  reason?: string;
+}
+
+/**
+ * Pago registrado en el proveedor
+ */
+export interface ProviderPayment {
+  id: string;
+  status: string;
+  paymentMethod?: string;
+  externalReference?: string;
+}
+
+/**
+ * Reembolso registrado en el proveedor
+ */
+export interface ProviderRefund {
+  id?: string;
+  amount?: number;
+  status?: string;
+}
+
+/**
+ * Operaciones que debe implementar un proveedor de pagos en línea
+ */
+export interface PaymentProvider {
+  readonly name: OnlinePaymentProviderName;
+
+  /**
+   * Validar la configuración del proveedor (se llama al iniciar la aplicación)
+   */
+  initialize(): void;
+
+  createPaymentOrder(params: CreatePaymentOrderParams): Promise<CreatePaymentOrderResult>;
+
+  getPayment(providerPaymentId: string): Promise<ProviderPayment>;
+
+  /**
+   * Pagos asociados a una referencia externa (más recientes primero)
+   */
+  findPaymentsByReference(externalReference: string): Promise<ProviderPayment[]>;
+
+  /**
+   * Reembolsar un pago total (sin monto) o parcialmente
+   */
+  refundPayment(providerPaymentId: string, amount?: number, idempotencyKey?: string): Promise<ProviderRefund>;
+
+  verifyWebhookSignature(context: WebhookSignatureContext): WebhookSignatureVerification;
+
+  /**
+   * Verificar y resolver una notificación de webhook
+   * Sin contexto de firma no se verifica (por ejemplo al reprocesar un evento)
+   */
+  processWebhook(webhookData: any, signatureContext?: WebhookSignatureContext): Promise<ProcessedWebhookData>;
+}
+
+// Los servicios se crean al primer uso: no se exigen credenciales de
+// proveedores que no se utilizan
+const resolveProvider = (name: OnlinePaymentProviderName): PaymentProvider => {
+  switch (name) {
+    case 'mercadopago':
+      return getMercadoPagoService();
+    case 'mock':
+      return getMockPaymentProvider();
+  }
+};
+
+/**
+ * Obtener el proveedor de pagos en línea
+ * Sin nombre se usa el configurado en PAYMENT_PROVIDER; los pagos existentes
+ * deben usar el proveedor con el que se crearon.
+ */
+export const getPaymentProvider = (name?: OnlinePaymentProviderName): PaymentProvider => {
+  return resolveProvider(name || getPaymentProviderConfig().provider);
+};
+
+/**
+ * Inicializar el proveedor de pagos configurado (para llamar al inicio de la aplicación)
+ */
+export const initializePaymentProvider = (): void => {
+  const { provider: name } = getPaymentProviderConfig();
+
+  if (name === 'mock' && process.env.NODE_ENV === 'production') {
+    throw new Error('El proveedor de pagos simulado no puede usarse en producción');
+  }
+
+  getPaymentProvider(name).initialize();
+  logger.info('Proveedor de pagos inicializado', { provider: name });
+};
@@ -0,0 +1,330 @@
+import Quote from '../models/Quote';
+import Payment, { SETTLED_PAYMENT_STATUSES } from '../models/Payment';
+import { getPaymentsConfig } from '../config/payments';
+import { logger } from '../utils/logger';
+import { IPayment, IQuote } from '../types';
+import { getPaymentProvider } from './paymentProvider.service';
+import { getStockService } from './stock.service';
+import { getCouponService } from './coupon.service';
+
+/**
+ * Datos del proveedor que acompañan un cambio de estado
+ */
+export interface ProviderStatusUpdate {
+  status: string;
+  providerPaymentId?: string;
+  paymentMethod?: string;
+  webhookData?: any;
+}
+
+/**
+ * Resultado de sincronizar un pago con su proveedor
+ */
+export interface PaymentSyncResult {
+  paymentId: string;
+  previousStatus: IPayment['status'];
+  status: IPayment['status'];
+  changed: boolean;
+  providerStatus: string | null;
+  providerPaymentId: string | null;
+  syncedAt: Date;
+}
+
+// Minutos sin novedades para considerar un pago pendiente como desactualizado
+const STALE_AFTER_MINUTES = parseInt(process.env.PAYMENT_SYNC_STALE_MINUTES || '5', 10) || 5;
+
+// Estados del proveedor (formato MercadoPago) ordenados por relevancia al elegir entre varios intentos
+const PROVIDER_STATUS_PRIORITY = ['refunded', 'approved', 'authorized', 'in_process', 'pending', 'rejected', 'cancelled'];
+
+/**
+ * Servicio para aplicar los estados del proveedor de pagos a los pagos locales
+ *
+ * Centraliza la transición de estados para que el webhook y la consulta
+ * activa (polling) produzcan exactamente el mismo resultado.
+ */
+class PaymentSyncService {
+
+  /**
+   * Aplicar un estado informado por el proveedor a un pago local
+   * Devuelve true si el estado del pago cambió
+   */
+  async applyProviderStatus(payment: IPayment, update: ProviderStatusUpdate): Promise<boolean> {
+    const previousStatus = payment.status;
+
+    if (update.providerPaymentId) payment.mercadopagoPaymentId = update.providerPaymentId;
+    if (update.paymentMethod) payment.paymentMethod = update.paymentMethod;
+    if (update.webhookData) payment.webhookData = update.webhookData;
+
+    // Un pago cobrado no vuelve atrás por una notificación tardía; solo puede pasar a reembolsado
+    const isSettled = SETTLED_PAYMENT_STATUSES.includes(previousStatus);
+    if (update.status === previousStatus || (isSettled && update.status !== 'refunded')) {
+      await payment.save();
+      return false;
+    }
+
+    // Actualizar estado del pago según la respuesta de MercadoPago
+    switch (update.status) {
+      case 'approved':
+        payment.status = 'approved';
+        payment.paidAt = new Date();
+        break;
+
+      case 'rejected':
+        // El presupuesto se mantiene pending para permitir otro intento de pago
+        payment.status = 'rejected';
+        break;
+
+      case 'cancelled':
+        payment.status = 'cancelled';
+        break;
+
+      case 'refunded':
+        // Reembolso total hecho desde el panel de MercadoPago
+        if (!isSettled) {
+          logger.warn('Reembolso informado para un pago no cobrado', { paymentId: payment._id, previousStatus });
+          await payment.save();
+          return false;
+        }
+        payment.status = 'refunded';
+        payment.refundedAmount = payment.amount;
+        break;
+
+      default:
+        logger.info('Estado de pago no reconocido', { status: update.status });
+        await payment.save();
+        return false;
+    }
+
+    await payment.save();
+
+    // El presupuesto se actualiza con el pago ya guardado para que cuente en su saldo
+    if (payment.status === 'approved') {
+      await this.applyPaymentToQuote(payment);
+    } else if (payment.status === 'refunded') {
+      await this.refreshQuoteBalance(payment.quote.toString());
+    }
+
+    logger.info('Estado de pago actualizado', {
+      paymentId: payment._id,
+      previousStatus,
+      newStatus: payment.status,
+      paidAt: payment.paidAt
+    });
+
+    return true;
+  }
+
+  /**
+   * Consultar al proveedor por la referencia externa y aplicar el estado encontrado
+   */
+  async syncPayment(payment: IPayment): Promise<PaymentSyncResult> {
+    const previousStatus = payment.status;
+
+    // Los pagos manuales no tienen estado en un proveedor
+    if (payment.provider === 'manual') {
+      return {
+        paymentId: payment._id.toString(),
+        previousStatus,
+        status: payment.status,
+        changed: false,
+        providerStatus: null,
+        providerPaymentId: null,
+        syncedAt: new Date()
+      };
+    }
+
+    const results = await getPaymentProvider(payment.provider).findPaymentsByReference(payment.externalReference);
+
+    // Con varios intentos sobre la misma preferencia, priorizar el más avanzado
+    const providerPayment = [...results].sort((a, b) =>
+      this.statusPriority(a.status) - this.statusPriority(b.status)
+    )[0];
+
+    payment.lastSyncedAt = new Date();
+    let changed = false;
+
+    if (providerPayment?.status) {
+      changed = await this.applyProviderStatus(payment, {
+        status: providerPayment.status,
+        ...(providerPayment.id && { providerPaymentId: providerPayment.id }),
+        ...(providerPayment.paymentMethod && { paymentMethod: providerPayment.paymentMethod })
+      });
+    } else {
+      await payment.save();
+    }
+
+    logger.info('Pago sincronizado con el proveedor', {
+      provider: payment.provider,
+      paymentId: payment._id,
+      externalReference: payment.externalReference,
+      resultsFound: results.length,
+      providerStatus: providerPayment?.status,
+      changed
+    });
+
+    return {
+      paymentId: payment._id.toString(),
+      previousStatus,
+      status: payment.status,
+      changed,
+      providerStatus: providerPayment?.status || null,
+      providerPaymentId: providerPayment?.id || null,
+      syncedAt: payment.lastSyncedAt
+    };
+  }
+
+  /**
+   * Indicar si un pago pendiente no se sincronizó en los últimos minutos
+   */
+  isStale(payment: IPayment): boolean {
+    if (payment.status !== 'pending' || payment.provider === 'manual') {
+      return false;
+    }
+
+    const lastCheck = payment.lastSyncedAt || payment.updatedAt || payment.createdAt;
+    return Date.now() - new Date(lastCheck).getTime() > STALE_AFTER_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Indicar si venció la preferencia de un intento de pago
+   * Los pagos anteriores a este campo usan el vencimiento por defecto de 24 horas
+   */
+  isAttemptExpired(payment: IPayment): boolean {
+    const expiresAt = payment.expiresAt
+      ? new Date(payment.expiresAt)
+      : new Date(new Date(payment.createdAt).getTime() + 24 * 60 * 60 * 1000);
+
+    return expiresAt.getTime() <= Date.now();
+  }
+
+  /**
+   * Recalcular monto pagado, saldo y estado de un presupuesto a partir de sus pagos cobrados
+   *
+   * Se recalcula desde los pagos (y no con incrementos) para que aplicar dos
+   * veces la misma notificación no altere el saldo.
+   */
+  async refreshQuoteBalance(quoteId: string): Promise<IQuote | null> {
+    const quote = await Quote.findById(quoteId);
+    if (!quote) {
+      return null;
+    }
+
+    const payments = await Payment.find({ quote: quote._id, status: { $in: SETTLED_PAYMENT_STATUSES } })
+      .select('amount refundedAmount');
+
+    const amountPaid = Math.round(
+      payments.reduce((sum, payment) => sum + payment.amount - (payment.refundedAmount || 0), 0) * 100
+    ) / 100;
+    const hasRefunds = payments.some(payment => (payment.refundedAmount || 0) > 0);
+
+    quote.amountPaid = Math.max(0, amountPaid);
+
+    if (hasRefunds) {
+      quote.status = quote.amountPaid > 0 ? 'partially_refunded' : 'refunded';
+    } else if (quote.amountPaid >= quote.total) {
+      quote.status = 'paid';
+    } else if (quote.amountPaid > 0) {
+      quote.status = 'partially_paid';
+    }
+
+    await quote.save();
+
+    // El uso del cupón se cuenta recién cuando el presupuesto queda pagado
+    if (quote.status === 'paid' && quote.coupon && !quote.coupon.redeemedAt) {
+      await getCouponService().redeemForQuote(quote);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Aplicar un pago aprobado al presupuesto y, según la regla configurada,
+   * convertir su reserva de stock
+   */
+  private async applyPaymentToQuote(payment: IPayment): Promise<void> {
+    const quote = await this.refreshQuoteBalance(payment.quote.toString());
+    if (!quote) {
+      return;
+    }
+
+    const { stockCommitRule, depositHoldDays } = getPaymentsConfig();
+    const stockService = getStockService();
+    const holdUntil = new Date(Date.now() + depositHoldDays * 24 * 60 * 60 * 1000);
+
+    if (quote.status === 'partially_paid' && quote.expiresAt < holdUntil) {
+      // El saldo se puede pagar mientras dure la reserva de la seña
+      await Quote.updateOne({ _id: quote._id }, { $set: { expiresAt: holdUntil } });
+      quote.expiresAt = holdUntil;
+    }
+
+    if (quote.status !== 'paid' && stockCommitRule === 'full_payment') {
+      // La reserva se mantiene mientras el cliente completa el saldo
+      await stockService.extendReservation(quote._id.toString(), holdUntil);
+
+      logger.info('Pago parcial aplicado, stock reservado hasta completar el saldo', {
+        paymentId: payment._id,
+        quoteId: quote._id,
+        amountPaid: quote.amountPaid,
+        balanceDue: quote.balanceDue,
+        holdUntil
+      });
+      return;
+    }
+
+    // Tomar la conversión una sola vez aunque lleguen dos pagos a la vez
+    const claim = await Quote.updateOne(
+      { _id: quote._id, stockCommittedAt: { $exists: false } },
+      { $set: { stockCommittedAt: new Date() } }
+    );
+
+    if (claim.modifiedCount === 0) {
+      return;
+    }
+
+    // Convertir la reserva del presupuesto en decremento real de stock
+    const stockItems = quote.items.map(item => ({
+      productId: item.product.toString(),
+      quantity: item.quantity
+    }));
+
+    const stockResult = await stockService.commitReservation(quote._id.toString(), stockItems, {
+      quoteId: quote._id.toString(),
+      paymentId: payment._id.toString()
+    });
+
+    if (!stockResult.success) {
+      logger.error('Error decrementando stock después del pago', {
+        paymentId: payment._id,
+        quoteId: quote._id,
+        errors: stockResult.errors
+      });
+      // En este caso, podrías enviar notificaciones al administrador
+    } else {
+      logger.info('Stock decrementado exitosamente', {
+        paymentId: payment._id,
+        quoteId: quote._id,
+        productsUpdated: stockResult.updatedProducts?.length
+      });
+    }
+  }
+
+  private statusPriority(status?: string): number {
+    const index = PROVIDER_STATUS_PRIORITY.indexOf(status || '');
+    return index === -1 ? PROVIDER_STATUS_PRIORITY.length : index;
+  }
+}
+
+// Crear instancia singleton
+let paymentSyncService: PaymentSyncService;
+
+/**
+ * Obtener instancia del servicio de sincronización de pagos
+ */
+export const getPaymentSyncService = (): PaymentSyncService => {
+  if (!paymentSyncService) {
+    paymentSyncService = new PaymentSyncService();
+  }
+  return paymentSyncService;
+};
+
+export default PaymentSyncService;
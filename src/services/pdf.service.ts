@@ -0,0 +1,566 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { getCompanyConfig, CompanyConfig } from '../config/company';
+import { logger } from '../utils/logger';
+import { IQuote, IPayment } from '../types';
+import type { CustomerSummary } from './customer.service';
+
+/**
+ * Parámetros para generar el PDF de un presupuesto
+ */
+export interface QuotePdfParams {
+  quote: IQuote;
+  payment?: IPayment | null;
+}
+
+type PdfDocument = InstanceType<typeof PDFDocument>;
+
+/**
+ * Columna de una tabla genérica
+ */
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const PAGE_MARGIN = 50;
+const PRIMARY_COLOR = '#1F3A5F';
+const MUTED_COLOR = '#6B7280';
+
+/**
+ * Servicio para generar documentos PDF
+ */
+class PdfService {
+  private company: CompanyConfig = getCompanyConfig();
+
+  /**
+   * Generar PDF de un presupuesto
+   */
+  async generateQuotePdf(params: QuotePdfParams): Promise<Buffer> {
+    try {
+      const { quote, payment } = params;
+
+      logger.info('Generando PDF de presupuesto', {
+        quoteId: quote._id,
+        quoteNumber: quote.quoteNumber
+      });
+
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        bufferPages: true,
+        info: {
+          Title: `Presupuesto ${quote.quoteNumber}`,
+          Author: this.company.name
+        }
+      });
+
+      const bufferPromise = this.toBuffer(doc);
+
+      this.renderHeader(doc, `PRESUPUESTO ${quote.quoteNumber}`);
+      this.renderQuoteInfo(doc, quote);
+      this.renderItemsTable(doc, quote);
+      this.renderTotals(doc, quote);
+
+      if (quote.notes) {
+        this.renderNotes(doc, quote.notes);
+      }
+
+      // Embeber el QR de MercadoPago solo si el pago sigue pendiente
+      if (payment?.qrCode && payment.status === 'pending') {
+        this.renderPaymentQr(doc, payment);
+      }
+
+      this.renderFooter(doc);
+      doc.end();
+
+      return await bufferPromise;
+
+    } catch (error) {
+      logger.error('Error generando PDF de presupuesto:', error);
+      throw new Error('Error generando el documento PDF');
+    }
+  }
+
+  /**
+   * Generar PDF del estado de cuenta de un cliente
+   */
+  async generateCustomerStatementPdf(summary: CustomerSummary): Promise<Buffer> {
+    try {
+      logger.info('Generando PDF de estado de cuenta', { customerId: summary.customer.id });
+
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        bufferPages: true,
+        info: {
+          Title: `Estado de cuenta - ${summary.customer.name}`,
+          Author: this.company.name
+        }
+      });
+
+      const bufferPromise = this.toBuffer(doc);
+      const { customer, totals } = summary;
+
+      this.renderHeader(doc, 'ESTADO DE CUENTA');
+
+      // Datos del cliente y fecha de emisión
+      const startY = doc.y;
+      const rightColumnX = doc.page.width / 2 + 20;
+
+      doc.fillColor('#000000').fontSize(10).font('Helvetica-Bold')
+        .text('Cliente', PAGE_MARGIN, startY);
+      doc.font('Helvetica').text(customer.name);
+      if (customer.taxId) doc.text(`CUIT: ${customer.taxId}`);
+      if (customer.emails.length > 0) doc.text(customer.emails.join(', '));
+      if (customer.phones.length > 0) doc.text(customer.phones.join(', '));
+      const leftEndY = doc.y;
+
+      doc.font('Helvetica-Bold').text('Detalle', rightColumnX, startY);
+      doc.font('Helvetica')
+        .text(`Emitido: ${this.formatDate(summary.generatedAt)}`, rightColumnX)
+        .text(`Presupuestos: ${summary.quotes.count}`, rightColumnX)
+        .text(`Compras: ${totals.purchasesCount}`, rightColumnX)
+        .text(`Última compra: ${totals.lastPurchaseAt ? this.formatDate(totals.lastPurchaseAt) : '-'}`, rightColumnX);
+
+      doc.x = PAGE_MARGIN;
+      doc.y = Math.max(leftEndY, doc.y) + 20;
+
+      this.renderTable(doc, [
+        { header: 'Total presupuestado', width: 125, align: 'right' },
+        { header: 'Total pagado', width: 120, align: 'right' },
+        { header: 'Saldo pendiente', width: 120, align: 'right' },
+        { header: 'Ticket promedio', width: 130, align: 'right' }
+      ], [[
+        this.formatCurrency(totals.totalQuoted),
+        this.formatCurrency(totals.totalPaid),
+        this.formatCurrency(totals.outstandingBalance),
+        this.formatCurrency(totals.averageTicket)
+      ]]);
+
+      this.renderSectionTitle(doc, 'Presupuestos');
+      this.renderTable(doc, [
+        { header: 'Número', width: 110 },
+        { header: 'Fecha', width: 65 },
+        { header: 'Estado', width: 90 },
+        { header: 'Total', width: 80, align: 'right' },
+        { header: 'Pagado', width: 75, align: 'right' },
+        { header: 'Saldo', width: 75, align: 'right' }
+      ], summary.quotes.list.map(quote => [
+        quote.quoteNumber,
+        this.formatDate(quote.createdAt),
+        quote.status,
+        this.formatCurrency(quote.total),
+        this.formatCurrency(quote.amountPaid),
+        this.formatCurrency(quote.balanceDue)
+      ]));
+
+      this.renderSectionTitle(doc, 'Pagos');
+      this.renderTable(doc, [
+        { header: 'Fecha', width: 65 },
+        { header: 'Presupuesto', width: 110 },
+        { header: 'Medio', width: 90 },
+        { header: 'Estado', width: 75 },
+        { header: 'Monto', width: 80, align: 'right' },
+        { header: 'Reembolsado', width: 75, align: 'right' }
+      ], summary.payments.list.map(payment => [
+        this.formatDate(payment.paidAt),
+        payment.quoteNumber,
+        payment.paymentMethod || payment.provider,
+        payment.status,
+        this.formatCurrency(payment.amount),
+        this.formatCurrency(payment.refundedAmount)
+      ]));
+
+      if (summary.topProducts.length > 0) {
+        this.renderSectionTitle(doc, 'Productos más comprados');
+        this.renderTable(doc, [
+          { header: 'Producto', width: 320 },
+          { header: 'Cant.', width: 75, align: 'right' },
+          { header: 'Importe', width: 100, align: 'right' }
+        ], summary.topProducts.map(product => [
+          product.name,
+          product.quantity.toString(),
+          this.formatCurrency(product.totalAmount)
+        ]));
+      }
+
+      this.renderFooter(doc);
+      doc.end();
+
+      return await bufferPromise;
+
+    } catch (error) {
+      logger.error('Error generando PDF de estado de cuenta:', error);
+      throw new Error('Error generando el documento PDF');
+    }
+  }
+
+  /**
+   * Acumular el stream del documento en un Buffer
+   */
+  private toBuffer(doc: PdfDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+  }
+
+  /**
+   * Encabezado con logo y datos de la empresa
+   */
+  private renderHeader(doc: PdfDocument, title: string): void {
+    const top = PAGE_MARGIN;
+    let textX = PAGE_MARGIN;
+
+    if (this.company.logoPath) {
+      if (fs.existsSync(this.company.logoPath)) {
+        doc.image(this.company.logoPath, PAGE_MARGIN, top, { fit: [80, 80] });
+        textX = PAGE_MARGIN + 95;
+      } else {
+        logger.warn('Logo de la empresa no encontrado', { logoPath: this.company.logoPath });
+      }
+    }
+
+    doc.fillColor(PRIMARY_COLOR).fontSize(18).font('Helvetica-Bold')
+      .text(this.company.name, textX, top);
+
+    doc.fillColor(MUTED_COLOR).fontSize(9).font('Helvetica');
+    const contactLines = [
+      this.company.taxId && `CUIT: ${this.company.taxId}`,
+      this.company.address,
+      [this.company.phone, this.company.email].filter(Boolean).join(' | '),
+      this.company.website
+    ].filter(Boolean) as string[];
+
+    for (const line of contactLines) {
+      doc.text(line, textX);
+    }
+
+    doc.fillColor(PRIMARY_COLOR).fontSize(14).font('Helvetica-Bold')
+      .text(title, PAGE_MARGIN, top, { align: 'right' });
+
+    doc.moveTo(PAGE_MARGIN, top + 90)
+      .lineTo(doc.page.width - PAGE_MARGIN, top + 90)
+      .strokeColor(PRIMARY_COLOR)
+      .stroke();
+
+    doc.y = top + 105;
+  }
+
+  /**
+   * Datos del presupuesto y del cliente
+   */
+  private renderQuoteInfo(doc: PdfDocument, quote: IQuote): void {
+    const startY = doc.y;
+    const rightColumnX = doc.page.width / 2 + 20;
+
+    doc.fillColor('#000000').fontSize(10).font('Helvetica-Bold')
+      .text('Cliente', PAGE_MARGIN, startY);
+    doc.font('Helvetica').text(quote.customer.name);
+    if (quote.customer.email) doc.text(quote.customer.email);
+    if (quote.customer.phone) doc.text(quote.customer.phone);
+    const leftEndY = doc.y;
+
+    doc.font('Helvetica-Bold').text('Detalle', rightColumnX, startY);
+    doc.font('Helvetica')
+      .text(`Fecha: ${this.formatDate(quote.createdAt)}`, rightColumnX)
+      .text(`Válido hasta: ${this.formatDate(quote.expiresAt)}`, rightColumnX)
+      .text(`Estado: ${quote.status}`, rightColumnX);
+
+    doc.x = PAGE_MARGIN;
+    doc.y = Math.max(leftEndY, doc.y) + 20;
+  }
+
+  /**
+   * Tabla de items con el snapshot de cada producto
+   * La columna de descuento solo se muestra si algún item lo tiene
+   */
+  private renderItemsTable(doc: PdfDocument, quote: IQuote): void {
+    const hasItemDiscounts = quote.items.some(item => item.discount && item.discount.value > 0);
+
+    const columns = hasItemDiscounts
+      ? {
+        name: { x: PAGE_MARGIN, width: 190 },
+        quantity: { x: PAGE_MARGIN + 195, width: 40 },
+        price: { x: PAGE_MARGIN + 240, width: 85 },
+        discount: { x: PAGE_MARGIN + 330, width: 70 },
+        subtotal: { x: PAGE_MARGIN + 405, width: 90 }
+      }
+      : {
+        name: { x: PAGE_MARGIN, width: 250 },
+        quantity: { x: PAGE_MARGIN + 255, width: 50 },
+        price: { x: PAGE_MARGIN + 310, width: 90 },
+        discount: null,
+        subtotal: { x: PAGE_MARGIN + 405, width: 90 }
+      };
+
+    const renderRow = (values: [string, string, string, string, string], bold: boolean = false): void => {
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10).fillColor('#000000');
+      doc.text(values[0], columns.name.x, y, { width: columns.name.width });
+      const rowEndY = doc.y;
+      doc.text(values[1], columns.quantity.x, y, { width: columns.quantity.width, align: 'right' });
+      doc.text(values[2], columns.price.x, y, { width: columns.price.width, align: 'right' });
+      if (columns.discount) {
+        doc.text(values[3], columns.discount.x, y, { width: columns.discount.width, align: 'right' });
+      }
+      doc.text(values[4], columns.subtotal.x, y, { width: columns.subtotal.width, align: 'right' });
+      doc.y = Math.max(rowEndY, doc.y) + 4;
+    };
+
+    renderRow(['Producto', 'Cant.', 'Precio unit.', 'Desc.', 'Subtotal'], true);
+    this.renderDivider(doc);
+
+    for (const item of quote.items) {
+      // Saltar de página si no queda espacio para la fila
+      if (doc.y > doc.page.height - PAGE_MARGIN - 80) {
+        doc.addPage();
+      }
+
+      const discountLabel = !item.discount || item.discount.value <= 0
+        ? ''
+        : item.discount.type === 'percent'
+          ? `${item.discount.value}%`
+          : `- ${this.formatCurrency(item.discount.value)}`;
+
+      const lineDiscount = item.discount?.type === 'percent'
+        ? (item.subtotal * item.discount.value) / 100
+        : item.discount?.value || 0;
+
+      renderRow([
+        item.productSnapshot.name,
+        item.quantity.toString(),
+        this.formatCurrency(item.productSnapshot.price),
+        discountLabel,
+        this.formatCurrency(item.subtotal - lineDiscount)
+      ]);
+    }
+
+    this.renderDivider(doc);
+  }
+
+  /**
+   * Bloque de totales (subtotal, descuento, impuestos por alícuota, total)
+   * Los presupuestos sin desglose guardado usan el descuento y el impuesto generales
+   */
+  private renderTotals(doc: PdfDocument, quote: IQuote): void {
+    const labelX = PAGE_MARGIN + 255;
+    const valueX = PAGE_MARGIN + 405;
+
+    const rows: Array<[string, string]> = [
+      ['Subtotal', this.formatCurrency(quote.subtotal)]
+    ];
+
+    const hasItemDiscounts = quote.items.some(item => item.discount && item.discount.value > 0);
+    const discountAmount = quote.discountAmount ?? (quote.subtotal * quote.discount) / 100;
+    const couponAmount = quote.coupon?.discountAmount || 0;
+    const otherDiscounts = Math.round((discountAmount - couponAmount) * 100) / 100;
+
+    if (otherDiscounts > 0) {
+      const isPercentOnly = !hasItemDiscounts && quote.discountType !== 'fixed' && quote.discount > 0;
+      const label = isPercentOnly ? `Descuento (${quote.discount}%)` : 'Descuentos';
+      rows.push([label, `- ${this.formatCurrency(otherDiscounts)}`]);
+    }
+
+    if (quote.coupon && couponAmount > 0) {
+      rows.push([`Cupón ${quote.coupon.code}`, `- ${this.formatCurrency(couponAmount)}`]);
+    }
+
+    if (quote.taxBreakdown && quote.taxBreakdown.length > 0) {
+      for (const entry of quote.taxBreakdown) {
+        if (entry.taxAmount > 0) {
+          rows.push([`Impuestos (${entry.rate}%)`, this.formatCurrency(entry.taxAmount)]);
+        }
+      }
+    } else if (quote.tax > 0) {
+      const taxAmount = ((quote.subtotal - discountAmount) * quote.tax) / 100;
+      rows.push([`Impuestos (${quote.tax}%)`, this.formatCurrency(taxAmount)]);
+    }
+
+    doc.moveDown(0.5);
+
+    for (const [label, value] of rows) {
+      const y = doc.y;
+      doc.font('Helvetica').fontSize(10)
+        .text(label, labelX, y, { width: 140, align: 'right' })
+        .text(value, valueX, y, { width: 90, align: 'right' });
+    }
+
+    const totalY = doc.y + 4;
+    doc.font('Helvetica-Bold').fontSize(12).fillColor(PRIMARY_COLOR)
+      .text('TOTAL', labelX, totalY, { width: 140, align: 'right' })
+      .text(this.formatCurrency(quote.total), valueX, totalY, { width: 90, align: 'right' });
+
+    doc.fillColor('#000000').x = PAGE_MARGIN;
+    doc.moveDown(1.5);
+  }
+
+  /**
+   * Notas del presupuesto
+   */
+  private renderNotes(doc: PdfDocument, notes: string): void {
+    doc.font('Helvetica-Bold').fontSize(10).text('Notas', PAGE_MARGIN);
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR)
+      .text(notes, { width: doc.page.width - PAGE_MARGIN * 2 });
+    doc.fillColor('#000000').moveDown();
+  }
+
+  /**
+   * QR de MercadoPago para pagar el presupuesto
+   */
+  private renderPaymentQr(doc: PdfDocument, payment: IPayment): void {
+    const qrSize = 130;
+
+    if (doc.y + qrSize + 40 > doc.page.height - PAGE_MARGIN - 40) {
+      doc.addPage();
+    }
+
+    const match = /^data:image\/\w+;base64,(.+)$/.exec(payment.qrCode || '');
+    if (!match?.[1]) {
+      logger.warn('QR del pago con formato no soportado, se omite en el PDF', {
+        paymentId: payment._id
+      });
+      return;
+    }
+
+    doc.font('Helvetica-Bold').fontSize(10).text('Pagá con MercadoPago', PAGE_MARGIN);
+    doc.image(Buffer.from(match[1], 'base64'), PAGE_MARGIN, doc.y + 5, { width: qrSize });
+    doc.y += qrSize + 10;
+
+    if (payment.qrCodeData) {
+      doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR)
+        .text(payment.qrCodeData, PAGE_MARGIN, doc.y, { link: payment.qrCodeData, underline: true });
+      doc.fillColor('#000000');
+    }
+  }
+
+  /**
+   * Pie de página en todas las páginas
+   */
+  private renderFooter(doc: PdfDocument): void {
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+
+      // Evitar que el texto del pie genere una página nueva
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+
+      const footerY = doc.page.height - PAGE_MARGIN;
+      doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR)
+        .text(this.company.footerText, PAGE_MARGIN, footerY, {
+          width: doc.page.width - PAGE_MARGIN * 2 - 60,
+          lineBreak: false
+        })
+        .text(`Página ${i - range.start + 1} de ${range.count}`, PAGE_MARGIN, footerY, {
+          width: doc.page.width - PAGE_MARGIN * 2,
+          align: 'right',
+          lineBreak: false
+        });
+
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  /**
+   * Título de sección
+   */
+  private renderSectionTitle(doc: PdfDocument, title: string): void {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 100) {
+      doc.addPage();
+    }
+
+    doc.moveDown(0.5);
+    doc.fillColor(PRIMARY_COLOR).font('Helvetica-Bold').fontSize(11).text(title, PAGE_MARGIN);
+    doc.fillColor('#000000').moveDown(0.3);
+  }
+
+  /**
+   * Tabla simple con encabezado y una fila por registro
+   */
+  private renderTable(doc: PdfDocument, columns: TableColumn[], rows: string[][]): void {
+    const renderRow = (values: string[], bold: boolean = false): void => {
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      let rowEndY = y;
+
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor('#000000');
+
+      columns.forEach((column, index) => {
+        doc.text(values[index] || '', x, y, { width: column.width - 5, align: column.align || 'left' });
+        rowEndY = Math.max(rowEndY, doc.y);
+        x += column.width;
+      });
+
+      doc.x = PAGE_MARGIN;
+      doc.y = rowEndY + 4;
+    };
+
+    renderRow(columns.map(column => column.header), true);
+    this.renderDivider(doc);
+
+    if (rows.length === 0) {
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text('Sin registros', PAGE_MARGIN);
+      doc.fillColor('#000000').moveDown(0.5);
+      return;
+    }
+
+    for (const row of rows) {
+      // Saltar de página si no queda espacio para la fila
+      if (doc.y > doc.page.height - PAGE_MARGIN - 60) {
+        doc.addPage();
+      }
+      renderRow(row);
+    }
+
+    this.renderDivider(doc);
+  }
+
+  /**
+   * Línea divisoria horizontal
+   */
+  private renderDivider(doc: PdfDocument): void {
+    doc.moveTo(PAGE_MARGIN, doc.y)
+      .lineTo(doc.page.width - PAGE_MARGIN, doc.y)
+      .strokeColor('#D1D5DB')
+      .stroke();
+    doc.y += 4;
+  }
+
+  /**
+   * Formatear montos en pesos argentinos
+   */
+  private formatCurrency(amount: number): string {
+    return new Intl.NumberFormat('es-AR', {
+      style: 'currency',
+      currency: 'ARS'
+    }).format(amount);
+  }
+
+  /**
+   * Formatear fecha en formato local
+   */
+  private formatDate(date: Date): string {
+    return new Intl.DateTimeFormat('es-AR').format(new Date(date));
+  }
+}
+
+// Crear instancia singleton
+let pdfService: PdfService;
+
+/**
+ * Obtener instancia del servicio de PDF
+ */
+export const getPdfService = (): PdfService => {
+  if (!pdfService) {
+    pdfService = new PdfService();
+  }
+  return pdfService;
+};
+
+export default PdfService;
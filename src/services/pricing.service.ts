@@ -0,0 +1,431 @@
+import { Types, startSession, ClientSession } from 'mongoose';
+import Product from '../models/Product';
+import PriceChangeBatch from '../models/PriceChangeBatch';
+import PriceHistory from '../models/PriceHistory';
+import { logger } from '../utils/logger';
+import { BulkPriceChangeRequest, IPriceChangeBatch, IPriceHistory, IProduct, PriceChangeFilters, PriceChangeReason, PriceRounding } from '../types';
+
+/**
+ * Producto alcanzado por un cambio masivo de precios
+ */
+export interface PriceChangePreviewItem {
+  productId: string;
+  name: string;
+  sku?: string;
+  category: string;
+  previousPrice: number;
+  newPrice: number;
+  difference: number;
+}
+
+/**
+ * Vista previa de un cambio masivo de precios
+ */
+export interface PriceChangePreview {
+  productsMatched: number;
+  productsChanged: number;
+  unchangedCount: number;
+  items: PriceChangePreviewItem[];
+  // Productos cuyo precio resultante no es válido (se dejan como están)
+  skipped: Array<{ productId: string; name: string; previousPrice: number; newPrice: number; error: string }>;
+}
+
+/**
+ * Resultado de aplicar o revertir un lote de cambio de precios
+ */
+export interface PriceChangeResult {
+  success: boolean;
+  message: string;
+  batch?: IPriceChangeBatch;
+  preview?: PriceChangePreview;
+}
+
+/**
+ * Precio vigente de un producto en una fecha
+ */
+export interface PriceAtDate {
+  price: number;
+  // null si el precio no tiene un cambio registrado (anterior al historial)
+  effectiveFrom: Date | null;
+  change: IPriceHistory | null;
+}
+
+/**
+ * Escapar un texto para usarlo dentro de una expresión regular
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Servicio de cambios masivos de precios
+ *
+ * Cada cambio aplicado queda registrado como un lote con los precios anteriores
+ * (para poder revertirlo) y en el historial de precios de cada producto.
+ */
+class PricingService {
+  /**
+   * Completar la regla de redondeo con los valores por defecto (al centavo más cercano)
+   */
+  resolveRounding(rounding?: Partial<PriceRounding>): PriceRounding {
+    return {
+      mode: rounding?.mode ?? 'nearest',
+      step: rounding?.step ?? 0.01
+    };
+  }
+
+  /**
+   * Filtro de productos activos alcanzados por el cambio
+   */
+  buildProductFilter(filters: PriceChangeFilters): Record<string, any> {
+    const query: Record<string, any> = { isActive: true };
+
+    if (filters.category) {
+      query.category = new RegExp(`^${escapeRegExp(filters.category)}$`, 'i');
+    }
+
+    if (filters.skuPattern) {
+      const pattern = escapeRegExp(filters.skuPattern).replace(/\\\*/g, '.*');
+      query.sku = new RegExp(`^${pattern}$`, 'i');
+    }
+
+    if (filters.search) {
+      const pattern = new RegExp(escapeRegExp(filters.search), 'i');
+      query.$or = [
+        { name: pattern },
+        { description: pattern },
+        { sku: pattern }
+      ];
+    }
+
+    return query;
+  }
+
+  /**
+   * Calcular el precio nuevo aplicando el cambio y el redondeo
+   */
+  calculatePrice(previousPrice: number, change: Pick<BulkPriceChangeRequest, 'type' | 'value'>, rounding: PriceRounding): number {
+    const raw = change.type === 'percent'
+      ? previousPrice * (1 + change.value / 100)
+      : previousPrice + change.value;
+
+    const steps = raw / rounding.step;
+    const rounded = rounding.mode === 'up'
+      ? Math.ceil(roundAmount(steps))
+      : rounding.mode === 'down'
+        ? Math.floor(roundAmount(steps))
+        : Math.round(steps);
+
+    return roundAmount(rounded * rounding.step);
+  }
+
+  /**
+   * Calcular los precios nuevos sin modificar los productos
+   */
+  async previewBulkChange(request: BulkPriceChangeRequest, session?: ClientSession): Promise<PriceChangePreview> {
+    const rounding = this.resolveRounding(request.rounding);
+    const products = await Product.find(this.buildProductFilter(request))
+      .select('name sku category price')
+      .sort({ category: 1, name: 1 })
+      .session(session ?? null);
+
+    const preview: PriceChangePreview = {
+      productsMatched: products.length,
+      productsChanged: 0,
+      unchangedCount: 0,
+      items: [],
+      skipped: []
+    };
+
+    for (const product of products) {
+      const newPrice = this.calculatePrice(product.price, request, rounding);
+
+      if (newPrice < 0.01) {
+        preview.skipped.push({
+          productId: product._id.toString(),
+          name: product.name,
+          previousPrice: product.price,
+          newPrice,
+          error: 'El precio resultante debe ser mayor a 0'
+        });
+        continue;
+      }
+
+      if (newPrice === product.price) {
+        preview.unchangedCount++;
+        continue;
+      }
+
+      preview.items.push({
+        productId: product._id.toString(),
+        name: product.name,
+        ...(product.sku && { sku: product.sku }),
+        category: product.category,
+        previousPrice: product.price,
+        newPrice,
+        difference: roundAmount(newPrice - product.price)
+      });
+    }
+
+    preview.productsChanged = preview.items.length;
+
+    return preview;
+  }
+
+  /**
+   * Aplicar un cambio masivo de precios y registrar el lote y el historial
+   */
+  async applyBulkChange(request: BulkPriceChangeRequest, userId: string): Promise<PriceChangeResult> {
+    const session: ClientSession = await startSession();
+    let result: PriceChangeResult | undefined;
+
+    try {
+      logger.info('Aplicando cambio masivo de precios', { type: request.type, value: request.value });
+
+      await session.withTransaction(async () => {
+        const preview = await this.previewBulkChange(request, session);
+
+        if (preview.productsChanged === 0) {
+          result = { success: false, message: 'Ningún producto cambia de precio con los filtros indicados', preview };
+          throw new Error('Sin cambios de precio');
+        }
+
+        const [batch] = await PriceChangeBatch.create([{
+          filters: {
+            ...(request.category && { category: request.category }),
+            ...(request.skuPattern && { skuPattern: request.skuPattern }),
+            ...(request.search && { search: request.search }),
+            ...(request.allProducts && { allProducts: true })
+          },
+          type: request.type,
+          value: request.value,
+          rounding: this.resolveRounding(request.rounding),
+          items: preview.items.map(item => ({
+            product: item.productId,
+            name: item.name,
+            ...(item.sku && { sku: item.sku }),
+            previousPrice: item.previousPrice,
+            newPrice: item.newPrice
+          })),
+          productsCount: preview.productsChanged,
+          ...(request.notes && { notes: request.notes }),
+          createdBy: userId
+        }], { session });
+
+        await this.updatePrices(session, preview.items.map(item => ({
+          productId: item.productId,
+          previousPrice: item.previousPrice,
+          newPrice: item.newPrice
+        })), { reason: 'bulk', batchId: batch!._id, userId });
+
+        result = { success: true, message: 'Precios actualizados exitosamente', batch: batch!, preview };
+      });
+
+      logger.info('Cambio masivo de precios aplicado', {
+        batchId: result!.batch?._id,
+        productsChanged: result!.preview?.productsChanged
+      });
+      return result!;
+
+    } catch (error) {
+      if (result && !result.success) {
+        return result;
+      }
+
+      logger.error('Error aplicando cambio masivo de precios:', error);
+      throw new Error('Error aplicando cambio masivo de precios');
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Revertir un lote: cada producto vuelve a su precio anterior salvo que su
+   * precio haya cambiado después del lote (en ese caso se deja como está)
+   */
+  async revertBatch(batchId: string, userId: string): Promise<PriceChangeResult> {
+    const session: ClientSession = await startSession();
+    let result: PriceChangeResult | undefined;
+
+    try {
+      logger.info('Revirtiendo lote de cambio de precios', { batchId });
+
+      await session.withTransaction(async () => {
+        const batch = await PriceChangeBatch.findById(batchId).session(session);
+
+        if (!batch) {
+          result = { success: false, message: 'Lote de precios no encontrado' };
+          throw new Error('Lote no encontrado');
+        }
+
+        if (batch.status === 'reverted') {
+          result = { success: false, message: 'El lote ya fue revertido' };
+          throw new Error('Lote ya revertido');
+        }
+
+        const products = await Product.find({ _id: { $in: batch.items.map(item => item.product) } })
+          .select('price')
+          .session(session);
+        const currentPrices = new Map(products.map(product => [product._id.toString(), product.price]));
+
+        const revertible = batch.items.filter(item => currentPrices.get(item.product.toString()) === item.newPrice);
+
+        await this.updatePrices(session, revertible.map(item => ({
+          productId: item.product.toString(),
+          previousPrice: item.newPrice,
+          newPrice: item.previousPrice
+        })), { reason: 'revert', batchId: batch._id, userId });
+
+        const revertedIds = new Set(revertible.map(item => item.product.toString()));
+        batch.items.forEach(item => {
+          item.reverted = revertedIds.has(item.product.toString());
+        });
+        batch.status = 'reverted';
+        batch.revertedBy = new Types.ObjectId(userId);
+        batch.revertedAt = new Date();
+        await batch.save({ session });
+
+        const skippedCount = batch.items.length - revertible.length;
+
+        result = {
+          success: true,
+          message: skippedCount > 0
+            ? `Lote revertido. ${skippedCount} productos cambiaron de precio después del lote y se dejaron como estaban`
+            : 'Lote revertido exitosamente',
+          batch
+        };
+      });
+
+      logger.info('Lote de cambio de precios revertido', { batchId });
+      return result!;
+
+    } catch (error) {
+      if (result && !result.success) {
+        return result;
+      }
+
+      logger.error('Error revirtiendo lote de cambio de precios:', error);
+      throw new Error('Error revirtiendo lote de cambio de precios');
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Registrar un cambio de precio individual (alta o edición del producto) dentro de la sesión
+   */
+  async recordPriceChange(
+    session: ClientSession,
+    change: { productId: string; previousPrice?: number; price: number },
+    context: { reason: PriceChangeReason; userId?: string }
+  ): Promise<void> {
+    await PriceHistory.create([{
+      product: change.productId,
+      ...(change.previousPrice !== undefined && { previousPrice: change.previousPrice }),
+      price: change.price,
+      reason: context.reason,
+      ...(context.userId && { changedBy: context.userId })
+    }], { session });
+  }
+
+  /**
+   * Obtener el historial de precios de un producto (paginado, del más reciente al más antiguo)
+   */
+  async getPriceHistory(productId: string, page: number = 1, limit: number = 20) {
+    const filters = { product: new Types.ObjectId(productId) };
+
+    const [history, total] = await Promise.all([
+      PriceHistory.find(filters)
+        .populate('changedBy', 'name email')
+        .sort({ effectiveFrom: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      PriceHistory.countDocuments(filters)
+    ]);
+
+    return { history, total };
+  }
+
+  /**
+   * Precio vigente de un producto en una fecha
+   * Devuelve null si el producto todavía no existía en esa fecha
+   */
+  async getPriceAt(product: Pick<IProduct, '_id' | 'price' | 'createdAt'>, at: Date): Promise<PriceAtDate | null> {
+    const change = await PriceHistory.findOne({ product: product._id, effectiveFrom: { $lte: at } })
+      .populate('changedBy', 'name email')
+      .sort({ effectiveFrom: -1, _id: -1 });
+
+    if (change) {
+      return { price: change.price, effectiveFrom: change.effectiveFrom, change };
+    }
+
+    if (product.createdAt > at) {
+      return null;
+    }
+
+    // Sin cambios registrados hasta la fecha: rige el precio anterior al primer cambio posterior
+    const nextChange = await PriceHistory.findOne({ product: product._id, effectiveFrom: { $gt: at } })
+      .sort({ effectiveFrom: 1, _id: 1 })
+      .select('previousPrice')
+      .lean();
+
+    return {
+      price: nextChange?.previousPrice ?? product.price,
+      effectiveFrom: null,
+      change: null
+    };
+  }
+
+  /**
+   * Actualizar precios y registrar el historial dentro de la misma sesión
+   * Solo se modifica el producto si su precio sigue siendo el leído
+   */
+  private async updatePrices(
+    session: ClientSession,
+    changes: Array<{ productId: string; previousPrice: number; newPrice: number }>,
+    context: { reason: PriceChangeReason; batchId: Types.ObjectId; userId: string }
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const update = await Product.bulkWrite(changes.map(change => ({
+      updateOne: {
+        filter: { _id: new Types.ObjectId(change.productId), price: change.previousPrice },
+        update: { $set: { price: change.newPrice } }
+      }
+    })), { session });
+
+    if (update.modifiedCount !== changes.length) {
+      throw new Error('Los precios cambiaron durante la operación');
+    }
+
+    const effectiveFrom = new Date();
+
+    await PriceHistory.insertMany(changes.map(change => ({
+      product: change.productId,
+      previousPrice: change.previousPrice,
+      price: change.newPrice,
+      reason: context.reason,
+      batch: context.batchId,
+      changedBy: context.userId,
+      effectiveFrom
+    })), { session });
+  }
+}
+
+// Crear instancia singleton
+let pricingService: PricingService;
+
+/**
+ * Obtener instancia del servicio de precios
+ */
+export const getPricingService = (): PricingService => {
+  if (!pricingService) {
+    pricingService = new PricingService();
+  }
+  return pricingService;
+};
+
+export default PricingService;
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import Quote from '../models/Quote';
+import Payment from '../models/Payment';
+import { logger } from '../utils/logger';
+import { IQuote } from '../types';
+import { getBalanceDue } from './paymentOrder.service';
+
+// Audiencia de los tokens de enlace público (no sirven como token de sesión)
+const LINK_AUDIENCE = 'public-quote';
+
+/**
+ * Enlace público generado para un presupuesto
+ */
+export interface QuoteLink {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Resultado de resolver un token público
+ */
+export interface QuoteLinkResolution {
+  success: boolean;
+  message: string;
+  code?: 'LINK_INVALID' | 'LINK_EXPIRED' | 'LINK_REVOKED';
+  quote?: IQuote;
+}
+
+const getLinkSecret = (): string => {
+  const secret = process.env.QUOTE_LINK_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('QUOTE_LINK_SECRET o JWT_SECRET no está configurado');
+  }
+  return secret;
+};
+
+/**
+ * Servicio de enlaces públicos firmados para que el cliente vea y responda un presupuesto
+ *
+ * El token es un JWT firmado con vencimiento; además el presupuesto guarda el
+ * identificador del enlace vigente, de modo que generar uno nuevo (o revocarlo)
+ * invalida los anteriores.
+ */
+class QuoteLinkService {
+
+  /**
+   * Generar un nuevo enlace público (reemplaza al anterior)
+   */
+  async createLink(quote: IQuote, userId: string): Promise<QuoteLink> {
+    const ttlDays = parseInt(process.env.QUOTE_LINK_TTL_DAYS || '30', 10) || 30;
+    const tokenId = crypto.randomUUID();
+    const expiresAt = new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+
+    const token = jwt.sign({ quoteId: quote._id.toString() }, getLinkSecret(), {
+      audience: LINK_AUDIENCE,
+      jwtid: tokenId,
+      expiresIn: ttlDays * 24 * 60 * 60
+    });
+
+    quote.publicLink = {
+      tokenId,
+      expiresAt,
+      createdBy: new Types.ObjectId(userId),
+      createdAt: new Date(),
+      views: 0
+    };
+    await quote.save();
+
+    logger.info('Enlace público de presupuesto generado', {
+      quoteId: quote._id,
+      quoteNumber: quote.quoteNumber,
+      expiresAt,
+      userId
+    });
+
+    return { token, url: this.buildUrl(token), expiresAt };
+  }
+
+  /**
+   * Revocar el enlace público vigente
+   */
+  async revokeLink(quote: IQuote): Promise<void> {
+    quote.set('publicLink', undefined);
+    await quote.save();
+
+    logger.info('Enlace público de presupuesto revocado', { quoteId: quote._id });
+  }
+
+  /**
+   * Verificar un token y obtener su presupuesto
+   */
+  async resolve(token: string): Promise<QuoteLinkResolution> {
+    let payload: jwt.JwtPayload;
+
+    try {
+      payload = jwt.verify(token, getLinkSecret(), { audience: LINK_AUDIENCE }) as jwt.JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return { success: false, code: 'LINK_EXPIRED', message: 'El enlace del presupuesto venció' };
+      }
+      return { success: false, code: 'LINK_INVALID', message: 'Enlace de presupuesto inválido' };
+    }
+
+    if (!payload.quoteId || !Types.ObjectId.isValid(payload.quoteId)) {
+      return { success: false, code: 'LINK_INVALID', message: 'Enlace de presupuesto inválido' };
+    }
+
+    const quote = await Quote.findById(payload.quoteId);
+
+    // Un presupuesto inexistente se informa igual que un token inválido
+    if (!quote) {
+      return { success: false, code: 'LINK_INVALID', message: 'Enlace de presupuesto inválido' };
+    }
+
+    if (!quote.publicLink || quote.publicLink.tokenId !== payload.jti) {
+      return { success: false, code: 'LINK_REVOKED', message: 'El enlace del presupuesto ya no está vigente' };
+    }
+
+    return { success: true, message: 'OK', quote };
+  }
+
+  /**
+   * Registrar una visita al enlace
+   */
+  async recordView(quote: IQuote): Promise<void> {
+    await Quote.updateOne(
+      { _id: quote._id, 'publicLink.tokenId': quote.publicLink?.tokenId },
+      { $inc: { 'publicLink.views': 1 }, $set: { 'publicLink.lastViewedAt': new Date() } }
+    );
+  }
+
+  /**
+   * Vista del presupuesto para el cliente (sin datos internos)
+   */
+  async toPublicView(quote: IQuote) {
+    const activePayment = await Payment.findActiveAttempt(quote._id.toString())
+      .select('amount status qrCode qrCodeData expiresAt');
+
+    return {
+      quoteNumber: quote.quoteNumber,
+      status: quote.status,
+      customer: {
+        name: quote.customer.name
+      },
+      items: quote.items.map(item => ({
+        name: item.productSnapshot.name,
+        unitPrice: item.productSnapshot.price,
+        quantity: item.quantity,
+        subtotal: item.subtotal,
+        discount: item.discount ? { type: item.discount.type, value: item.discount.value } : null,
+        taxRate: item.taxRate ?? quote.tax,
+        discountAmount: item.discountAmount,
+        netAmount: item.netAmount,
+        taxAmount: item.taxAmount,
+        total: item.total
+      })),
+      subtotal: quote.subtotal,
+      discount: quote.discount,
+      discountType: quote.discountType ?? 'percent',
+      coupon: quote.coupon
+        ? { code: quote.coupon.code, discountAmount: quote.coupon.discountAmount }
+        : null,
+      tax: quote.tax,
+      discountAmount: quote.discountAmount,
+      taxAmount: quote.taxAmount,
+      taxBreakdown: (quote.taxBreakdown || []).map(entry => ({
+        rate: entry.rate,
+        taxableAmount: entry.taxableAmount,
+        taxAmount: entry.taxAmount
+      })),
+      total: quote.total,
+      amountPaid: quote.amountPaid || 0,
+      balanceDue: getBalanceDue(quote),
+      expiresAt: quote.expiresAt,
+      notes: quote.notes,
+      decision: quote.customerDecision
+        ? {
+          decision: quote.customerDecision.decision,
+          name: quote.customerDecision.name,
+          decidedAt: quote.customerDecision.decidedAt
+        }
+        : null,
+      payment: activePayment
+        ? {
+          amount: activePayment.amount,
+          status: activePayment.status,
+          qrCode: activePayment.qrCode,
+          initPoint: activePayment.qrCodeData,
+          expiresAt: activePayment.expiresAt
+        }
+        : null,
+      linkExpiresAt: quote.publicLink?.expiresAt
+    };
+  }
+
+  /**
+   * URL que se comparte con el cliente
+   */
+  private buildUrl(token: string): string {
+    const baseUrl = process.env.PUBLIC_QUOTE_URL
+      || `${(process.env.FRONTEND_URL || 'http://localhost:3000').split(',')[0]!.trim()}/presupuestos`;
+
+    return `${baseUrl.replace(/\/+$/, '')}/${token}`;
+  }
+}
+
+// Crear instancia singleton
+let quoteLinkService: QuoteLinkService;
+
+/**
+ * Obtener instancia del servicio de enlaces públicos
+ */
+export const getQuoteLinkService = (): QuoteLinkService => {
+  if (!quoteLinkService) {
+    quoteLinkService = new QuoteLinkService();
+  }
+  return quoteLinkService;
+};
+
+export default QuoteLinkService;
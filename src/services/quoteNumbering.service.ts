@@ -0,0 +1,165 @@
+import Quote from '../models/Quote';
+import Counter from '../models/Counter';
+import { logger } from '../utils/logger';
+import { getQuoteNumberConfig, getQuoteCounterKey, parseQuoteNumber } from '../utils/quoteNumber';
+
+/**
+ * Reporte del backfill de numeración de presupuestos
+ */
+export interface QuoteNumberingReport {
+  dryRun: boolean;
+  totalQuotes: number;
+  matchingFormat: number;
+  legacyFormat: number;
+  missingNumber: number;
+  duplicates: Array<{
+    quoteNumber: string;
+    count: number;
+    quoteIds: string[];
+  }>;
+  counters: Array<{
+    key: string;
+    previousSeq: number;
+    highestExistingSeq: number;
+    wasBehind: boolean;
+  }>;
+}
+
+/**
+ * Servicio de mantenimiento de la numeración secuencial de presupuestos
+ */
+class QuoteNumberingService {
+
+  /**
+   * Analizar los números existentes y sincronizar los contadores
+   *
+   * No renumera ningún presupuesto: solo reporta colisiones y adelanta los
+   * contadores para que los próximos números no choquen con los existentes.
+   */
+  async backfill(dryRun: boolean = false): Promise<QuoteNumberingReport> {
+    try {
+      logger.info('Iniciando backfill de numeración de presupuestos', { dryRun });
+
+      const config = getQuoteNumberConfig();
+
+      const [totalQuotes, missingNumber, duplicates] = await Promise.all([
+        Quote.countDocuments(),
+        Quote.countDocuments({ quoteNumber: { $in: [null, ''] } }),
+        Quote.aggregate([
+          { $match: { quoteNumber: { $nin: [null, ''] } } },
+          {
+            $group: {
+              _id: '$quoteNumber',
+              count: { $sum: 1 },
+              quoteIds: { $push: '$_id' }
+            }
+          },
+          { $match: { count: { $gt: 1 } } },
+          { $sort: { _id: 1 } }
+        ])
+      ]);
+
+      // Calcular la secuencia más alta existente por cada contador
+      const highestByKey = new Map<string, number>();
+      let matchingFormat = 0;
+      let legacyFormat = 0;
+
+      const cursor = Quote.find({ quoteNumber: { $nin: [null, ''] } })
+        .select('quoteNumber createdAt')
+        .lean()
+        .cursor();
+
+      for await (const quote of cursor) {
+        const parsed = parseQuoteNumber(quote.quoteNumber, config);
+
+        if (!parsed) {
+          legacyFormat++;
+          continue;
+        }
+
+        matchingFormat++;
+
+        // Usar el período del número si está presente, sino la fecha de creación
+        const createdAt = new Date(quote.createdAt);
+        const periodDate = new Date(
+          parsed.year ?? createdAt.getFullYear(),
+          parsed.month !== undefined ? parsed.month - 1 : createdAt.getMonth(),
+          1
+        );
+        const key = getQuoteCounterKey(periodDate, config);
+
+        highestByKey.set(key, Math.max(highestByKey.get(key) || 0, parsed.sequence));
+      }
+
+      const existingCounters = await Counter.find({ _id: { $in: [...highestByKey.keys()] } }).lean();
+      const counterMap = new Map(existingCounters.map(counter => [counter._id, counter.seq]));
+
+      const counters: QuoteNumberingReport['counters'] = [];
+
+      for (const [key, highestExistingSeq] of highestByKey) {
+        const previousSeq = counterMap.get(key) || 0;
+        const wasBehind = previousSeq < highestExistingSeq;
+
+        if (wasBehind && !dryRun) {
+          // $max evita retroceder un contador que avanzó mientras tanto
+          await Counter.updateOne(
+            { _id: key },
+            { $max: { seq: highestExistingSeq } },
+            { upsert: true }
+          );
+        }
+
+        counters.push({ key, previousSeq, highestExistingSeq, wasBehind });
+      }
+
+      const report: QuoteNumberingReport = {
+        dryRun,
+        totalQuotes,
+        matchingFormat,
+        legacyFormat,
+        missingNumber,
+        duplicates: duplicates.map(duplicate => ({
+          quoteNumber: duplicate._id,
+          count: duplicate.count,
+          quoteIds: duplicate.quoteIds.map((id: any) => id.toString())
+        })),
+        counters: counters.sort((a, b) => a.key.localeCompare(b.key))
+      };
+
+      if (report.duplicates.length > 0) {
+        logger.warn('Se encontraron números de presupuesto duplicados', {
+          duplicates: report.duplicates.length
+        });
+      }
+
+      logger.info('Backfill de numeración completado', {
+        dryRun,
+        totalQuotes,
+        matchingFormat,
+        legacyFormat,
+        countersBehind: counters.filter(counter => counter.wasBehind).length
+      });
+
+      return report;
+
+    } catch (error) {
+      logger.error('Error en backfill de numeración de presupuestos:', error);
+      throw new Error('Error analizando la numeración de presupuestos');
+    }
+  }
+}
+
+// Crear instancia singleton
+let quoteNumberingService: QuoteNumberingService;
+
+/**
+ * Obtener instancia del servicio de numeración de presupuestos
+ */
+export const getQuoteNumberingService = (): QuoteNumberingService => {
+  if (!quoteNumberingService) {
+    quoteNumberingService = new QuoteNumberingService();
+  }
+  return quoteNumberingService;
+};
+
+export default QuoteNumberingService;
@@ -0,0 +1,93 @@
+import Product from '../models/Product';
+import QuoteTemplate from '../models/QuoteTemplate';
+import { AuthRequest, CreateQuoteFromTemplateRequest, CreateQuoteRequest, IQuoteTemplate } from '../types';
+
+type TemplateUser = NonNullable<AuthRequest['user']>;
+
+/**
+ * Servicio de plantillas de presupuesto
+ *
+ * Las plantillas guardan productos y cantidades, no precios: al usarlas se
+ * genera un presupuesto normal con los precios y el stock del momento.
+ */
+class QuoteTemplateService {
+  /**
+   * Filtro de plantillas visibles para un usuario
+   * Los admins ven todas; el resto, las propias y las compartidas
+   */
+  getAccessFilter(user: TemplateUser): Record<string, any> {
+    if (user.role === 'admin') {
+      return { isActive: true };
+    }
+
+    return {
+      isActive: true,
+      $or: [{ createdBy: user.id }, { isShared: true }]
+    };
+  }
+
+  /**
+   * Buscar una plantilla visible para el usuario
+   */
+  async findAccessible(templateId: string, user: TemplateUser): Promise<IQuoteTemplate | null> {
+    return QuoteTemplate.findOne({ _id: templateId, ...this.getAccessFilter(user) });
+  }
+
+  /**
+   * Indicar si el usuario puede editar o eliminar la plantilla
+   */
+  canManage(template: IQuoteTemplate, user: TemplateUser): boolean {
+    return user.role === 'admin' || template.createdBy.toString() === user.id;
+  }
+
+  /**
+   * Productos de la lista que no existen o están inactivos
+   */
+  async findMissingProducts(productIds: string[]): Promise<string[]> {
+    const uniqueIds = [...new Set(productIds)];
+    const products = await Product.find({ _id: { $in: uniqueIds }, isActive: true }).select('_id').lean();
+    const found = new Set(products.map(product => product._id.toString()));
+
+    return uniqueIds.filter(id => !found.has(id));
+  }
+
+  /**
+   * Datos de alta de un presupuesto a partir de la plantilla
+   * Descuento, impuesto y notas enviados reemplazan a los de la plantilla
+   */
+  toQuoteRequest(template: IQuoteTemplate, overrides: CreateQuoteFromTemplateRequest): CreateQuoteRequest {
+    const { customerId, customer, discount, discountType, couponCode, tax, notes } = overrides;
+    const templateNotes = notes ?? template.notes;
+
+    return {
+      ...(customerId && { customerId }),
+      ...(customer && { customer }),
+      items: template.items.map(item => ({
+        productId: item.product.toString(),
+        quantity: item.quantity,
+        ...(item.discount && { discount: { type: item.discount.type, value: item.discount.value } }),
+        ...(item.taxRate !== undefined && { taxRate: item.taxRate })
+      })),
+      discount: discount ?? template.discount,
+      discountType: discountType ?? (discount !== undefined ? 'percent' : template.discountType),
+      tax: tax ?? template.tax,
+      ...(couponCode && { couponCode }),
+      ...(templateNotes && { notes: templateNotes })
+    };
+  }
+}
+
+// Crear instancia singleton
+let quoteTemplateService: QuoteTemplateService;
+
+/**
+ * Obtener instancia del servicio de plantillas de presupuesto
+ */
+export const getQuoteTemplateService = (): QuoteTemplateService => {
+  if (!quoteTemplateService) {
+    quoteTemplateService = new QuoteTemplateService();
+  }
+  return quoteTemplateService;
+};
+
+export default QuoteTemplateService;
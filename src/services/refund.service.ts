@@ -0,0 +1,286 @@
+import { Types } from 'mongoose';
+import Payment, { SETTLED_PAYMENT_STATUSES } from '../models/Payment';
+import Quote from '../models/Quote';
+import { logger } from '../utils/logger';
+import { IPayment, IPaymentRefund, IQuote } from '../types';
+import { getPaymentProvider, ProviderRefund } from './paymentProvider.service';
+import { getPaymentSyncService } from './paymentSync.service';
+import { getStockService, StockItem } from './stock.service';
+
+/**
+ * Parámetros de un reembolso
+ */
+export interface RefundPaymentParams {
+  amount?: number;
+  reason?: string;
+  restock?: boolean;
+  items?: StockItem[];
+  userId: string;
+}
+
+/**
+ * Resultado de un reembolso
+ */
+export interface RefundPaymentResult {
+  success: boolean;
+  message: string;
+  payment?: IPayment;
+  refund?: {
+    id: string;
+    amount: number;
+    mercadopagoRefundId?: string;
+    restockedItems: StockItem[];
+  };
+  remainingAmount?: number;
+  details?: any;
+}
+
+// Estados desde los que se puede reembolsar
+const REFUNDABLE_STATUSES: IPayment['status'][] = ['approved', 'partially_refunded'];
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Servicio de reembolsos de pagos aprobados
+ */
+class RefundService {
+
+  /**
+   * Reembolsar un pago (total o parcial) y opcionalmente devolver stock
+   */
+  async refundPayment(paymentId: string, params: RefundPaymentParams): Promise<RefundPaymentResult> {
+    const payment = await Payment.findById(paymentId);
+
+    if (!payment) {
+      return { success: false, message: 'Pago no encontrado' };
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+      return { success: false, message: `No se puede reembolsar un pago en estado ${payment.status}` };
+    }
+
+    const remaining = roundAmount(payment.amount - (payment.refundedAmount || 0));
+    const amount = roundAmount(params.amount ?? remaining);
+
+    if (amount <= 0 || amount > remaining) {
+      return {
+        success: false,
+        message: 'El monto a reembolsar supera el saldo disponible',
+        details: { requested: amount, refundable: remaining }
+      };
+    }
+
+    const quote = await Quote.findById(payment.quote);
+
+    // Con seña y saldo, el reembolso es total cuando devuelve todo lo cobrado en el presupuesto
+    const quotePayments = await Payment.find({ quote: payment.quote, status: { $in: SETTLED_PAYMENT_STATUSES } });
+    const collected = roundAmount(quotePayments.reduce(
+      (sum, quotePayment) => sum + quotePayment.amount - (quotePayment.refundedAmount || 0),
+      0
+    ));
+
+    // Calcular las cantidades a devolver al stock antes de llamar a MercadoPago
+    let restockItems: StockItem[] = [];
+    if (params.restock) {
+      // Solo se devuelven unidades que se descontaron con la venta: una seña con la
+      // reserva vencida o liberada nunca descontó stock
+      if (quote && !quote.stockCommittedAt) {
+        return {
+          success: false,
+          message: 'El stock del presupuesto no se descontó; no hay unidades para devolver'
+        };
+      }
+
+      const committed = quote
+        ? await getStockService().getCommittedQuantities(quote._id.toString())
+        : new Map<string, number>();
+
+      const restock = this.resolveRestockItems(
+        quote,
+        committed,
+        quotePayments.flatMap(quotePayment => quotePayment.refunds),
+        amount >= collected,
+        params.items
+      );
+      if (!restock.success) {
+        return { success: false, message: restock.message, details: restock.details };
+      }
+      restockItems = restock.items;
+    }
+
+    // Los pagos manuales se devuelven fuera del sistema: solo se registra el reembolso
+    let providerRefund: ProviderRefund = {};
+
+    if (payment.provider !== 'manual') {
+      // El ID del pago en el proveedor se obtiene al sincronizar si el webhook no lo registró
+      if (!payment.mercadopagoPaymentId) {
+        await getPaymentSyncService().syncPayment(payment);
+      }
+
+      if (!payment.mercadopagoPaymentId) {
+        return { success: false, message: 'No se encontró el pago correspondiente en el proveedor' };
+      }
+
+      providerRefund = await getPaymentProvider(payment.provider).refundPayment(
+        payment.mercadopagoPaymentId,
+        // Reembolso total sin monto para que el proveedor devuelva el saldo exacto
+        amount === remaining && !payment.refunds.length ? undefined : amount,
+        `refund-${payment._id}-${payment.refunds.length + 1}`
+      );
+    }
+
+    const refundId = new Types.ObjectId();
+
+    const refund: IPaymentRefund = {
+      _id: refundId,
+      ...(providerRefund.id !== undefined && { mercadopagoRefundId: providerRefund.id }),
+      amount,
+      ...(params.reason && { reason: params.reason }),
+      ...(providerRefund.status && { providerStatus: providerRefund.status }),
+      restockedItems: restockItems.map(item => ({
+        product: new Types.ObjectId(item.productId),
+        quantity: item.quantity
+      })),
+      createdBy: new Types.ObjectId(params.userId),
+      createdAt: new Date()
+    };
+
+    payment.refunds.push(refund);
+
+    payment.refundedAmount = roundAmount((payment.refundedAmount || 0) + amount);
+    payment.status = payment.refundedAmount >= payment.amount ? 'refunded' : 'partially_refunded';
+
+    try {
+      await payment.save();
+
+      // Monto pagado, saldo y estado del presupuesto según todos sus pagos
+      await getPaymentSyncService().refreshQuoteBalance(payment.quote.toString());
+    } catch (error) {
+      // El dinero ya se devolvió en MercadoPago: dejar rastro para corregir a mano
+      logger.error('Reembolso creado en MercadoPago pero no se pudo registrar localmente', {
+        paymentId: payment._id,
+        mercadopagoRefundId: providerRefund.id,
+        amount,
+        error: error instanceof Error ? error.message : error
+      });
+      throw error;
+    }
+
+    if (restockItems.length > 0) {
+      const stockResult = await getStockService().incrementStock(restockItems, {
+        reason: 'refund',
+        actorId: params.userId,
+        paymentId: payment._id.toString(),
+        ...(quote && { quoteId: quote._id.toString() }),
+        ...(params.reason && { notes: params.reason })
+      });
+
+      if (!stockResult.success) {
+        logger.error('Error devolviendo stock del reembolso', {
+          paymentId: payment._id,
+          refundId,
+          errors: stockResult.errors
+        });
+      }
+    }
+
+    logger.info('Pago reembolsado', {
+      paymentId: payment._id,
+      amount,
+      refundedAmount: payment.refundedAmount,
+      status: payment.status,
+      restockedItems: restockItems.length
+    });
+
+    return {
+      success: true,
+      message: payment.status === 'refunded'
+        ? 'Pago reembolsado totalmente'
+        : 'Pago reembolsado parcialmente',
+      payment,
+      refund: {
+        id: refundId.toString(),
+        amount,
+        ...(providerRefund.id !== undefined && { mercadopagoRefundId: providerRefund.id }),
+        restockedItems: restockItems
+      },
+      remainingAmount: roundAmount(payment.amount - payment.refundedAmount)
+    };
+  }
+
+  /**
+   * Determinar qué cantidades se devuelven al stock sin superar lo descontado en la venta
+   */
+  private resolveRestockItems(
+    quote: IQuote | null,
+    committed: Map<string, number>,
+    previousRefunds: IPaymentRefund[],
+    isFullRefund: boolean,
+    requestedItems?: StockItem[]
+  ): { success: boolean; items: StockItem[]; message: string; details?: any } {
+    if (!quote) {
+      return { success: false, items: [], message: 'Presupuesto del pago no encontrado' };
+    }
+
+    // Cantidades descontadas menos las ya devueltas en reembolsos anteriores de cualquier pago del presupuesto
+    const available = new Map(committed);
+    for (const refund of previousRefunds) {
+      for (const item of refund.restockedItems) {
+        const productId = item.product.toString();
+        available.set(productId, (available.get(productId) || 0) - item.quantity);
+      }
+    }
+
+    if (!requestedItems?.length) {
+      if (!isFullRefund) {
+        return {
+          success: false,
+          items: [],
+          message: 'En un reembolso parcial se deben indicar los items a devolver al stock'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'OK',
+        items: [...available.entries()]
+          .filter(([, quantity]) => quantity > 0)
+          .map(([productId, quantity]) => ({ productId, quantity }))
+      };
+    }
+
+    const errors = requestedItems
+      .filter(item => item.quantity > (available.get(item.productId) || 0))
+      .map(item => ({
+        productId: item.productId,
+        requested: item.quantity,
+        available: Math.max(0, available.get(item.productId) || 0)
+      }));
+
+    if (errors.length > 0) {
+      return {
+        success: false,
+        items: [],
+        message: 'Las cantidades a devolver superan las vendidas en el presupuesto',
+        details: { errors }
+      };
+    }
+
+    return { success: true, message: 'OK', items: requestedItems };
+  }
+}
+
+// Crear instancia singleton
+let refundService: RefundService;
+
+/**
+ * Obtener instancia del servicio de reembolsos
+ */
+export const getRefundService = (): RefundService => {
+  if (!refundService) {
+    refundService = new RefundService();
+  }
+  return refundService;
+};
+
+export default RefundService;
@@ -0,0 +1,306 @@
+import os from 'os';
+import ScheduledJob from '../models/ScheduledJob';
+import { getJobsConfig } from '../config/jobs';
+import { logger } from '../utils/logger';
+import { getMaintenanceService } from './maintenance.service';
+
+/**
+ * Definición de una tarea programada
+ */
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  handler: () => Promise<any>;
+}
+
+/**
+ * Estado de una tarea programada para la consulta de administración
+ */
+export interface JobInfo {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  isRunningHere: boolean;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastRunAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  lastResult: any;
+  runCount: number;
+  failureCount: number;
+  nextRunAt: Date | null;
+}
+
+/**
+ * Planificador de tareas en proceso con lock en MongoDB
+ *
+ * Cada ejecución toma un lock con vencimiento en la colección ScheduledJob,
+ * de modo que con varias instancias del servidor solo una corre cada tarea, y
+ * a lo sumo una vez por intervalo.
+ */
+class SchedulerService {
+  private jobs = new Map<string, JobDefinition>();
+  private timers = new Map<string, ReturnType<typeof setInterval>>();
+  private running = new Set<string>();
+  private instanceId = `${os.hostname()}-${process.pid}`;
+  private lockTtlMs = getJobsConfig().lockTtlMinutes * 60 * 1000;
+
+  /**
+   * Registrar una tarea
+   */
+  register(job: JobDefinition): void {
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * Iniciar la ejecución periódica de todas las tareas registradas
+   */
+  start(): void {
+    for (const job of this.jobs.values()) {
+      if (this.timers.has(job.name)) {
+        continue;
+      }
+
+      const timer = setInterval(() => {
+        void this.runJob(job.name);
+      }, job.intervalMinutes * 60 * 1000);
+
+      // No mantener vivo el proceso solo por las tareas
+      timer.unref();
+      this.timers.set(job.name, timer);
+
+      logger.info('Tarea programada registrada', {
+        job: job.name,
+        intervalMinutes: job.intervalMinutes
+      });
+    }
+  }
+
+  /**
+   * Detener todas las tareas
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+    logger.info('Tareas programadas detenidas');
+  }
+
+  /**
+   * Ejecutar una tarea si se obtiene el lock
+   * Devuelve false si otra instancia la está ejecutando
+   */
+  async runJob(name: string): Promise<boolean> {
+    const job = this.jobs.get(name);
+
+    if (!job) {
+      throw new Error(`Tarea no registrada: ${name}`);
+    }
+
+    if (this.running.has(name) || !(await this.acquireLock(name, job.intervalMinutes * 60 * 1000))) {
+      logger.debug('Tarea en ejecución o ya ejecutada en este intervalo por otra instancia, se omite', { job: name });
+      return false;
+    }
+
+    this.running.add(name);
+    const startedAt = new Date();
+
+    try {
+      const result = await job.handler();
+      const durationMs = Date.now() - startedAt.getTime();
+
+      await ScheduledJob.updateOne({ _id: name }, {
+        $set: {
+          lastRunAt: startedAt,
+          lastFinishedAt: new Date(),
+          lastDurationMs: durationMs,
+          lastStatus: 'success',
+          lastError: null,
+          lastResult: result ?? null
+        },
+        $inc: { runCount: 1 }
+      });
+
+      logger.info('Tarea programada completada', { job: name, durationMs, result });
+
+    } catch (error) {
+      const durationMs = Date.now() - startedAt.getTime();
+      const message = error instanceof Error ? error.message : String(error);
+
+      await ScheduledJob.updateOne({ _id: name }, {
+        $set: {
+          lastRunAt: startedAt,
+          lastFinishedAt: new Date(),
+          lastDurationMs: durationMs,
+          lastStatus: 'failed',
+          lastError: message,
+          lastResult: null
+        },
+        $inc: { runCount: 1, failureCount: 1 }
+      }).catch(updateError => logger.error('Error registrando fallo de tarea:', updateError));
+
+      logger.error('Error en tarea programada', { job: name, durationMs, error: message });
+
+    } finally {
+      this.running.delete(name);
+      await this.releaseLock(name);
+    }
+
+    return true;
+  }
+
+  /**
+   * Obtener el estado de todas las tareas registradas
+   */
+  async getJobs(): Promise<JobInfo[]> {
+    const names = [...this.jobs.keys()];
+    const states = await ScheduledJob.find({ _id: { $in: names } }).lean();
+    const stateMap = new Map(states.map(state => [state._id, state]));
+
+    return names.map(name => {
+      const job = this.jobs.get(name)!;
+      const state = stateMap.get(name);
+      const lastRunAt = state?.lastRunAt ?? null;
+
+      return {
+        name,
+        description: job.description,
+        intervalMinutes: job.intervalMinutes,
+        isRunningHere: this.running.has(name),
+        lockedBy: state?.lockedBy ?? null,
+        lockedUntil: state?.lockedUntil ?? null,
+        lastRunAt,
+        lastFinishedAt: state?.lastFinishedAt ?? null,
+        lastDurationMs: state?.lastDurationMs ?? null,
+        lastStatus: state?.lastStatus ?? null,
+        lastError: state?.lastError ?? null,
+        lastResult: state?.lastResult ?? null,
+        runCount: state?.runCount ?? 0,
+        failureCount: state?.failureCount ?? 0,
+        nextRunAt: this.timers.has(name) && lastRunAt
+          ? new Date(new Date(lastRunAt).getTime() + job.intervalMinutes * 60 * 1000)
+          : null
+      };
+    });
+  }
+
+  /**
+   * Tomar el lock de una tarea (atómico)
+   *
+   * Cada instancia tiene su propio temporizador: además de que nadie la esté
+   * ejecutando, la tarea no debe haberse ejecutado en el intervalo actual. Se
+   * tolera un pequeño adelanto para que los temporizadores de la instancia que la
+   * ejecutó antes no pierdan su turno.
+   */
+  private async acquireLock(name: string, intervalMs: number): Promise<boolean> {
+    const now = new Date();
+    const tolerance = Math.min(60 * 1000, intervalMs * 0.1);
+    const lastRunBefore = new Date(now.getTime() - intervalMs + tolerance);
+
+    try {
+      const lock = await ScheduledJob.findOneAndUpdate(
+        {
+          _id: name,
+          $and: [
+            { $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] },
+            { $or: [{ lastRunAt: null }, { lastRunAt: { $lte: lastRunBefore } }] }
+          ]
+        },
+        {
+          $set: {
+            lockedBy: this.instanceId,
+            lockedUntil: new Date(now.getTime() + this.lockTtlMs)
+          }
+        },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+      );
+
+      return lock?.lockedBy === this.instanceId;
+
+    } catch (error: any) {
+      // Clave duplicada: el documento existe y el lock está tomado o la tarea ya se ejecutó
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Liberar el lock de una tarea
+   */
+  private async releaseLock(name: string): Promise<void> {
+    try {
+      await ScheduledJob.updateOne(
+        { _id: name, lockedBy: this.instanceId },
+        { $set: { lockedBy: null, lockedUntil: null } }
+      );
+    } catch (error) {
+      logger.error('Error liberando lock de tarea:', error);
+    }
+  }
+}
+
+// Crear instancia singleton
+let schedulerService: SchedulerService;
+
+/**
+ * Obtener instancia del planificador de tareas
+ */
+export const getSchedulerService = (): SchedulerService => {
+  if (!schedulerService) {
+    schedulerService = new SchedulerService();
+  }
+  return schedulerService;
+};
+
+/**
+ * Registrar las tareas de mantenimiento según la configuración e iniciarlas
+ */
+export const startScheduledJobs = (): SchedulerService => {
+  const config = getJobsConfig();
+  const scheduler = getSchedulerService();
+  const maintenance = getMaintenanceService();
+
+  if (!config.enabled) {
+    logger.info('Tareas programadas deshabilitadas (JOBS_ENABLED=false)');
+    return scheduler;
+  }
+
+  if (config.expireQuotes.enabled) {
+    scheduler.register({
+      name: 'expire-quotes',
+      description: 'Expirar presupuestos vencidos y liberar reservas de stock',
+      intervalMinutes: config.expireQuotes.intervalMinutes,
+      handler: () => maintenance.expireQuotes()
+    });
+  }
+
+  if (config.cancelStalePayments.enabled) {
+    scheduler.register({
+      name: 'cancel-stale-payments',
+      description: `Cancelar pagos pendientes con más de ${config.cancelStalePayments.olderThanHours} horas`,
+      intervalMinutes: config.cancelStalePayments.intervalMinutes,
+      handler: () => maintenance.cancelStalePayments(config.cancelStalePayments.olderThanHours)
+    });
+  }
+
+  if (config.expiryReminders.enabled) {
+    scheduler.register({
+      name: 'expiry-reminders',
+      description: `Recordar presupuestos que vencen en ${config.expiryReminders.daysBeforeExpiry} días`,
+      intervalMinutes: config.expiryReminders.intervalMinutes,
+      handler: () => maintenance.sendExpiryReminders(config.expiryReminders.daysBeforeExpiry)
+    });
+  }
+
+  scheduler.start();
+  return scheduler;
+};
+
+export default SchedulerService;
@@ -1,7 +1,9 @@
 import { Types, startSession, ClientSession } from 'mongoose';
 import Product from '../models/Product';
+import StockReservation from '../models/StockReservation';
+import StockMovement from '../models/StockMovement';
 import { logger } from '../utils/logger';
-import { StockValidationResult } from '../types';
+import { StockValidationResult, StockMovementReason } from '../types';
 
 /**
  * Interfaz para items de stock
@@ -32,19 +34,77 @@ export interface StockOperationResult {
   }>;
 }
 
+/**
+ * Contexto de un movimiento de stock para el registro (ledger)
+ */
+export interface StockMovementContext {
+  reason?: StockMovementReason;
+  actorId?: string;
+  quoteId?: string;
+  paymentId?: string;
+  notes?: string;
+}
+
+/**
+ * Operaciones de ajuste manual de stock
+ */
+export type StockAdjustmentOperation = 'set' | 'increment' | 'decrement';
+
+/**
+ * Resultado de la reconciliación de stock contra el registro de movimientos
+ */
+export interface StockReconciliationResult {
+  checkedAt: Date;
+  productsChecked: number;
+  discrepanciesCount: number;
+  items: Array<{
+    productId: string;
+    productName: string;
+    sku?: string;
+    currentStock: number;
+    ledgerStock: number;
+    lastRecordedStock: number | null;
+    movementsCount: number;
+    difference: number;
+    isConsistent: boolean;
+  }>;
+}
+
+/**
+ * Opciones para reservar stock
+ */
+export interface ReserveStockOptions {
+  expiresAt?: Date;
+  expirationMinutes?: number;
+  quoteId?: string;
+  session?: ClientSession;
+}
+
+/**
+ * Opciones para liberar stock reservado
+ */
+export interface ReleaseStockOptions {
+  status?: 'released' | 'expired';
+  session?: ClientSession;
+}
+
 /**
  * Servicio para manejo atómico de stock
  */
 class StockService {
 
   /**
-   * Validar stock disponible para una lista de items
+   * Validar stock disponible (descontando reservas activas) para una lista de items
+   * Si se indica reservationId, las cantidades ya reservadas por ella se consideran disponibles
    */
-  async validateStock(items: StockItem[]): Promise<StockValidationResult> {
+  async validateStock(items: StockItem[], reservationId?: string): Promise<StockValidationResult> {
     try {
-      logger.info('Validando stock para items', { itemsCount: items.length });
+      logger.info('Validando stock para items', { itemsCount: items.length, reservationId });
 
       const errors: StockValidationResult['errors'] = [];
+      const reservedByOwner = reservationId
+        ? await this.getReservedQuantities(reservationId)
+        : new Map<string, number>();
 
       // Obtener todos los productos de una vez
       const productIds = items.map(item => new Types.ObjectId(item.productId));
@@ -72,12 +132,14 @@ class StockService {
           continue;
         }
 
-        if (!product.validateStock(item.quantity)) {
+        const available = product.availableStock + (reservedByOwner.get(item.productId) || 0);
+
+        if (item.quantity <= 0 || available < item.quantity) {
           errors.push({
             productId: item.productId,
             productName: product.name,
             requested: item.quantity,
-            available: product.stock
+            available
           });
         }
       }
@@ -101,9 +163,9 @@ class StockService {
   }
 
   /**
-   * Decrementar stock de productos de forma atómica
+   * Decrementar stock de productos de forma atómica (registra movimientos de venta por defecto)
    */
-  async decrementStock(items: StockItem[]): Promise<StockOperationResult> {
+  async decrementStock(items: StockItem[], context: StockMovementContext = {}): Promise<StockOperationResult> {
     const session: ClientSession = await startSession();
 
     try {
@@ -160,19 +222,17 @@ class StockService {
           }
 
           // Verificar stock nuevamente dentro de la transacción
-          if (product.stock < item.quantity) {
+          if (product.availableStock < item.quantity) {
             errors.push({
               productId: item.productId,
               productName: product.name,
               error: 'Stock insuficiente',
               requested: item.quantity,
-              available: product.stock
+              available: product.availableStock
             });
             continue;
           }
 
-          const previousStock = product.stock;
-
           // Actualizar stock usando findByIdAndUpdate para operación atómica
           const updatedProduct = await Product.findByIdAndUpdate(
             product._id,
@@ -198,6 +258,15 @@ class StockService {
             throw new Error(`Stock negativo resultante para ${product.name}`);
           }
 
+          const previousStock = updatedProduct.stock + item.quantity;
+
+          await this.recordMovement(session, {
+            productId: item.productId,
+            delta: -item.quantity,
+            previousStock,
+            newStock: updatedProduct.stock
+          }, { reason: 'sale', ...context });
+
           updatedProducts.push({
             productId: item.productId,
             productName: product.name,
@@ -255,7 +324,7 @@ class StockService {
   /**
    * Incrementar stock de productos (por ejemplo, al cancelar un pedido)
    */
-  async incrementStock(items: StockItem[]): Promise<StockOperationResult> {
+  async incrementStock(items: StockItem[], context: StockMovementContext = {}): Promise<StockOperationResult> {
     const session: ClientSession = await startSession();
 
     try {
@@ -291,8 +360,6 @@ class StockService {
             continue;
           }
 
-          const previousStock = product.stock;
-
           // Actualizar stock usando findByIdAndUpdate
           const updatedProduct = await Product.findByIdAndUpdate(
             product._id,
@@ -313,6 +380,15 @@ class StockService {
             continue;
           }
 
+          const previousStock = updatedProduct.stock - item.quantity;
+
+          await this.recordMovement(session, {
+            productId: item.productId,
+            delta: item.quantity,
+            previousStock,
+            newStock: updatedProduct.stock
+          }, { reason: 'cancellation', ...context });
+
           updatedProducts.push({
             productId: item.productId,
             productName: product.name,
@@ -365,60 +441,167 @@ class StockService {
   }
 
   /**
-   * Reservar stock temporalmente (para presupuestos)
+   * Reservar stock para un presupuesto hasta su expiración
+   *
+   * Cada item incrementa Product.reservedStock de forma condicional, por lo que dos
+   * reservas simultáneas no pueden tomar la misma unidad. Si se pasa una sesión, la
+   * reserva participa de esa transacción y el llamador debe abortarla cuando
+   * success es false.
    */
-  async reserveStock(items: StockItem[], reservationId: string, expirationMinutes: number = 30): Promise<StockOperationResult> {
-    try {
-      logger.info('Reservando stock temporalmente', {
-        reservationId,
-        expirationMinutes,
-        itemsCount: items.length
-      });
+  async reserveStock(items: StockItem[], reservationId: string, options: ReserveStockOptions = {}): Promise<StockOperationResult> {
+    const expiresAt = options.expiresAt
+      || new Date(Date.now() + (options.expirationMinutes ?? 30) * 60 * 1000);
+
+    logger.info('Reservando stock', {
+      reservationId,
+      expiresAt,
+      itemsCount: items.length
+    });
 
-      // Por ahora, solo validamos stock sin crear reservas reales
-      // En una implementación más avanzada, podrías crear un modelo de Reservation
-      const validation = await this.validateStock(items);
+    const reserve = async (session: ClientSession): Promise<StockOperationResult> => {
+      const errors: StockOperationResult['errors'] = [];
 
-      if (!validation.isValid) {
+      for (const item of items) {
+        // Incremento condicional: solo si el stock disponible alcanza
+        const product = await Product.findOneAndUpdate(
+          {
+            _id: item.productId,
+            isActive: true,
+            $expr: {
+              $gte: [
+                { $subtract: ['$stock', { $ifNull: ['$reservedStock', 0] }] },
+                item.quantity
+              ]
+            }
+          },
+          { $inc: { reservedStock: item.quantity } },
+          { new: true, session }
+        );
+
+        if (!product) {
+          const current = await Product.findById(item.productId).session(session);
+          errors.push({
+            productId: item.productId,
+            ...(current && { productName: current.name }),
+            error: current ? 'Stock insuficiente para reservar' : 'Producto no encontrado',
+            requested: item.quantity,
+            available: current ? current.availableStock : 0
+          });
+        }
+      }
+
+      if (errors.length > 0) {
         return {
           success: false,
           message: 'Stock insuficiente para reserva',
-          errors: validation.errors.map(err => ({
-            productId: err.productId,
-            productName: err.productName,
-            error: `Stock insuficiente. Solicitado: ${err.requested}, Disponible: ${err.available}`,
-            requested: err.requested,
-            available: err.available
-          }))
+          errors
         };
       }
 
-      logger.info('Stock reservado conceptualmente', { reservationId });
+      await StockReservation.create(items.map(item => ({
+        reservationId,
+        ...(options.quoteId && { quote: options.quoteId }),
+        product: item.productId,
+        quantity: item.quantity,
+        expiresAt
+      })), { session, ordered: true });
 
       return {
         success: true,
-        message: 'Stock validado y disponible para reserva'
+        message: 'Stock reservado exitosamente'
       };
+    };
+
+    if (options.session) {
+      return reserve(options.session);
+    }
+
+    const session: ClientSession = await startSession();
+    let result: StockOperationResult | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        result = await reserve(session);
+        if (!result.success) {
+          throw new Error('Reserva de stock fallida');
+        }
+      });
+
+      logger.info('Stock reservado', { reservationId });
+      return result!;
 
     } catch (error) {
+      if (result && !result.success) {
+        logger.warn('Stock insuficiente para reserva', { reservationId, errors: result.errors });
+        return result;
+      }
+
       logger.error('Error reservando stock:', error);
       throw new Error('Error en la reserva de stock');
+    } finally {
+      await session.endSession();
     }
   }
 
   /**
-   * Liberar stock reservado (al cancelar un presupuesto)
+   * Liberar las reservas activas (al cancelar, editar o expirar un presupuesto)
    */
-  async releaseStock(reservationId: string): Promise<StockOperationResult> {
+  async releaseStock(reservationId: string, options: ReleaseStockOptions = {}): Promise<StockOperationResult> {
+    const status = options.status || 'released';
+
+    const release = async (session: ClientSession): Promise<number> => {
+      const reservations = await StockReservation.find({
+        reservationId,
+        status: 'active'
+      }).session(session);
+
+      for (const reservation of reservations) {
+        // Nunca dejar reservedStock negativo
+        await Product.updateOne(
+          { _id: reservation.product },
+          [{
+            $set: {
+              reservedStock: {
+                $max: [0, { $subtract: [{ $ifNull: ['$reservedStock', 0] }, reservation.quantity] }]
+              }
+            }
+          }],
+          { session }
+        );
+
+        reservation.status = status;
+        reservation.releasedAt = new Date();
+        await reservation.save({ session });
+      }
+
+      return reservations.length;
+    };
+
     try {
-      logger.info('Liberando stock reservado', { reservationId });
+      logger.info('Liberando stock reservado', { reservationId, status });
+
+      let releasedCount: number;
+
+      if (options.session) {
+        releasedCount = await release(options.session);
+      } else {
+        const session: ClientSession = await startSession();
+        try {
+          await session.withTransaction(async () => {
+            releasedCount = await release(session);
+          });
+        } finally {
+          await session.endSession();
+        }
+      }
 
-      // En una implementación más avanzada, buscarías y eliminarías las reservas
-      // Por ahora, solo logueamos la operación
+      logger.info('Stock liberado', { reservationId, releasedCount: releasedCount! });
 
       return {
         success: true,
-        message: 'Stock liberado exitosamente'
+        message: releasedCount! > 0
+          ? 'Stock liberado exitosamente'
+          : 'No había reservas activas para liberar'
       };
 
     } catch (error) {
@@ -427,6 +610,401 @@ class StockService {
     }
   }
 
+  /**
+   * Convertir las reservas de un presupuesto pagado en decrementos reales de stock
+   * Si no hay reservas activas (presupuestos antiguos), decrementa el stock disponible
+   */
+  async commitReservation(reservationId: string, fallbackItems: StockItem[], context: StockMovementContext = {}): Promise<StockOperationResult> {
+    const activeCount = await StockReservation.countDocuments({ reservationId, status: 'active' });
+
+    if (activeCount === 0) {
+      logger.warn('Sin reservas activas, decrementando stock disponible', { reservationId });
+      return this.decrementStock(fallbackItems, context);
+    }
+
+    const session: ClientSession = await startSession();
+    let result: StockOperationResult | undefined;
+
+    try {
+      logger.info('Convirtiendo reservas en decremento de stock', { reservationId });
+
+      await session.withTransaction(async () => {
+        const reservations = await StockReservation.find({
+          reservationId,
+          status: 'active'
+        }).session(session);
+
+        const updatedProducts: StockOperationResult['updatedProducts'] = [];
+        const errors: StockOperationResult['errors'] = [];
+
+        for (const reservation of reservations) {
+          const updatedProduct = await Product.findOneAndUpdate(
+            { _id: reservation.product, stock: { $gte: reservation.quantity } },
+            { $inc: { stock: -reservation.quantity, reservedStock: -reservation.quantity } },
+            { new: true, session }
+          );
+
+          if (!updatedProduct) {
+            errors.push({
+              productId: reservation.product.toString(),
+              error: 'Stock insuficiente para confirmar la reserva',
+              requested: reservation.quantity
+            });
+            continue;
+          }
+
+          reservation.status = 'converted';
+          reservation.convertedAt = new Date();
+          await reservation.save({ session });
+
+          const previousStock = updatedProduct.stock + reservation.quantity;
+
+          await this.recordMovement(session, {
+            productId: updatedProduct._id.toString(),
+            delta: -reservation.quantity,
+            previousStock,
+            newStock: updatedProduct.stock
+          }, { reason: 'sale', ...context });
+
+          updatedProducts.push({
+            productId: updatedProduct._id.toString(),
+            productName: updatedProduct.name,
+            previousStock,
+            newStock: updatedProduct.stock
+          });
+        }
+
+        if (errors.length > 0) {
+          result = {
+            success: false,
+            message: 'Error confirmando reservas de stock',
+            errors
+          };
+          throw new Error('Error en conversión de reservas');
+        }
+
+        result = {
+          success: true,
+          message: 'Reservas convertidas en decremento de stock',
+          updatedProducts
+        };
+      });
+
+      logger.info('Reservas convertidas exitosamente', {
+        reservationId,
+        productsUpdated: result!.updatedProducts?.length || 0
+      });
+
+      return result!;
+
+    } catch (error) {
+      logger.error('Error convirtiendo reservas de stock:', error);
+
+      return result || {
+        success: false,
+        message: 'Error en la transacción de stock',
+        errors: [{
+          productId: 'general',
+          error: error instanceof Error ? error.message : 'Error desconocido'
+        }]
+      };
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Liberar las reservas vencidas
+   */
+  async releaseExpiredReservations(): Promise<number> {
+    try {
+      const reservationIds: string[] = await StockReservation.distinct('reservationId', {
+        status: 'active',
+        expiresAt: { $lte: new Date() }
+      });
+
+      for (const reservationId of reservationIds) {
+        await this.releaseStock(reservationId, { status: 'expired' });
+      }
+
+      if (reservationIds.length > 0) {
+        logger.info(`${reservationIds.length} reservas de stock vencidas liberadas`);
+      }
+
+      return reservationIds.length;
+
+    } catch (error) {
+      logger.error('Error liberando reservas vencidas:', error);
+      throw new Error('Error liberando reservas vencidas');
+    }
+  }
+
+  /**
+   * Extender el vencimiento de las reservas activas (por ejemplo, tras cobrar una seña)
+   * Nunca acorta una reserva que ya vence después de la fecha indicada
+   */
+  async extendReservation(reservationId: string, expiresAt: Date): Promise<number> {
+    const result = await StockReservation.updateMany(
+      { reservationId, status: 'active', expiresAt: { $lt: expiresAt } },
+      { $set: { expiresAt } }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.info('Reservas de stock extendidas', { reservationId, expiresAt, count: result.modifiedCount });
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Cantidades reservadas activamente por producto para una reserva
+   */
+  async getReservedQuantities(reservationId: string): Promise<Map<string, number>> {
+    const reservations = await StockReservation.find({
+      reservationId,
+      status: 'active'
+    }).lean();
+
+    const quantities = new Map<string, number>();
+    for (const reservation of reservations) {
+      const productId = reservation.product.toString();
+      quantities.set(productId, (quantities.get(productId) || 0) + reservation.quantity);
+    }
+
+    return quantities;
+  }
+
+  /**
+   * Cantidades descontadas por producto con la venta de un presupuesto
+   * Se obtienen de los movimientos de venta registrados al confirmar el pago
+   */
+  async getCommittedQuantities(quoteId: string): Promise<Map<string, number>> {
+    const rows = await StockMovement.aggregate([
+      { $match: { quote: new Types.ObjectId(quoteId), reason: 'sale' } },
+      { $group: { _id: '$product', quantity: { $sum: { $multiply: ['$delta', -1] } } } }
+    ]);
+
+    return new Map(rows.map(row => [row._id.toString(), row.quantity as number]));
+  }
+
+  /**
+   * Ajustar manualmente el stock de un producto (set, increment o decrement)
+   */
+  async adjustStock(
+    productId: string,
+    quantity: number,
+    operation: StockAdjustmentOperation,
+    context: StockMovementContext = {}
+  ): Promise<StockOperationResult> {
+    const session: ClientSession = await startSession();
+    let result: StockOperationResult | undefined;
+
+    try {
+      logger.info('Ajustando stock de producto', { productId, quantity, operation });
+
+      await session.withTransaction(async () => {
+        const product = await Product.findById(productId).session(session);
+
+        if (!product) {
+          result = {
+            success: false,
+            message: 'Producto no encontrado',
+            errors: [{ productId, error: 'Producto no encontrado' }]
+          };
+          throw new Error('Producto no encontrado');
+        }
+
+        const previousStock = product.stock;
+        const newStock = operation === 'set'
+          ? quantity
+          : previousStock + (operation === 'increment' ? quantity : -quantity);
+
+        if (newStock < 0) {
+          result = {
+            success: false,
+            message: 'La operación resultaría en stock negativo',
+            errors: [{
+              productId,
+              productName: product.name,
+              error: 'Stock insuficiente',
+              requested: quantity,
+              available: previousStock
+            }]
+          };
+          throw new Error('Stock negativo');
+        }
+
+        const updatedProduct = await Product.findByIdAndUpdate(
+          productId,
+          { $inc: { stock: newStock - previousStock } },
+          { new: true, session, runValidators: true }
+        );
+
+        await this.recordMovement(session, {
+          productId,
+          delta: newStock - previousStock,
+          previousStock,
+          newStock: updatedProduct!.stock
+        }, {
+          reason: operation === 'set' ? 'manual_set' : 'adjustment',
+          ...context
+        });
+
+        result = {
+          success: true,
+          message: 'Stock actualizado exitosamente',
+          updatedProducts: [{
+            productId,
+            productName: product.name,
+            previousStock,
+            newStock: updatedProduct!.stock
+          }]
+        };
+      });
+
+      logger.info('Stock ajustado', result!.updatedProducts?.[0]);
+      return result!;
+
+    } catch (error) {
+      if (result && !result.success) {
+        return result;
+      }
+
+      logger.error('Error ajustando stock:', error);
+      throw new Error('Error ajustando stock');
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Registrar el stock inicial de un producto recién creado
+   */
+  async recordInitialStock(productId: string, stock: number, session: ClientSession, context: StockMovementContext = {}): Promise<void> {
+    if (stock <= 0) {
+      return;
+    }
+
+    await this.recordMovement(session, {
+      productId,
+      delta: stock,
+      previousStock: 0,
+      newStock: stock
+    }, { reason: 'manual_set', notes: 'Stock inicial', ...context });
+  }
+
+  /**
+   * Obtener movimientos de stock de un producto (paginado)
+   */
+  async getStockMovements(productId: string, page: number = 1, limit: number = 20) {
+    try {
+      const filters = { product: new Types.ObjectId(productId) };
+
+      const [movements, total] = await Promise.all([
+        StockMovement.find(filters)
+          .populate('actor', 'name email')
+          .populate('quote', 'quoteNumber')
+          .sort({ createdAt: -1, _id: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        StockMovement.countDocuments(filters)
+      ]);
+
+      return { movements, total };
+
+    } catch (error) {
+      logger.error('Error obteniendo movimientos de stock:', error);
+      throw new Error('Error consultando movimientos de stock');
+    }
+  }
+
+  /**
+   * Reconciliar stock: recalcular el stock de cada producto a partir del registro
+   * de movimientos y compararlo con el valor actual de Product.stock
+   */
+  async reconcileStock(productId?: string): Promise<StockReconciliationResult> {
+    try {
+      logger.info('Reconciliando stock con el registro de movimientos', { productId });
+
+      const productFilter: any = productId ? { _id: new Types.ObjectId(productId) } : {};
+      const movementMatch: any = productId ? { product: new Types.ObjectId(productId) } : {};
+
+      const [products, ledgerTotals] = await Promise.all([
+        Product.find(productFilter).select('name sku stock').lean(),
+        StockMovement.aggregate([
+          { $match: movementMatch },
+          { $sort: { createdAt: 1, _id: 1 } },
+          {
+            $group: {
+              _id: '$product',
+              ledgerStock: { $sum: '$delta' },
+              movementsCount: { $sum: 1 },
+              lastNewStock: { $last: '$newStock' }
+            }
+          }
+        ])
+      ]);
+
+      const ledgerMap = new Map(ledgerTotals.map(total => [total._id.toString(), total]));
+
+      const items: StockReconciliationResult['items'] = products.map(product => {
+        const ledger = ledgerMap.get(product._id.toString());
+        const ledgerStock = ledger?.ledgerStock ?? 0;
+
+        return {
+          productId: product._id.toString(),
+          productName: product.name,
+          ...(product.sku && { sku: product.sku }),
+          currentStock: product.stock,
+          ledgerStock,
+          lastRecordedStock: ledger?.lastNewStock ?? null,
+          movementsCount: ledger?.movementsCount ?? 0,
+          difference: product.stock - ledgerStock,
+          isConsistent: product.stock === ledgerStock
+        };
+      });
+
+      const discrepancies = items.filter(item => !item.isConsistent);
+
+      if (discrepancies.length > 0) {
+        logger.warn('Discrepancias de stock detectadas', { count: discrepancies.length });
+      }
+
+      return {
+        checkedAt: new Date(),
+        productsChecked: items.length,
+        discrepanciesCount: discrepancies.length,
+        items: productId ? items : discrepancies
+      };
+
+    } catch (error) {
+      logger.error('Error reconciliando stock:', error);
+      throw new Error('Error reconciliando stock');
+    }
+  }
+
+  /**
+   * Registrar un movimiento en el ledger dentro de la misma sesión que el cambio de stock
+   */
+  private async recordMovement(
+    session: ClientSession,
+    change: { productId: string; delta: number; previousStock: number; newStock: number },
+    context: StockMovementContext & { reason: StockMovementReason }
+  ): Promise<void> {
+    await StockMovement.create([{
+      product: change.productId,
+      delta: change.delta,
+      previousStock: change.previousStock,
+      newStock: change.newStock,
+      reason: context.reason,
+      ...(context.actorId && { actor: context.actorId }),
+      ...(context.quoteId && { quote: context.quoteId }),
+      ...(context.paymentId && { payment: context.paymentId }),
+      ...(context.notes && { notes: context.notes })
+    }], { session });
+  }
+
   /**
    * Obtener productos con stock bajo
    */
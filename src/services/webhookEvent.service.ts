@@ -0,0 +1,367 @@
+import { Types } from 'mongoose';
+import WebhookEvent from '../models/WebhookEvent';
+import Payment from '../models/Payment';
+import { logger } from '../utils/logger';
+import { IWebhookEvent, OnlinePaymentProviderName, WebhookEventStatus } from '../types';
+import { getPaymentProvider, ProcessedWebhookData, WebhookSignatureContext } from './paymentProvider.service';
+import { getPaymentSyncService } from './paymentSync.service';
+
+/**
+ * Resultado de recibir una notificación de webhook
+ */
+export interface WebhookReceiveResult {
+  accepted: boolean;
+  duplicate: boolean;
+  eventId?: string;
+  status?: WebhookEventStatus;
+  paymentId?: string;
+}
+
+/**
+ * Filtros para listar eventos de webhook
+ */
+export interface WebhookEventFilters {
+  status?: WebhookEventStatus;
+  topic?: string;
+  resourceId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+// Headers que se guardan junto al evento (nunca credenciales)
+const STORED_HEADERS = ['x-signature', 'x-request-id', 'user-agent', 'content-type', 'x-forwarded-for'];
+
+// Un evento que quedó en processing más de este tiempo se considera abandonado
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Servicio de procesamiento idempotente de webhooks con registro de eventos
+ *
+ * Cada notificación se registra con una clave (pago + estado, o tipo + id del
+ * evento); las reentregas de un evento ya procesado se descartan.
+ */
+class WebhookEventService {
+
+  /**
+   * Registrar y procesar una notificación del proveedor de pagos configurado
+   */
+  async receive(payload: any, headers: Record<string, any>, query: Record<string, any> = {}): Promise<WebhookReceiveResult> {
+    // MercadoPago firma el data.id que envía como query param
+    const signatureContext: WebhookSignatureContext = {
+      ...(headers['x-signature'] && { signature: String(headers['x-signature']) }),
+      ...(headers['x-request-id'] && { requestId: String(headers['x-request-id']) }),
+      ...(query['data.id'] && { dataId: String(query['data.id']) })
+    };
+
+    // Resolver el estado actual del recurso en el proveedor
+    const provider = getPaymentProvider();
+    let processedData: ProcessedWebhookData | undefined;
+    let resolveError: unknown;
+
+    try {
+      processedData = await provider.processWebhook(payload, signatureContext);
+    } catch (error) {
+      resolveError = error;
+    }
+
+    if (processedData && !processedData.isValid) {
+      logger.warn('Webhook con firma inválida rechazado');
+      return { accepted: false, duplicate: false };
+    }
+
+    const claim = await this.claim(this.buildEventKey(payload, processedData), {
+      provider: provider.name,
+      ...(payload?.id !== undefined && { eventId: String(payload.id) }),
+      topic: processedData?.topic || payload?.type || payload?.topic || 'unknown',
+      ...(payload?.action && { action: payload.action }),
+      ...(payload?.data?.id !== undefined && { resourceId: String(payload.data.id) }),
+      ...(processedData?.status && { providerStatus: processedData.status }),
+      payload,
+      headers: this.pickHeaders(headers)
+    });
+
+    if (claim.duplicate) {
+      logger.info('Webhook duplicado descartado', {
+        eventId: claim.event._id,
+        eventKey: claim.event.eventKey,
+        deliveries: claim.event.deliveries
+      });
+
+      return {
+        accepted: true,
+        duplicate: true,
+        eventId: claim.event._id.toString(),
+        status: claim.event.status
+      };
+    }
+
+    const event = resolveError
+      ? await this.markFailed(claim.event, resolveError)
+      : await this.execute(claim.event, processedData!);
+
+    return {
+      accepted: true,
+      duplicate: false,
+      eventId: event._id.toString(),
+      status: event.status,
+      ...(processedData?.paymentId && { paymentId: processedData.paymentId })
+    };
+  }
+
+  /**
+   * Volver a procesar un evento (por defecto solo los fallidos)
+   */
+  async replay(event: IWebhookEvent, userId: string): Promise<IWebhookEvent | null> {
+    const claimed = await WebhookEvent.findOneAndUpdate(
+      { _id: event._id, status: { $ne: 'processing' } },
+      {
+        $set: { status: 'processing', error: null, replayedBy: new Types.ObjectId(userId) },
+        $inc: { attempts: 1 }
+      },
+      { new: true }
+    );
+
+    // Otra ejecución tomó el evento mientras tanto
+    if (!claimed) {
+      return null;
+    }
+
+    logger.info('Reprocesando evento de webhook', {
+      eventId: claimed._id,
+      eventKey: claimed.eventKey,
+      attempts: claimed.attempts,
+      userId
+    });
+
+    try {
+      // La firma ya se validó al recibir el evento original; se resuelve con el
+      // proveedor que lo envió aunque la configuración haya cambiado
+      const processedData = await getPaymentProvider(claimed.provider as OnlinePaymentProviderName)
+        .processWebhook(claimed.payload);
+      return await this.execute(claimed, processedData);
+    } catch (error) {
+      return await this.markFailed(claimed, error);
+    }
+  }
+
+  /**
+   * Listar eventos con filtros y paginación
+   */
+  async list(filters: WebhookEventFilters, page: number = 1, limit: number = 20) {
+    const query: any = {};
+
+    if (filters.status) query.status = filters.status;
+    if (filters.topic) query.topic = filters.topic;
+    if (filters.resourceId) query.resourceId = filters.resourceId;
+
+    if (filters.dateFrom || filters.dateTo) {
+      query.createdAt = {};
+      if (filters.dateFrom) query.createdAt.$gte = filters.dateFrom;
+      if (filters.dateTo) query.createdAt.$lte = filters.dateTo;
+    }
+
+    const [events, total] = await Promise.all([
+      WebhookEvent.find(query)
+        .select('-payload -headers')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      WebhookEvent.countDocuments(query)
+    ]);
+
+    return { events, total };
+  }
+
+  /**
+   * Clave de idempotencia del evento
+   */
+  private buildEventKey(payload: any, processedData?: ProcessedWebhookData): string {
+    const topic = processedData?.topic || payload?.type || payload?.topic || 'unknown';
+    const resourceId = payload?.data?.id ?? payload?.id ?? 'sin-id';
+
+    // Sin estado resuelto: las reentregas reintentan sobre el mismo evento fallido
+    if (!processedData) {
+      return `${topic}:${resourceId}:unresolved`;
+    }
+
+    if (processedData.topic === 'payment') {
+      return `payment:${processedData.paymentId}:${processedData.status || 'unknown'}`;
+    }
+
+    return `${topic}:${payload?.id ?? resourceId}`;
+  }
+
+  /**
+   * Tomar el evento para procesarlo o detectar que es un duplicado
+   */
+  private async claim(
+    eventKey: string,
+    data: Partial<IWebhookEvent>
+  ): Promise<{ event: IWebhookEvent; duplicate: boolean }> {
+    try {
+      const event = await WebhookEvent.create({ ...data, eventKey, status: 'processing' });
+      return { event, duplicate: false };
+
+    } catch (error: any) {
+      if (error?.code !== 11000) {
+        throw error;
+      }
+    }
+
+    const now = new Date();
+
+    // Reintentar eventos fallidos o abandonados a mitad de proceso
+    const retry = await WebhookEvent.findOneAndUpdate(
+      {
+        eventKey,
+        $or: [
+          { status: 'failed' },
+          { status: 'processing', updatedAt: { $lte: new Date(now.getTime() - PROCESSING_TIMEOUT_MS) } }
+        ]
+      },
+      {
+        $set: { status: 'processing', error: null, payload: data.payload, headers: data.headers, lastReceivedAt: now },
+        $inc: { attempts: 1, deliveries: 1 }
+      },
+      { new: true }
+    );
+
+    if (retry) {
+      return { event: retry, duplicate: false };
+    }
+
+    const existing = await WebhookEvent.findOneAndUpdate(
+      { eventKey },
+      { $set: { lastReceivedAt: now }, $inc: { deliveries: 1 } },
+      { new: true }
+    );
+
+    return { event: existing!, duplicate: true };
+  }
+
+  /**
+   * Ejecutar el procesamiento del evento y guardar el resultado
+   */
+  private async execute(event: IWebhookEvent, processedData: ProcessedWebhookData): Promise<IWebhookEvent> {
+    try {
+      if (processedData.status) {
+        event.providerStatus = processedData.status;
+      }
+
+      // Solo procesar webhooks de tipo payment
+      if (processedData.topic === 'payment') {
+        const result = await this.handlePaymentEvent(processedData);
+        event.status = result.matched ? 'processed' : 'ignored';
+        event.result = result;
+      } else {
+        logger.info('Webhook no procesado (tipo no soportado)', {
+          topic: processedData.topic
+        });
+        event.status = 'ignored';
+        event.result = { reason: 'Tipo de evento no soportado' };
+      }
+
+      event.error = null;
+      event.processedAt = new Date();
+      await event.save();
+
+      return event;
+
+    } catch (error) {
+      return this.markFailed(event, error);
+    }
+  }
+
+  /**
+   * Manejar evento de pago: aplicar el estado del proveedor al pago local
+   */
+  private async handlePaymentEvent(processedData: ProcessedWebhookData) {
+    const { paymentId, status, externalReference } = processedData;
+
+    logger.info('Procesando webhook de pago', {
+      paymentId,
+      status,
+      externalReference
+    });
+
+    // Buscar el pago por externalReference si está disponible
+    const payment = externalReference
+      ? await Payment.findOne({ externalReference })
+      : null;
+
+    if (!payment) {
+      logger.warn('No se pudo encontrar el pago asociado al webhook', {
+        paymentId,
+        externalReference
+      });
+      return { matched: false, reason: 'Pago local no encontrado', externalReference };
+    }
+
+    const previousStatus = payment.status;
+
+    // Misma transición de estados que la sincronización activa
+    const changed = await getPaymentSyncService().applyProviderStatus(payment, {
+      status,
+      providerPaymentId: paymentId,
+      webhookData: processedData
+    });
+
+    return {
+      matched: true,
+      paymentId: payment._id.toString(),
+      previousStatus,
+      status: payment.status,
+      changed
+    };
+  }
+
+  /**
+   * Marcar el evento como fallido guardando el error
+   */
+  private async markFailed(event: IWebhookEvent, error: unknown): Promise<IWebhookEvent> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    logger.error('Error procesando evento de webhook', {
+      eventId: event._id,
+      eventKey: event.eventKey,
+      error: message
+    });
+
+    event.status = 'failed';
+    event.error = message;
+    await event.save();
+
+    return event;
+  }
+
+  /**
+   * Quedarse solo con los headers relevantes
+   */
+  private pickHeaders(headers: Record<string, any>): Record<string, string> {
+    const picked: Record<string, string> = {};
+
+    for (const name of STORED_HEADERS) {
+      if (headers[name] !== undefined) {
+        picked[name] = String(headers[name]);
+      }
+    }
+
+    return picked;
+  }
+}
+
+// Crear instancia singleton
+let webhookEventService: WebhookEventService;
+
+/**
+ * Obtener instancia del servicio de eventos de webhook
+ */
+export const getWebhookEventService = (): WebhookEventService => {
+  if (!webhookEventService) {
+    webhookEventService = new WebhookEventService();
+  }
+  return webhookEventService;
+};
+
+export default WebhookEventService;
@@ -1,5 +1,5 @@
 import { Request } from 'express';
-import { Document, Types } from 'mongoose';
+import { Document, Model, Query, Types } from 'mongoose';
 
 // Tipos para el usuario
 export interface IUser extends Document {
@@ -8,6 +8,8 @@ export interface IUser extends Document {
   password: string;
   name: string;
   role: 'admin' | 'seller';
+  // Descuento máximo (%) sin aprobación; sin valor se usa el límite del rol
+  maxDiscountPercent?: number;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -20,8 +22,14 @@ export interface IProduct extends Document {
   name: string;
   description: string;
   price: number;
+  // Costo unitario (solo visible para administradores)
+  costPrice?: number;
   stock: number;
+  reservedStock: number;
+  availableStock: number;
   category: string;
+  // Alícuota de IVA por defecto del producto (si no se indica, se usa la de su categoría)
+  taxRate?: number;
   sku?: string;
   imageUrl?: string;
   isActive: boolean;
@@ -31,60 +39,454 @@ export interface IProduct extends Document {
   decrementStock(quantity: number): Promise<void>;
 }
 
+// Tipos para reservas de stock
+export interface IStockReservation extends Document {
+  _id: Types.ObjectId;
+  reservationId: string;
+  quote?: Types.ObjectId;
+  product: Types.ObjectId;
+  quantity: number;
+  status: 'active' | 'released' | 'expired' | 'converted';
+  expiresAt: Date;
+  releasedAt?: Date;
+  convertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Motivos de movimiento de stock
+export type StockMovementReason = 'manual_set' | 'sale' | 'cancellation' | 'adjustment' | 'import' | 'refund';
+
+// Tipos para el registro inmutable de movimientos de stock
+export interface IStockMovement extends Document {
+  _id: Types.ObjectId;
+  product: Types.ObjectId;
+  delta: number;
+  previousStock: number;
+  newStock: number;
+  reason: StockMovementReason;
+  actor?: Types.ObjectId;
+  quote?: Types.ObjectId;
+  payment?: Types.ObjectId;
+  notes?: string;
+  createdAt: Date;
+}
+
+// Motivo de un cambio de precio
+export type PriceChangeReason = 'initial' | 'manual' | 'bulk' | 'revert';
+
+// Tipos para el historial de precios por producto (registro inmutable)
+export interface IPriceHistory extends Document {
+  _id: Types.ObjectId;
+  product: Types.ObjectId;
+  // Sin precio anterior en el registro inicial del producto
+  previousPrice?: number;
+  price: number;
+  reason: PriceChangeReason;
+  batch?: Types.ObjectId;
+  changedBy?: Types.ObjectId;
+  effectiveFrom: Date;
+  createdAt: Date;
+}
+
+// Redondeo de precios: al múltiplo de step más cercano, hacia arriba o hacia abajo
+export interface PriceRounding {
+  mode: 'nearest' | 'up' | 'down';
+  step: number;
+}
+
+// Productos alcanzados por un cambio masivo de precios
+export interface PriceChangeFilters {
+  category?: string;
+  // Comodín * (ej. ELEC-*)
+  skuPattern?: string;
+  search?: string;
+  // Todo el catálogo activo (requerido si no se indica ningún filtro)
+  allProducts?: boolean;
+}
+
+// Producto modificado por un lote de cambio de precios
+export interface IPriceChangeBatchItem {
+  product: Types.ObjectId;
+  name: string;
+  sku?: string;
+  previousPrice: number;
+  newPrice: number;
+  // Al revertir: false si el precio había cambiado desde el lote y se dejó como estaba
+  reverted?: boolean;
+}
+
+// Tipos para lotes de cambio de precios (reversibles)
+export interface IPriceChangeBatch extends Document {
+  _id: Types.ObjectId;
+  filters: PriceChangeFilters;
+  type: 'percent' | 'fixed';
+  value: number;
+  rounding: PriceRounding;
+  items: IPriceChangeBatchItem[];
+  productsCount: number;
+  notes?: string;
+  status: 'applied' | 'reverted';
+  createdBy: Types.ObjectId;
+  revertedBy?: Types.ObjectId;
+  revertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Dirección de un cliente
+export interface ICustomerAddress {
+  label?: string;
+  street: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+// Tipos para el cliente
+export interface ICustomer extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  taxId?: string;
+  emails: string[];
+  phones: string[];
+  addresses: ICustomerAddress[];
+  notes?: string;
+  tags: string[];
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tipos para cupones de descuento
+export interface ICoupon extends Document {
+  _id: Types.ObjectId;
+  code: string;
+  description?: string;
+  type: 'percent' | 'fixed';
+  value: number;
+  // Subtotal mínimo del presupuesto para poder aplicarlo
+  minOrderAmount: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  // Límites de uso; sin límite si no se indican
+  maxUses?: number;
+  maxUsesPerCustomer?: number;
+  // Usos contados (presupuestos pagados con el cupón)
+  usesCount: number;
+  // Categorías alcanzadas; vacío para todos los productos
+  allowedCategories: string[];
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Tipos para items del presupuesto
+// Descuento de un item: porcentaje o monto fijo sobre el total de la línea
+export interface IQuoteItemDiscount {
+  type: 'percent' | 'fixed';
+  value: number;
+}
+
 export interface IQuoteItem {
   product: Types.ObjectId | IProduct;
   productSnapshot: {
     name: string;
     price: number;
+    category?: string;
+    // Costo unitario al presupuestar (solo visible para administradores)
+    costPrice?: number;
   };
   quantity: number;
+  // Precio por cantidad, antes de descuentos
   subtotal: number;
+  discount?: IQuoteItemDiscount;
+  // Alícuota de la línea; sin alícuota se usa el impuesto general del presupuesto
+  taxRate?: number;
+  // Calculados en calculateTotals
+  discountAmount?: number;
+  netAmount?: number;
+  taxAmount?: number;
+  total?: number;
+  // Solo si el producto tiene costo: costo de la línea y margen sobre su neto
+  costAmount?: number;
+  marginAmount?: number;
+}
+
+// Impuestos del presupuesto agrupados por alícuota
+export interface IQuoteTaxBreakdown {
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+// Cupón aplicado al presupuesto (copia de sus condiciones al aplicarlo)
+export interface IQuoteCoupon {
+  couponId: Types.ObjectId;
+  code: string;
+  type: 'percent' | 'fixed';
+  value: number;
+  minOrderAmount: number;
+  allowedCategories: string[];
+  // Calculado en calculateTotals
+  discountAmount?: number;
+  // Momento en que se contó el uso (al quedar pagado el presupuesto)
+  redeemedAt?: Date;
+  // Pagado cuando el cupón ya no tenía usos: conserva el descuento pero no se cuenta
+  overLimit?: boolean;
+}
+
+// Aprobación de un descuento mayor al permitido para quien cotiza
+export interface IQuoteDiscountApproval {
+  status: 'pending' | 'approved' | 'rejected';
+  // Descuento efectivo (%) sobre el subtotal, sin contar cupones
+  discountPercent: number;
+  maxDiscountPercent: number;
+  requestedBy: Types.ObjectId;
+  requestedAt: Date;
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  comment?: string;
+}
+
+// Enlace público vigente del presupuesto (un nuevo enlace invalida el anterior)
+export interface IQuotePublicLink {
+  tokenId: string;
+  expiresAt: Date;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  views: number;
+  lastViewedAt?: Date;
+}
+
+// Respuesta del cliente desde el enlace público
+export interface IQuoteCustomerDecision {
+  decision: 'accepted' | 'rejected';
+  name: string;
+  email?: string;
+  reason?: string;
+  decidedAt: Date;
+  ip?: string;
+  userAgent?: string;
 }
 
 // Tipos para el presupuesto
 export interface IQuote extends Document {
   _id: Types.ObjectId;
   quoteNumber: string;
+  // Copia de los datos del cliente al momento de presupuestar
   customer: {
     name: string;
     email?: string;
     phone?: string;
   };
+  customerId?: Types.ObjectId;
+  // Plantilla de la que se generó, si corresponde
+  templateId?: Types.ObjectId;
+  // Presupuesto del que se duplicó, si corresponde
+  duplicatedFrom?: Types.ObjectId;
   items: IQuoteItem[];
   subtotal: number;
+  // Impuesto general (%) para los items sin alícuota propia
   tax: number;
+  // Descuento general sobre el neto de todos los items: porcentaje o monto fijo
   discount: number;
+  discountType: 'percent' | 'fixed';
+  coupon?: IQuoteCoupon;
+  discountAmount: number;
+  taxAmount: number;
+  taxBreakdown: IQuoteTaxBreakdown[];
   total: number;
-  status: 'pending' | 'paid' | 'cancelled' | 'expired';
+  // Margen de los items con costo conocido (solo visible para administradores)
+  costTotal?: number;
+  marginAmount?: number;
+  marginPercent?: number;
+  // El descuento deja el margen por debajo del mínimo configurado
+  marginBelowFloor?: boolean;
+  amountPaid: number;
+  balanceDue: number;
+  status: 'pending_approval' | 'pending' | 'partially_paid' | 'paid' | 'rejected' | 'cancelled' | 'expired' | 'partially_refunded' | 'refunded';
+  discountApproval?: IQuoteDiscountApproval;
   paymentId?: Types.ObjectId;
+  stockCommittedAt?: Date;
+  publicLink?: IQuotePublicLink;
+  customerDecision?: IQuoteCustomerDecision;
   expiresAt: Date;
   notes?: string;
+  version: number;
+  expiryReminderSentAt?: Date;
   createdBy: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
-  generateQuoteNumber(): string;
+  generateQuoteNumber(): Promise<string>;
   calculateTotals(): void;
   validateStockBeforeCreate(): Promise<boolean>;
 }
 
+// Métodos estáticos del modelo de presupuesto
+export interface IQuoteModel extends Model<IQuote> {
+  findExpiringQuotes(days?: number): Query<IQuote[], IQuote>;
+  expireOldQuotes(): ReturnType<Model<IQuote>['updateMany']>;
+}
+
+// Tipos para plantillas de presupuesto (kits que se cotizan seguido)
+export interface IQuoteTemplateItem {
+  product: Types.ObjectId | IProduct;
+  quantity: number;
+  discount?: IQuoteItemDiscount;
+  taxRate?: number;
+}
+
+export interface IQuoteTemplate extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  items: IQuoteTemplateItem[];
+  discount: number;
+  discountType: 'percent' | 'fixed';
+  tax: number;
+  notes?: string;
+  // Compartida: visible y utilizable por todos los usuarios; solo el dueño o un admin la edita
+  isShared: boolean;
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tipos para revisiones de presupuesto (versiones anteriores)
+export interface IQuoteRevision extends Document {
+  _id: Types.ObjectId;
+  quote: Types.ObjectId;
+  version: number;
+  customer: IQuote['customer'];
+  items: IQuoteItem[];
+  subtotal: number;
+  tax: number;
+  discount: number;
+  discountType: 'percent' | 'fixed';
+  total: number;
+  notes?: string;
+  expiresAt: Date;
+  revisedBy: Types.ObjectId;
+  reason?: string;
+  createdAt: Date;
+}
+
+// Tipos para contadores atómicos (numeración secuencial)
+export interface ICounter {
+  _id: string;
+  seq: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tipos para reembolsos de un pago
+export interface IPaymentRefund {
+  _id: Types.ObjectId;
+  mercadopagoRefundId?: string;
+  amount: number;
+  reason?: string;
+  providerStatus?: string;
+  restockedItems: Array<{
+    product: Types.ObjectId;
+    quantity: number;
+  }>;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+}
+
+// Origen del pago: MercadoPago, el proveedor simulado de desarrollo o registrado
+// manualmente (efectivo, transferencia, cheque)
+export type PaymentProviderName = 'mercadopago' | 'mock' | 'manual';
+
+// Proveedores que procesan pagos en línea
+export type OnlinePaymentProviderName = Exclude<PaymentProviderName, 'manual'>;
+
+export type ManualPaymentMethod = 'cash' | 'bank_transfer' | 'check';
+
 // Tipos para el pago
 export interface IPayment extends Document {
   _id: Types.ObjectId;
   quote: Types.ObjectId;
-  mercadopagoId: string;
-  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  attemptNumber: number;
+  provider: PaymentProviderName;
+  mercadopagoId?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired' | 'partially_refunded' | 'refunded';
   amount: number;
+  refundedAmount: number;
+  refunds: IPaymentRefund[];
   paymentMethod?: string;
   qrCode?: string;
   qrCodeData?: string;
   externalReference: string;
+  referenceNumber?: string;
+  receiptImage?: string;
+  recordedBy?: Types.ObjectId;
+  mercadopagoPaymentId?: string;
   webhookData?: any;
+  expiresAt?: Date;
+  lastSyncedAt?: Date;
   paidAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Métodos estáticos del modelo de pago
+export interface IPaymentModel extends Model<IPayment> {
+  findActiveAttempt(quoteId: string): Query<IPayment | null, IPayment>;
+  findAttempts(quoteId: string): Query<IPayment[], IPayment>;
+  findOldPendingPayments(hours?: number): Query<IPayment[], IPayment>;
+}
+
+// Tipos para el registro de eventos de webhook
+export type WebhookEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+export interface IWebhookEvent extends Document {
+  _id: Types.ObjectId;
+  provider: string;
+  eventKey: string;
+  eventId?: string;
+  topic: string;
+  action?: string;
+  resourceId?: string;
+  providerStatus?: string;
+  status: WebhookEventStatus;
+  payload: any;
+  headers: Record<string, string>;
+  result?: any;
+  error?: string | null;
+  attempts: number;
+  deliveries: number;
+  lastReceivedAt: Date;
+  processedAt?: Date;
+  replayedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tipos para tareas programadas (estado y lock distribuido)
+export type ScheduledJobStatus = 'success' | 'failed';
+
+export interface IScheduledJob {
+  _id: string;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+  lastRunAt?: Date;
+  lastFinishedAt?: Date;
+  lastDurationMs?: number;
+  lastStatus?: ScheduledJobStatus;
+  lastError?: string | null;
+  lastResult?: any;
+  runCount: number;
+  failureCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Extensión del Request de Express para incluir usuario autenticado
 export interface AuthRequest extends Request {
   user?: {
@@ -124,15 +526,37 @@ export interface ProductFilters extends PaginationQuery {
 
 // Tipos para filtros de presupuestos
 export interface QuoteFilters extends PaginationQuery {
-  status?: 'pending' | 'paid' | 'cancelled' | 'expired';
+  status?: IQuote['status'];
   customer?: string;
+  customerId?: string;
   dateFrom?: string;
   dateTo?: string;
+  // Solo admins: presupuestos con margen por debajo del mínimo
+  marginBelowFloor?: string;
+}
+
+// Tipos para filtros de clientes
+export interface CustomerFilters extends PaginationQuery {
+  search?: string;
+  tag?: string;
+  isActive?: string;
+}
+
+export interface QuoteTemplateFilters extends PaginationQuery {
+  search?: string;
+  scope?: 'mine' | 'shared';
+}
+
+export interface CouponFilters extends PaginationQuery {
+  search?: string;
+  isActive?: string;
 }
 
 // Tipos para creación de presupuesto
 export interface CreateQuoteRequest {
-  customer: {
+  // Cliente registrado; si se omite se busca o registra a partir de customer
+  customerId?: string;
+  customer?: {
     name: string;
     email?: string;
     phone?: string;
@@ -140,23 +564,83 @@ export interface CreateQuoteRequest {
   items: Array<{
     productId: string;
     quantity: number;
+    discount?: IQuoteItemDiscount;
+    taxRate?: number;
   }>;
   discount?: number;
+  discountType?: 'percent' | 'fixed';
+  // Código de cupón (solo al crear el presupuesto)
+  couponCode?: string;
   tax?: number;
   notes?: string;
 }
 
+// Tipos para creación de plantilla de presupuesto
+export interface CreateQuoteTemplateRequest {
+  name: string;
+  description?: string;
+  items: CreateQuoteRequest['items'];
+  discount?: number;
+  discountType?: 'percent' | 'fixed';
+  tax?: number;
+  notes?: string;
+  isShared?: boolean;
+}
+
+// Tipos para crear un presupuesto desde una plantilla
+export type CreateQuoteFromTemplateRequest = Omit<CreateQuoteRequest, 'items'>;
+
+// Tipos para edición de presupuesto
+export interface UpdateQuoteRequest extends Partial<Omit<CreateQuoteRequest, 'couponCode'>> {
+  reason?: string;
+}
+
+// Tipos para creación de cliente
+export interface CreateCustomerRequest {
+  name: string;
+  taxId?: string;
+  emails?: string[];
+  phones?: string[];
+  addresses?: ICustomerAddress[];
+  notes?: string;
+  tags?: string[];
+}
+
+// Tipos para creación de cupón
+export interface CreateCouponRequest {
+  code: string;
+  description?: string;
+  type: 'percent' | 'fixed';
+  value: number;
+  minOrderAmount?: number;
+  validFrom?: string;
+  validUntil?: string;
+  maxUses?: number;
+  maxUsesPerCustomer?: number;
+  allowedCategories?: string[];
+}
+
 // Tipos para creación de producto
 export interface CreateProductRequest {
   name: string;
   description: string;
   price: number;
+  costPrice?: number;
   stock: number;
   category: string;
+  taxRate?: number;
   sku?: string;
   imageUrl?: string;
 }
 
+// Tipos para cambios masivos de precios
+export interface BulkPriceChangeRequest extends PriceChangeFilters {
+  type: 'percent' | 'fixed';
+  value: number;
+  rounding?: Partial<PriceRounding>;
+  notes?: string;
+}
+
 // Tipos para login
 export interface LoginRequest {
   email: string;
@@ -228,16 +712,23 @@ export interface MercadoPagoWebhook {
 // Enum para estados
 export enum QuoteStatus {
   PENDING = 'pending',
+  PARTIALLY_PAID = 'partially_paid',
   PAID = 'paid',
+  REJECTED = 'rejected',
   CANCELLED = 'cancelled',
-  EXPIRED = 'expired'
+  EXPIRED = 'expired',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded'
 }
 
 export enum PaymentStatus {
   PENDING = 'pending',
   APPROVED = 'approved',
   REJECTED = 'rejected',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded'
 }
 
 export enum UserRole {
@@ -0,0 +1,28 @@
+/**
+ * Generación de archivos CSV
+ */
+
+type CsvValue = string | number | Date | null | undefined;
+
+/**
+ * Escapar un valor según RFC 4180 (comillas dobles si contiene separador, comillas o saltos de línea)
+ */
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  // Evitar que las planillas de cálculo interpreten el texto como fórmula
+  const safeText = /^[=+\-@]/.test(text) && typeof value === 'string' ? `'${text}` : text;
+
+  return /[",\r\n]/.test(safeText) ? `"${safeText.replace(/"/g, '""')}"` : safeText;
+};
+
+/**
+ * Construir un CSV con encabezados
+ * Incluye BOM UTF-8 para que Excel respete los acentos
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string => {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvValue).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
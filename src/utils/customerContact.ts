@@ -0,0 +1,47 @@
+/**
+ * Normalización de los datos de contacto de clientes
+ *
+ * Se usan para guardar y para buscar coincidencias, de modo que
+ * "Juan@Mail.com " y "juan@mail.com" o "+54 11 1234-5678" y
+ * "+541112345678" se reconozcan como el mismo dato.
+ */
+
+/**
+ * Email en minúsculas y sin espacios
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Teléfono solo con dígitos (conserva el + inicial)
+ */
+export const normalizePhone = (phone: string): string => {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+};
+
+// Teléfono de un cliente ya normalizado: + opcional y entre 6 y 20 dígitos
+export const CUSTOMER_PHONE_PATTERN = /^\+?[0-9]{6,20}$/;
+
+/**
+ * Indicar si un teléfono, una vez normalizado, es válido para la ficha de un cliente
+ */
+export const isValidPhone = (phone: string): boolean => CUSTOMER_PHONE_PATTERN.test(normalizePhone(phone));
+
+/**
+ * Teléfonos normalizados válidos para la ficha de un cliente
+ * Los vacíos o inválidos (por ejemplo de presupuestos antiguos) se descartan
+ */
+export const toCustomerPhones = (phone: string | undefined): string[] =>
+  phone && isValidPhone(phone) ? [normalizePhone(phone)] : [];
+
+/**
+ * CUIT/CUIL u otra identificación fiscal solo con dígitos y letras
+ */
+export const normalizeTaxId = (taxId: string): string => taxId.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+
+/**
+ * Normalizar una lista quitando vacíos y duplicados
+ */
+export const normalizeList = (values: string[] | undefined, normalize: (value: string) => string): string[] =>
+  [...new Set((values || []).map(normalize).filter(Boolean))];
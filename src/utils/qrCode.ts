@@ -0,0 +1,25 @@
+import QRCode from 'qrcode';
+import { logger } from './logger';
+
+/**
+ * Generar QR code en base64
+ */
+export const generateQRCode = async (data: string): Promise<string> => {
+  try {
+    const qrCode = await QRCode.toDataURL(data, {
+      errorCorrectionLevel: 'M',
+      margin: 1,
+      color: {
+        dark: '#000000',
+        light: '#FFFFFF'
+      },
+      width: 300
+    });
+
+    return qrCode;
+
+  } catch (error) {
+    logger.error('Error generando QR code:', error);
+    throw new Error('Error generando código QR');
+  }
+};
@@ -0,0 +1,113 @@
+/**
+ * Período de reinicio de la numeración de presupuestos
+ */
+export type QuoteNumberResetPeriod = 'yearly' | 'monthly' | 'never';
+
+/**
+ * Configuración de la numeración de presupuestos
+ */
+export interface QuoteNumberConfig {
+  prefix: string;
+  format: string;
+  padding: number;
+  resetPeriod: QuoteNumberResetPeriod;
+}
+
+/**
+ * Partes extraídas de un número de presupuesto existente
+ */
+export interface ParsedQuoteNumber {
+  year?: number;
+  month?: number;
+  sequence: number;
+}
+
+const RESET_PERIODS: QuoteNumberResetPeriod[] = ['yearly', 'monthly', 'never'];
+
+/**
+ * Obtener configuración de numeración desde las variables de entorno
+ *
+ * Tokens soportados en QUOTE_NUMBER_FORMAT: {prefix}, {year}, {month}, {seq}
+ */
+export const getQuoteNumberConfig = (): QuoteNumberConfig => {
+  const resetPeriod = process.env.QUOTE_NUMBER_RESET as QuoteNumberResetPeriod;
+  const padding = parseInt(process.env.QUOTE_NUMBER_PADDING || '', 10);
+
+  return {
+    prefix: process.env.QUOTE_NUMBER_PREFIX || 'QT',
+    format: process.env.QUOTE_NUMBER_FORMAT || '{prefix}-{year}-{seq}',
+    padding: Number.isInteger(padding) && padding > 0 ? padding : 6,
+    resetPeriod: RESET_PERIODS.includes(resetPeriod) ? resetPeriod : 'yearly'
+  };
+};
+
+/**
+ * Clave del contador según el período de reinicio (ej: quote-2026, quote-2026-03)
+ */
+export const getQuoteCounterKey = (
+  date: Date = new Date(),
+  config: QuoteNumberConfig = getQuoteNumberConfig()
+): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+
+  switch (config.resetPeriod) {
+    case 'monthly':
+      return `quote-${year}-${month}`;
+    case 'never':
+      return 'quote';
+    default:
+      return `quote-${year}`;
+  }
+};
+
+/**
+ * Formatear un número de presupuesto a partir de la secuencia
+ */
+export const formatQuoteNumber = (
+  sequence: number,
+  date: Date = new Date(),
+  config: QuoteNumberConfig = getQuoteNumberConfig()
+): string => {
+  return config.format
+    .replace(/\{prefix\}/g, config.prefix)
+    .replace(/\{year\}/g, date.getFullYear().toString())
+    .replace(/\{month\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+    .replace(/\{seq\}/g, sequence.toString().padStart(config.padding, '0'));
+};
+
+/**
+ * Interpretar un número de presupuesto con el formato configurado
+ * Devuelve null si el número no respeta el formato (ej: números legados)
+ */
+export const parseQuoteNumber = (
+  quoteNumber: string,
+  config: QuoteNumberConfig = getQuoteNumberConfig()
+): ParsedQuoteNumber | null => {
+  const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  const pattern = config.format
+    .split(/(\{prefix\}|\{year\}|\{month\}|\{seq\})/)
+    .map(part => {
+      switch (part) {
+        case '{prefix}': return escapeRegExp(config.prefix);
+        case '{year}': return '(?<year>\\d{4})';
+        case '{month}': return '(?<month>\\d{2})';
+        case '{seq}': return '(?<seq>\\d+)';
+        default: return escapeRegExp(part);
+      }
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`).exec(quoteNumber);
+
+  if (!match?.groups?.seq) {
+    return null;
+  }
+
+  const parsed: ParsedQuoteNumber = { sequence: parseInt(match.groups.seq, 10) };
+  if (match.groups.year) parsed.year = parseInt(match.groups.year, 10);
+  if (match.groups.month) parsed.month = parseInt(match.groups.month, 10);
+
+  return parsed;
+};
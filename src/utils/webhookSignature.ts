@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+
+/**
+ * Datos firmados en una notificación de webhook
+ */
+export interface SignatureManifestData {
+  dataId?: string;
+  requestId?: string;
+  ts: string;
+}
+
+/**
+ * Construir el manifiesto "id:<data.id>;request-id:<x-request-id>;ts:<ts>;"
+ * Los ids alfanuméricos se firman en minúsculas; las partes ausentes se omiten
+ */
+export const buildSignatureManifest = ({ dataId, requestId, ts }: SignatureManifestData): string => {
+  let manifest = '';
+  if (dataId) manifest += `id:${dataId.toLowerCase()};`;
+  if (requestId) manifest += `request-id:${requestId};`;
+  manifest += `ts:${ts};`;
+  return manifest;
+};
+
+/**
+ * Generar un header x-signature ("ts=<timestamp>,v1=<hash>") para el manifiesto
+ */
+export const signWebhookManifest = (secret: string, data: SignatureManifestData): string => {
+  const hash = crypto
+    .createHmac('sha256', secret)
+    .update(buildSignatureManifest(data))
+    .digest('hex');
+
+  return `ts=${data.ts},v1=${hash}`;
+};
+
+/**
+ * Verificar un header x-signature con la clave secreta
+ * Devuelve el motivo del rechazo o null si la firma es válida
+ */
+export const checkWebhookSignature = (
+  signature: string,
+  secret: string,
+  data: Omit<SignatureManifestData, 'ts'>,
+  toleranceSeconds: number
+): string | null => {
+  // Extraer ts y v1 del header
+  const parts = new Map(
+    signature.split(',').map(part => {
+      const [key = '', ...value] = part.split('=');
+      return [key.trim(), value.join('=').trim()] as const;
+    })
+  );
+  const ts = parts.get('ts');
+  const v1 = parts.get('v1');
+
+  if (!ts || !v1) {
+    return 'Header x-signature con formato inválido';
+  }
+
+  // Rechazar firmas viejas para evitar reenvíos de notificaciones capturadas
+  const tsNumber = Number(ts);
+  if (!Number.isFinite(tsNumber)) {
+    return 'Timestamp de firma inválido';
+  }
+
+  const tsMs = tsNumber > 1e12 ? tsNumber : tsNumber * 1000;
+  if (Math.abs(Date.now() - tsMs) > toleranceSeconds * 1000) {
+    return 'Firma vencida';
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(buildSignatureManifest({ ...data, ts }))
+    .digest('hex');
+
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const receivedBuffer = Buffer.from(v1, 'hex');
+
+  const isValid = expectedBuffer.length === receivedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+
+  return isValid ? null : 'Firma no coincide';
+};